@@ -86,6 +86,82 @@ export const isBookingOwnerOrVetOrAdmin = async ({ req: { user, payload } }: Acc
   return ownerQuery;
 };
 
+// Bookings are also visible to the administrators of the clinic they belong to
+export const isBookingParticipantOrClinicAdminOrAdmin = async (args: AccessArgs<any, User>) => {
+  const access = await isBookingOwnerOrVetOrAdmin(args);
+  const { req: { user, payload } } = args;
+  if (access === true || !user) return access;
+
+  try {
+    const clinics = await payload.find({
+      collection: 'clinics',
+      where: {
+        admins: { contains: user.id },
+      },
+      limit: 20,
+      depth: 0,
+    });
+
+    if (clinics.docs.length > 0) {
+      return {
+        or: [
+          access,
+          {
+            clinic: {
+              in: clinics.docs.map(clinic => clinic.id),
+            },
+          },
+        ],
+      };
+    }
+  } catch (error) {
+    console.error('Error finding administered clinics:', error);
+  }
+
+  return access;
+};
+
+// Clinic access: the clinic's administrators or admin
+export const isClinicAdminOrAdmin = ({ req: { user } }: AccessArgs<any, User>) => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  return {
+    admins: {
+      contains: user.id,
+    },
+  };
+};
+
+// Clinic resources: managed by the administrators of the clinic they belong to
+export const isClinicResourceManagerOrAdmin = async ({ req: { user, payload } }: AccessArgs<any, User>) => {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  try {
+    const clinics = await payload.find({
+      collection: 'clinics',
+      where: {
+        admins: { contains: user.id },
+      },
+      limit: 20,
+      depth: 0,
+    });
+
+    if (clinics.docs.length > 0) {
+      return {
+        clinic: {
+          in: clinics.docs.map(clinic => clinic.id),
+        },
+      };
+    }
+  } catch (error) {
+    console.error('Error finding administered clinics:', error);
+  }
+
+  return false;
+};
+
 // Shelter access
 export const isShelterOrAdmin = ({ req: { user } }: AccessArgs<any, User>) => {
   if (user?.role === 'admin') return true;
@@ -575,6 +651,9 @@ export default {
   isOwnerOrAdmin,
   isVeterinarianOrAdmin,
   isBookingOwnerOrVetOrAdmin,
+  isBookingParticipantOrClinicAdminOrAdmin,
+  isClinicAdminOrAdmin,
+  isClinicResourceManagerOrAdmin,
   isShelterOrAdmin,
   isDocumentOwnerOrAdmin,
   isEmergencyReporterOrAdmin,
@@ -1,5 +1,5 @@
 import type { CollectionConfig } from 'payload/types';
-import { isAdmin, isBookingOwnerOrVetOrAdmin } from '../access/index';
+import { isAdmin, isBookingParticipantOrClinicAdminOrAdmin } from '../access/index';
 
 export const Bookings: CollectionConfig = {
   slug: 'bookings',
@@ -10,8 +10,8 @@ export const Bookings: CollectionConfig = {
   },
   access: {
     create: ({ req: { user } }) => !!user,
-    read: isBookingOwnerOrVetOrAdmin,
-    update: isBookingOwnerOrVetOrAdmin,
+    read: isBookingParticipantOrClinicAdminOrAdmin,
+    update: isBookingParticipantOrClinicAdminOrAdmin,
     delete: isAdmin,
     admin: ({ req: { user } }) => user?.role === 'admin',
   },
@@ -57,6 +57,30 @@ export const Bookings: CollectionConfig = {
       required: true,
       label: 'Veterinario',
     },
+    {
+      name: 'clinic',
+      type: 'relationship',
+      relationTo: 'clinics',
+      label: 'Clinica',
+      index: true,
+      admin: {
+        description: 'Impostata automaticamente dalla clinica del veterinario',
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'resources',
+      type: 'relationship',
+      relationTo: 'clinic-resources',
+      hasMany: true,
+      label: 'Sale e Attrezzature',
+      admin: {
+        description: 'Assegnate automaticamente in base alle risorse richieste dalla clinica',
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
 
     // Booking Details
     {
@@ -81,9 +105,32 @@ export const Bookings: CollectionConfig = {
           label: 'Telemedicina',
           value: 'telemedicine',
         },
+        {
+          label: 'Chirurgia',
+          value: 'surgery',
+        },
       ],
       defaultValue: 'general',
     },
+    {
+      name: 'service',
+      type: 'select',
+      label: 'Servizio',
+      options: [
+        { label: 'Visite a domicilio', value: 'home_visits' },
+        { label: 'Emergenze 24/7', value: 'emergency_24_7' },
+        { label: 'Chirurgia', value: 'surgery' },
+        { label: 'Diagnostica per immagini', value: 'imaging' },
+        { label: 'Laboratorio', value: 'laboratory' },
+        { label: 'Ricovero', value: 'hospitalization' },
+        { label: 'Toelettatura', value: 'grooming' },
+        { label: 'Vaccinazioni', value: 'vaccinations' },
+        { label: 'Microchip', value: 'microchipping' },
+      ],
+      admin: {
+        description: 'Servizio specifico richiesto, ad esempio un esame che richiede l\'ecografo',
+      },
+    },
     {
       name: 'status',
       type: 'select',
@@ -153,7 +200,7 @@ export const Bookings: CollectionConfig = {
       label: 'Durata (minuti)',
       defaultValue: 30,
       min: 15,
-      max: 180,
+      max: 480,
       admin: {
         step: 15,
       },
@@ -190,6 +237,33 @@ export const Bookings: CollectionConfig = {
         rows: 2,
       },
     },
+    {
+      name: 'triageVersion',
+      type: 'number',
+      label: 'Versione Questionario Triage',
+      admin: {
+        description: 'Versione delle domande con cui è stato calcolato il punteggio di urgenza',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'urgencyOverrides',
+      type: 'json',
+      label: 'Modifiche Urgenza',
+      admin: {
+        description: 'Correzioni del punteggio di urgenza fatte dal veterinario, con motivazione',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'triagePath',
+      type: 'json',
+      label: 'Risposte Triage',
+      admin: {
+        description: 'Domande poste e risposte date, nell\'ordine del triage',
+        readOnly: true,
+      },
+    },
 
     // Visit Notes (for veterinarians)
     {
@@ -236,6 +310,23 @@ export const Bookings: CollectionConfig = {
         read: ({ req: { user } }) => user?.role === 'veterinarian' || user?.role === 'admin',
       },
     },
+    {
+      name: 'weight',
+      type: 'number',
+      label: 'Peso Rilevato (kg)',
+      min: 0.1,
+      max: 150,
+      admin: {
+        step: 0.1,
+        description: 'Aggiunto alla curva del peso nella cartella clinica a visita completata',
+        condition: (data, siblingData, { user }) => 
+          user?.role === 'veterinarian' || user?.role === 'admin',
+      },
+      access: {
+        create: ({ req: { user } }) => user?.role === 'veterinarian' || user?.role === 'admin',
+        update: ({ req: { user } }) => user?.role === 'veterinarian' || user?.role === 'admin',
+      },
+    },
 
     // Follow-up
     {
@@ -268,6 +359,49 @@ export const Bookings: CollectionConfig = {
         rows: 2,
       },
     },
+    {
+      name: 'followUpStatus',
+      type: 'select',
+      label: 'Stato Follow-up',
+      options: [
+        { label: 'Proposto (in attesa di conferma)', value: 'proposed' },
+        { label: 'Invito a prenotare inviato', value: 'invited' },
+        { label: 'Programmato', value: 'scheduled' },
+        { label: 'Completato', value: 'completed' },
+        { label: 'Rifiutato dal proprietario', value: 'declined' },
+      ],
+      index: true,
+      admin: {
+        condition: (data, siblingData) => siblingData?.followUpRequired === true,
+        readOnly: true,
+      },
+    },
+    {
+      name: 'followUpLastReminderAt',
+      type: 'date',
+      label: 'Ultimo Promemoria Follow-up',
+      admin: {
+        condition: (data, siblingData) => siblingData?.followUpRequired === true,
+        readOnly: true,
+      },
+    },
+    {
+      name: 'followUpOf',
+      type: 'relationship',
+      relationTo: 'bookings',
+      label: 'Follow-up della Visita',
+      // Set by the booking API once the original consultation has been checked
+      access: {
+        create: ({ req: { user } }) => user?.role === 'admin',
+        update: ({ req: { user } }) => user?.role === 'admin',
+      },
+      admin: {
+        description: 'Visita che ha richiesto questo controllo',
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => !!data?.followUpOf,
+      },
+    },
 
     // Payment Information
     {
@@ -298,6 +432,14 @@ export const Bookings: CollectionConfig = {
           label: 'Rimborsato',
           value: 'refunded',
         },
+        {
+          label: 'Parzialmente Rimborsato',
+          value: 'partially_refunded',
+        },
+        {
+          label: 'Acconto Versato',
+          value: 'deposit_paid',
+        },
         {
           label: 'Fallito',
           value: 'failed',
@@ -314,6 +456,51 @@ export const Bookings: CollectionConfig = {
         description: 'ID del pagamento su Stripe',
       },
     },
+    {
+      name: 'paymentOption',
+      type: 'select',
+      required: true,
+      label: 'Modalità Pagamento',
+      defaultValue: 'full',
+      options: [
+        { label: 'Pagamento Anticipato', value: 'full' },
+        { label: 'Acconto Online', value: 'deposit' },
+        { label: 'Pagamento in Studio', value: 'at_visit' },
+      ],
+      admin: {
+        readOnly: true,
+        description: 'Il pagamento in studio è soggetto alla politica sulle mancate presentazioni del veterinario',
+      },
+    },
+    {
+      name: 'depositAmount',
+      type: 'number',
+      label: 'Acconto (€)',
+      min: 0,
+      admin: {
+        readOnly: true,
+        condition: (data) => data?.paymentOption === 'deposit',
+      },
+    },
+    {
+      name: 'refundAmount',
+      type: 'number',
+      label: 'Importo Rimborsato (€)',
+      min: 0,
+      admin: {
+        readOnly: true,
+        condition: (data) => ['refunded', 'partially_refunded'].includes(data?.paymentStatus),
+      },
+    },
+    {
+      name: 'refundId',
+      type: 'text',
+      label: 'ID Rimborso Stripe',
+      admin: {
+        readOnly: true,
+        condition: (data) => ['refunded', 'partially_refunded'].includes(data?.paymentStatus),
+      },
+    },
     {
       name: 'paymentMethod',
       type: 'select',
@@ -336,6 +523,8 @@ export const Bookings: CollectionConfig = {
         { label: 'Indisponibilità veterinario', value: 'vet_unavailable' },
         { label: 'Emergenza', value: 'emergency' },
         { label: 'Problemi tecnici', value: 'technical_issues' },
+        { label: 'Pagamento non completato', value: 'payment_failed' },
+        { label: 'Prenotazione scaduta', value: 'hold_expired' },
         { label: 'Altro', value: 'other' },
       ],
       admin: {
@@ -352,6 +541,236 @@ export const Bookings: CollectionConfig = {
       },
     },
 
+    // Reservation
+    {
+      name: 'holdExpiresAt',
+      type: 'date',
+      label: 'Scadenza Prenotazione',
+      admin: {
+        description: 'Se il pagamento non viene completato entro questa data la prenotazione viene annullata',
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => data?.status === 'pending',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'checkedInAt',
+      type: 'date',
+      label: 'Check-in',
+      admin: {
+        description: 'Arrivo in studio o ingresso del proprietario nella videochiamata; senza check-in la visita viene segnata come mancata presentazione',
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => ['confirmed', 'in_progress', 'completed'].includes(data?.status),
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+
+    // Recurring series
+    {
+      name: 'seriesId',
+      type: 'text',
+      label: 'Serie Ricorrente',
+      index: true,
+      admin: {
+        description: 'Condiviso da tutte le visite della stessa serie',
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => !!data?.seriesId,
+      },
+    },
+    {
+      name: 'seriesIndex',
+      type: 'number',
+      label: 'Occorrenza N.',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => !!data?.seriesId,
+      },
+    },
+    {
+      name: 'recurrence',
+      type: 'group',
+      label: 'Ricorrenza',
+      admin: {
+        condition: (data) => !!data?.seriesId,
+      },
+      fields: [
+        {
+          name: 'frequency',
+          type: 'select',
+          label: 'Frequenza',
+          options: [
+            { label: 'Settimanale', value: 'weekly' },
+            { label: 'Ogni due settimane', value: 'biweekly' },
+            { label: 'Mensile', value: 'monthly' },
+          ],
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'count',
+          type: 'number',
+          label: 'Numero Visite',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'until',
+          type: 'date',
+          label: 'Fino al',
+          admin: {
+            readOnly: true,
+          },
+        },
+        {
+          name: 'preferredTime',
+          type: 'text',
+          label: 'Orario Preferito',
+          admin: {
+            readOnly: true,
+          },
+        },
+      ],
+    },
+
+    // Calendar conflicts
+    {
+      name: 'requiresReschedule',
+      type: 'checkbox',
+      label: 'Da Riprogrammare',
+      defaultValue: false,
+      admin: {
+        description: 'Impostato automaticamente quando il veterinario inserisce un\'assenza in conflitto',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'rescheduleReason',
+      type: 'text',
+      label: 'Motivo Riprogrammazione',
+      admin: {
+        condition: (data, siblingData) => siblingData?.requiresReschedule === true,
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'rescheduleHistory',
+      type: 'array',
+      label: 'Storico Spostamenti',
+      admin: {
+        readOnly: true,
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          name: 'previousScheduledAt',
+          type: 'date',
+          label: 'Data Precedente',
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'newScheduledAt',
+          type: 'date',
+          label: 'Nuova Data',
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'rescheduledBy',
+          type: 'relationship',
+          relationTo: 'users',
+          label: 'Spostata da',
+        },
+        {
+          name: 'reason',
+          type: 'text',
+          label: 'Motivo',
+        },
+        {
+          name: 'rescheduledAt',
+          type: 'date',
+          label: 'Spostata il',
+        },
+      ],
+    },
+    {
+      name: 'rescheduleProposal',
+      type: 'group',
+      label: 'Proposta Nuovo Orario',
+      admin: {
+        description: 'Orari alternativi proposti dal veterinario',
+        condition: (data) => !!data?.rescheduleProposal?.status,
+      },
+      fields: [
+        {
+          name: 'status',
+          type: 'select',
+          label: 'Stato',
+          options: [
+            { label: 'In Attesa', value: 'pending' },
+            { label: 'Accettata', value: 'accepted' },
+            { label: 'Rifiutata', value: 'rejected' },
+          ],
+        },
+        {
+          name: 'proposedBy',
+          type: 'relationship',
+          relationTo: 'users',
+          label: 'Proposta da',
+        },
+        {
+          name: 'message',
+          type: 'textarea',
+          label: 'Messaggio',
+        },
+        {
+          name: 'slots',
+          type: 'array',
+          label: 'Orari Proposti',
+          fields: [
+            {
+              name: 'scheduledAt',
+              type: 'date',
+              required: true,
+              label: 'Data e Ora',
+              admin: {
+                date: {
+                  pickerAppearance: 'dayAndTime',
+                },
+              },
+            },
+          ],
+        },
+        {
+          name: 'proposedAt',
+          type: 'date',
+          label: 'Proposta il',
+        },
+        {
+          name: 'respondedAt',
+          type: 'date',
+          label: 'Risposta il',
+        },
+      ],
+    },
+
     // Telemedicine
     {
       name: 'videoCallUrl',
@@ -412,6 +831,13 @@ export const Bookings: CollectionConfig = {
   ],
   hooks: {
     beforeChange: [
+      // Starting the visit counts as the owner's arrival when nobody checked them in
+      async ({ data, originalDoc }) => {
+        if (data.status === 'in_progress' && originalDoc?.status !== 'in_progress' && !originalDoc?.checkedInAt && !data.checkedInAt) {
+          data.checkedInAt = new Date();
+        }
+        return data;
+      },
       // Auto-calculate cost based on veterinarian fees
       async ({ req, operation, data, originalDoc }) => {
         if (operation === 'create' || (data.veterinarian && data.veterinarian !== originalDoc?.veterinarian)) {
@@ -426,12 +852,47 @@ export const Bookings: CollectionConfig = {
               urgent: veterinarian.emergencyFee,
               specialist: veterinarian.consultationFee * 1.5,
               telemedicine: veterinarian.telemedicineFee,
+              surgery: veterinarian.surgeryFee,
             };
+            if (data.type === 'surgery' && !fees.surgery) {
+              throw new Error('Il veterinario non ha una tariffa per la chirurgia');
+            }
             data.totalCost = fees[data.type] || veterinarian.consultationFee;
+            // Lets the clinic's admins see and manage the booking
+            data.clinic = veterinarian.clinic?.id || veterinarian.clinic || null;
           }
         }
         return data;
       },
+      // Reserve the rooms and equipment the clinic requires for this visit
+      async ({ req, operation, data, originalDoc }) => {
+        // Booking flows pick the resources under their slot hold and pass them in
+        if (req.payloadAPI === 'local' && Array.isArray(data.resources)) return data;
+
+        const booking = { ...originalDoc, ...data };
+        const valueOf = (value) => (value?.id || value)?.toString();
+        const changed = ['scheduledAt', 'duration', 'veterinarian', 'type', 'service']
+          .some(field => field in data && valueOf(data[field]) !== valueOf(originalDoc?.[field]));
+
+        if (operation !== 'create' && !changed) return data;
+        if (booking.status === 'cancelled' || !booking.veterinarian || !booking.scheduledAt) return data;
+
+        const { db } = await import('@doggo/database');
+        const { ErrorUtils } = await import('@doggo/utils');
+        const resourceIds = await db.allocateBookingResources(
+          booking.veterinarian?.id || booking.veterinarian,
+          new Date(booking.scheduledAt),
+          booking.duration || 30,
+          { bookingType: booking.type, service: booking.service, excludeBookingId: originalDoc?.id }
+        );
+
+        if (resourceIds === null) {
+          throw ErrorUtils.createAppError('Required rooms or equipment are not available at this time', 409, 'RESOURCES_UNAVAILABLE');
+        }
+
+        data.resources = resourceIds;
+        return data;
+      },
       // Generate video call URL for telemedicine
       async ({ data, operation }) => {
         if (data.type === 'telemedicine' && operation === 'create') {
@@ -466,6 +927,79 @@ export const Bookings: CollectionConfig = {
           }
         }
       },
+      // Keep the originating consultation's follow-up status in step with the follow-up visit
+      async ({ req, operation, doc, previousDoc }) => {
+        if (!doc.followUpOf || operation !== 'update' || doc.status === previousDoc?.status) return;
+
+        const followUpStatusByBookingStatus: Record<string, string> = {
+          confirmed: 'scheduled',
+          completed: 'completed',
+          cancelled: 'invited', // Slot given up, the owner still has to book
+          no_show: 'invited',
+        };
+        const followUpStatus = followUpStatusByBookingStatus[doc.status];
+        if (!followUpStatus) return;
+
+        try {
+          const originalId = doc.followUpOf?.id || doc.followUpOf;
+          const original = await req.payload.findByID({
+            collection: 'bookings',
+            id: originalId,
+            depth: 0,
+          });
+
+          if (original?.followUpStatus === 'declined') return;
+
+          await req.payload.update({
+            collection: 'bookings',
+            id: originalId,
+            data: { followUpStatus },
+          });
+        } catch (error) {
+          req.payload.logger.error('Follow-up status sync error:', error);
+        }
+      },
+      // Propose the follow-up visit once the consultation is closed
+      async ({ req, operation, doc, previousDoc }) => {
+        if (operation !== 'update' || doc.status !== 'completed' || previousDoc?.status === 'completed') return;
+        if (!doc.followUpRequired || !doc.followUpDate || doc.followUpStatus) return;
+
+        const bookingService = req.app?.locals?.services?.booking;
+        if (!bookingService) return;
+
+        try {
+          await bookingService.scheduleFollowUp(doc.id);
+        } catch (error) {
+          req.payload.logger.error('Follow-up scheduling error:', error);
+        }
+      },
+      // Diagnosis, treatment and weight of a closed visit go into the dog's medical record
+      async ({ req, operation, doc, previousDoc }) => {
+        if (operation !== 'update' || doc.status !== 'completed' || previousDoc?.status === 'completed') return;
+
+        const medicalRecordService = req.app?.locals?.services?.medicalRecord;
+        if (!medicalRecordService) return;
+
+        try {
+          await medicalRecordService.recordCompletedBooking(doc.id);
+        } catch (error) {
+          req.payload.logger.error('Medical record update error:', error);
+        }
+      },
+      // Attendance feeds the owner's reliability record
+      async ({ req, operation, doc, previousDoc }) => {
+        if (operation !== 'update' || doc.status === previousDoc?.status) return;
+        if (![doc.status, previousDoc?.status].some(status => ['completed', 'no_show'].includes(status))) return;
+
+        const bookingService = req.app?.locals?.services?.booking;
+        if (!bookingService) return;
+
+        try {
+          await bookingService.updateOwnerReliability(doc.user?.id || doc.user);
+        } catch (error) {
+          req.payload.logger.error('Owner reliability update error:', error);
+        }
+      },
       // Update veterinarian statistics
       async ({ req, operation, doc, previousDoc }) => {
         if (operation === 'update' && doc.status !== previousDoc?.status) {
@@ -536,55 +1070,19 @@ export const Bookings: CollectionConfig = {
           return res.status(401).json({ error: 'Not authenticated' });
         }
 
-        const booking = await req.payload.findByID({
-          collection: 'bookings',
-          id,
-        });
-
-        if (!booking) {
-          return res.status(404).json({ error: 'Booking not found' });
-        }
-
-        // Check authorization
-        if (req.user.role !== 'admin' && booking.user !== req.user.id) {
-          const vetProfile = await req.payload.find({
-            collection: 'veterinarians',
-            where: { user: { equals: req.user.id } },
-            limit: 1,
-          });
-          
-          if (vetProfile.docs.length === 0 || booking.veterinarian !== vetProfile.docs[0].id) {
-            return res.status(403).json({ error: 'Not authorized' });
+        // Refunds follow the veterinarian's cancellation policy (see BookingService)
+        const bookingService = req.app.locals.services.booking;
+        let result;
+        try {
+          result = await bookingService.cancelBooking(id, req.user, { reason, notes });
+        } catch (error) {
+          if (error.isOperational) {
+            return res.status(error.statusCode).json({ error: error.message, code: error.code });
           }
+          throw error;
         }
 
-        // Check if cancellation is allowed
-        const now = new Date();
-        const scheduledAt = new Date(booking.scheduledAt);
-        const hoursUntilAppointment = (scheduledAt.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-        if (hoursUntilAppointment < 24 && req.user.role !== 'admin') {
-          return res.status(400).json({ 
-            error: 'Cancellazioni consentite solo con almeno 24 ore di anticipo' 
-          });
-        }
-
-        const updatedBooking = await req.payload.update({
-          collection: 'bookings',
-          id,
-          data: {
-            status: 'cancelled',
-            cancelledReason: reason,
-            cancellationNotes: notes,
-          },
-        });
-
-        // TODO: Process refund if payment was made
-        if (booking.paymentStatus === 'paid') {
-          console.log(`Process refund for booking ${id}`);
-        }
-
-        return res.json(updatedBooking);
+        return res.json({ ...result.booking, refund: result.refund });
       },
     },
     {
@@ -592,55 +1090,28 @@ export const Bookings: CollectionConfig = {
       method: 'patch',
       handler: async (req, res) => {
         const { id } = req.params;
-        const { newDateTime } = req.body;
+        const { newDateTime, reason } = req.body;
 
         if (!req.user) {
           return res.status(401).json({ error: 'Not authenticated' });
         }
 
-        const booking = await req.payload.findByID({
-          collection: 'bookings',
-          id,
-        });
-
-        if (!booking) {
-          return res.status(404).json({ error: 'Booking not found' });
-        }
-
-        // Check authorization
-        if (req.user.role !== 'admin' && booking.user !== req.user.id) {
-          return res.status(403).json({ error: 'Not authorized' });
-        }
-
-        // Validate new date/time
-        const newDate = new Date(newDateTime);
-        const now = new Date();
-
-        if (newDate <= now) {
-          return res.status(400).json({ error: 'New date must be in the future' });
+        if (!newDateTime) {
+          return res.status(400).json({ error: 'New date is required' });
         }
 
-        // Check availability
-        const { db } = await import('@doggo/database');
-        const availableSlots = await db.getVeterinarianAvailability(
-          booking.veterinarian,
-          newDate
-        );
-
-        const timeString = newDate.toTimeString().substr(0, 5);
-        if (!availableSlots.includes(timeString)) {
-          return res.status(400).json({ error: 'Selected time slot is not available' });
+        // Availability, minimum notice, history and notifications live in BookingService
+        const bookingService = req.app.locals.services.booking;
+        let updatedBooking;
+        try {
+          updatedBooking = await bookingService.rescheduleBooking(id, new Date(newDateTime), req.user, { reason });
+        } catch (error) {
+          if (error.isOperational) {
+            return res.status(error.statusCode).json({ error: error.message, code: error.code });
+          }
+          throw error;
         }
 
-        const updatedBooking = await req.payload.update({
-          collection: 'bookings',
-          id,
-          data: {
-            scheduledAt: newDateTime,
-            status: 'pending', // Reset status for re-confirmation
-          },
-        });
-
         return res.json(updatedBooking);
       },
     },
@@ -649,7 +1120,7 @@ export const Bookings: CollectionConfig = {
       method: 'patch',
       handler: async (req, res) => {
         const { id } = req.params;
-        const { diagnosis, treatment, consultationNotes, followUpRequired, followUpDate } = req.body;
+        const { diagnosis, treatment, consultationNotes, followUpRequired, followUpDate, followUpNotes } = req.body;
 
         if (!req.user) {
           return res.status(401).json({ error: 'Not authenticated' });
@@ -692,6 +1163,7 @@ export const Bookings: CollectionConfig = {
             consultationNotes,
             followUpRequired: followUpRequired || false,
             followUpDate: followUpRequired ? followUpDate : null,
+            followUpNotes: followUpRequired ? followUpNotes : null,
           },
         });
 
@@ -779,8 +1251,7 @@ export const Bookings: CollectionConfig = {
           return res.status(400).json({ error: 'Responses must be an array' });
         }
 
-        const { TriageSystem } = await import('@doggo/utils');
-        const triageResult = TriageSystem.calculateTriageScore(responses);
+        const triageResult = await req.app.locals.services.triage.calculateTriageScore(responses);
 
         return res.json(triageResult);
       },
@@ -789,7 +1260,7 @@ export const Bookings: CollectionConfig = {
       path: '/available-slots',
       method: 'get',
       handler: async (req, res) => {
-        const { veterinarianId, date } = req.query;
+        const { veterinarianId, date, type } = req.query;
 
         if (!veterinarianId || !date) {
           return res.status(400).json({ error: 'Veterinarian ID and date are required' });
@@ -798,7 +1269,8 @@ export const Bookings: CollectionConfig = {
         const { db } = await import('@doggo/database');
         const availableSlots = await db.getVeterinarianAvailability(
           veterinarianId as string,
-          new Date(date as string)
+          new Date(date as string),
+          { bookingType: type as string }
         );
 
         return res.json({ availableSlots });
@@ -0,0 +1,95 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin, isClinicResourceManagerOrAdmin } from '../access/index';
+
+export const RESOURCE_TYPE_OPTIONS = [
+  { label: 'Ambulatorio', value: 'consultation_room' },
+  { label: 'Sala Operatoria', value: 'operating_room' },
+  { label: 'Radiografia', value: 'xray' },
+  { label: 'Ecografo', value: 'ultrasound' },
+  { label: 'Laboratorio', value: 'laboratory' },
+  { label: 'Degenza', value: 'recovery_room' },
+  { label: 'Altro', value: 'other' },
+];
+
+export const ClinicResources: CollectionConfig = {
+  slug: 'clinic-resources',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'clinic', 'type', 'isActive'],
+    group: 'Healthcare',
+  },
+  access: {
+    create: ({ req: { user } }) => !!user, // Checked against the clinic's admins in beforeChange
+    read: () => true,
+    update: isClinicResourceManagerOrAdmin,
+    delete: isClinicResourceManagerOrAdmin,
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'clinic',
+      type: 'relationship',
+      relationTo: 'clinics',
+      required: true,
+      label: 'Clinica',
+      index: true,
+      access: {
+        update: ({ req: { user } }) => user?.role === 'admin',
+      },
+    },
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      label: 'Nome',
+      admin: {
+        placeholder: 'Sala Operatoria 1',
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      required: true,
+      label: 'Tipo',
+      options: RESOURCE_TYPE_OPTIONS,
+      index: true,
+    },
+    {
+      name: 'isActive',
+      type: 'checkbox',
+      label: 'In Uso',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Le risorse non in uso non vengono assegnate alle nuove prenotazioni',
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+      label: 'Note',
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      // Only the clinic's administrators can add rooms and equipment to it
+      async ({ req, operation, data }) => {
+        if (operation !== 'create' || !req.user || req.user.role === 'admin') return data;
+
+        const clinicId = data.clinic?.id || data.clinic;
+        const clinic = clinicId && await req.payload.findByID({
+          collection: 'clinics',
+          id: clinicId,
+          depth: 0,
+        });
+
+        const admins = (clinic?.admins || []).map(admin => admin?.id || admin);
+        if (!admins.includes(req.user.id)) {
+          throw new Error('Solo gli amministratori della clinica possono aggiungere risorse');
+        }
+
+        return data;
+      },
+    ],
+  },
+};
@@ -0,0 +1,316 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin, isClinicAdminOrAdmin } from '../access/index';
+import { RESOURCE_TYPE_OPTIONS } from './ClinicResources';
+
+const timeValidator = (val) => {
+  if (!/^([01]\d|2[0-3]):([0-5]\d)$/.test(val)) {
+    return 'Formato orario non valido (HH:MM)';
+  }
+  return true;
+};
+
+export const Clinics: CollectionConfig = {
+  slug: 'clinics',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'address.city', 'isVerified', 'isActive'],
+    group: 'Healthcare',
+  },
+  access: {
+    create: ({ req: { user } }) => user?.role === 'veterinarian' || user?.role === 'admin',
+    read: () => true, // Public for search
+    update: isClinicAdminOrAdmin,
+    delete: isAdmin,
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      label: 'Nome Clinica',
+      admin: {
+        placeholder: 'Clinica Veterinaria San Francesco',
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      label: 'Descrizione',
+    },
+    {
+      name: 'address',
+      type: 'group',
+      label: 'Indirizzo',
+      fields: [
+        {
+          name: 'street',
+          type: 'text',
+          required: true,
+          label: 'Via/Piazza',
+        },
+        {
+          name: 'city',
+          type: 'text',
+          required: true,
+          label: 'Città',
+        },
+        {
+          name: 'state',
+          type: 'text',
+          required: true,
+          label: 'Regione',
+        },
+        {
+          name: 'zipCode',
+          type: 'text',
+          required: true,
+          label: 'CAP',
+          validate: (val) => {
+            if (!/^\d{5}$/.test(val)) {
+              return 'CAP deve essere di 5 cifre';
+            }
+            return true;
+          },
+        },
+        {
+          name: 'country',
+          type: 'text',
+          label: 'Paese',
+          defaultValue: 'IT',
+        },
+        {
+          name: 'coordinates',
+          type: 'group',
+          label: 'Coordinate GPS',
+          admin: {
+            description: 'Necessarie per la ricerca geografica',
+          },
+          fields: [
+            {
+              name: 'latitude',
+              type: 'number',
+              required: true,
+              label: 'Latitudine',
+              admin: {
+                step: 0.000001,
+              },
+            },
+            {
+              name: 'longitude',
+              type: 'number',
+              required: true,
+              label: 'Longitudine',
+              admin: {
+                step: 0.000001,
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'contactInfo',
+      type: 'group',
+      label: 'Informazioni Contatto',
+      fields: [
+        {
+          name: 'phone',
+          type: 'text',
+          label: 'Telefono',
+          validate: (val) => {
+            if (val && !/^\+?[1-9]\d{1,14}$/.test(val)) {
+              return 'Numero di telefono non valido';
+            }
+            return true;
+          },
+        },
+        {
+          name: 'email',
+          type: 'email',
+          label: 'Email',
+        },
+        {
+          name: 'website',
+          type: 'text',
+          label: 'Sito Web',
+          validate: (val) => {
+            if (val && !/^https?:\/\/.+\..+/.test(val)) {
+              return 'URL non valido';
+            }
+            return true;
+          },
+        },
+      ],
+    },
+
+    // Opening hours
+    {
+      name: 'workingHours',
+      type: 'array',
+      label: 'Orari di Apertura',
+      fields: [
+        {
+          name: 'dayOfWeek',
+          type: 'select',
+          required: true,
+          label: 'Giorno',
+          options: [
+            { label: 'Domenica', value: 0 },
+            { label: 'Lunedì', value: 1 },
+            { label: 'Martedì', value: 2 },
+            { label: 'Mercoledì', value: 3 },
+            { label: 'Giovedì', value: 4 },
+            { label: 'Venerdì', value: 5 },
+            { label: 'Sabato', value: 6 },
+          ],
+        },
+        {
+          name: 'startTime',
+          type: 'text',
+          required: true,
+          label: 'Apertura',
+          admin: {
+            placeholder: '09:00',
+          },
+          validate: timeValidator,
+        },
+        {
+          name: 'endTime',
+          type: 'text',
+          required: true,
+          label: 'Chiusura',
+          admin: {
+            placeholder: '19:00',
+          },
+          validate: timeValidator,
+        },
+        {
+          name: 'isAvailable',
+          type: 'checkbox',
+          label: 'Aperto',
+          defaultValue: true,
+        },
+      ],
+      admin: {
+        description: 'I veterinari della clinica sono prenotabili solo negli orari di apertura. Lasciare vuoto per usare solo gli orari dei veterinari',
+        components: {
+          RowLabel: ({ data, index }) => {
+            const days = ['Domenica', 'Lunedì', 'Martedì', 'Mercoledì', 'Giovedì', 'Venerdì', 'Sabato'];
+            return data?.dayOfWeek !== undefined ? days[data.dayOfWeek] : `Orario ${index + 1}`;
+          },
+        },
+      },
+    },
+
+    // Resources
+    {
+      name: 'resourceRequirements',
+      type: 'array',
+      label: 'Risorse Richieste',
+      admin: {
+        description: 'Sale e attrezzature necessarie per tipo di visita o servizio. Le risorse si gestiscono in "Risorse Cliniche".',
+      },
+      fields: [
+        {
+          name: 'service',
+          type: 'select',
+          required: true,
+          label: 'Visita o Servizio',
+          options: [
+            { label: 'Visita Generale', value: 'general' },
+            { label: 'Visita Urgente', value: 'urgent' },
+            { label: 'Visita Specialistica', value: 'specialist' },
+            { label: 'Intervento Chirurgico', value: 'surgery' },
+            { label: 'Diagnostica per immagini', value: 'imaging' },
+            { label: 'Laboratorio', value: 'laboratory' },
+            { label: 'Ricovero', value: 'hospitalization' },
+            { label: 'Emergenze 24/7', value: 'emergency_24_7' },
+            { label: 'Vaccinazioni', value: 'vaccinations' },
+            { label: 'Microchip', value: 'microchipping' },
+            { label: 'Toelettatura', value: 'grooming' },
+          ],
+        },
+        {
+          name: 'resourceTypes',
+          type: 'select',
+          hasMany: true,
+          required: true,
+          label: 'Tipi di Risorsa',
+          options: RESOURCE_TYPE_OPTIONS,
+        },
+      ],
+    },
+
+    // Staff
+    {
+      name: 'admins',
+      type: 'relationship',
+      relationTo: 'users',
+      hasMany: true,
+      label: 'Amministratori',
+      admin: {
+        description: 'Gestiscono la clinica, i suoi veterinari e i loro calendari.',
+      },
+    },
+
+    // Status
+    {
+      name: 'isVerified',
+      type: 'checkbox',
+      label: 'Verificata',
+      defaultValue: false,
+      access: {
+        create: isAdmin,
+        update: isAdmin,
+      },
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'isActive',
+      type: 'checkbox',
+      label: 'Attiva',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      // Whoever registers the clinic administers it
+      async ({ req, operation, data }) => {
+        if (operation === 'create' && req.user && req.user.role !== 'admin') {
+          const admins = (data.admins || []).map(admin => admin?.id || admin);
+          if (!admins.includes(req.user.id)) {
+            data.admins = [...admins, req.user.id];
+          }
+        }
+        return data;
+      },
+    ],
+    afterChange: [
+      // Veterinarians keep a copy of the clinic name and address for search
+      async ({ req, operation, doc, previousDoc }) => {
+        if (operation !== 'update') return;
+        if (doc.name === previousDoc?.name && JSON.stringify(doc.address) === JSON.stringify(previousDoc?.address)) return;
+
+        try {
+          await req.payload.update({
+            collection: 'veterinarians',
+            where: {
+              clinic: { equals: doc.id },
+            },
+            data: {
+              clinicName: doc.name,
+              clinicAddress: doc.address,
+            },
+          });
+        } catch (error) {
+          req.payload.logger.error('Clinic details sync error:', error);
+        }
+      },
+    ],
+  },
+};
@@ -162,6 +162,18 @@ export const Dogs: CollectionConfig = {
     },
 
     // Health & Behavior
+    {
+      name: 'bloodType',
+      type: 'select',
+      label: 'Gruppo Sanguigno',
+      options: [
+        { label: 'DEA 1 Positivo', value: 'dea_1_positive' },
+        { label: 'DEA 1 Negativo', value: 'dea_1_negative' },
+      ],
+      admin: {
+        description: 'Mostrato ai veterinari nel profilo di emergenza, utile per le trasfusioni',
+      },
+    },
     {
       name: 'isNeutered',
       type: 'checkbox',
@@ -265,6 +277,20 @@ export const Dogs: CollectionConfig = {
       },
     },
 
+    {
+      name: 'vaccinationReminders',
+      type: 'json',
+      label: 'Promemoria Vaccinazioni',
+      // Last reminder level sent per vaccine and due date, so each level goes out once
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
+
     // Computed Age Field
     {
       name: 'age',
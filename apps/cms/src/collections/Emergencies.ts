@@ -324,6 +324,41 @@ export const Emergencies: CollectionConfig = {
         description: 'Descrivi come è stata risolta l\'emergenza',
       },
     },
+    {
+      name: 'matchedDog',
+      type: 'relationship',
+      relationTo: 'dogs',
+      label: 'Cane Registrato',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Trovato tramite il microchip nell\'anagrafe',
+      },
+    },
+    {
+      name: 'linkedEmergency',
+      type: 'relationship',
+      relationTo: 'emergencies',
+      label: 'Segnalazione Collegata',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Segnalazione di smarrimento o ritrovamento dello stesso cane',
+      },
+    },
+    {
+      name: 'candidateMatches',
+      type: 'json',
+      label: 'Possibili Corrispondenze',
+      // Similar lost/found reports the reporter has already been told about
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
     {
       name: 'viewCount',
       type: 'number',
@@ -390,6 +425,35 @@ export const Emergencies: CollectionConfig = {
       },
     ],
     afterChange: [
+      // Look up the microchip in the registry and pair lost and found reports
+      async ({ req, operation, doc, previousDoc }) => {
+        const microchipNumber = doc.dogInfo?.microchipNumber;
+        if (!microchipNumber || doc.isResolved) return;
+        if (operation === 'update' && previousDoc?.dogInfo?.microchipNumber === microchipNumber) return;
+
+        try {
+          const emergencyService = req.app?.locals?.services?.emergency;
+          if (emergencyService) {
+            await emergencyService.matchMicrochip(doc.id);
+          }
+        } catch (error) {
+          req.payload.logger.warn(`Microchip matching failed for emergency ${doc.id}:`, error);
+        }
+      },
+      // Suggest lost/found reports describing a similar dog
+      async ({ req, operation, doc, previousDoc }) => {
+        if (doc.isResolved || !['lost_dog', 'found_dog', 'injured_dog', 'abandoned_dog'].includes(doc.type)) return;
+        if (operation === 'update' && JSON.stringify(previousDoc?.dogInfo) === JSON.stringify(doc.dogInfo)) return;
+
+        try {
+          const emergencyService = req.app?.locals?.services?.emergency;
+          if (emergencyService) {
+            await emergencyService.matchSimilarReports(doc.id);
+          }
+        } catch (error) {
+          req.payload.logger.warn(`Similarity matching failed for emergency ${doc.id}:`, error);
+        }
+      },
       // Send emergency alerts to nearby users
       async ({ req, operation, doc }) => {
         if (operation === 'create' && !doc.isResolved) {
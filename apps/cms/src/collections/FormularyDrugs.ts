@@ -0,0 +1,143 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin } from '../access/index';
+
+export const FormularyDrugs: CollectionConfig = {
+  slug: 'formulary-drugs',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'activeIngredient', 'isActive'],
+    group: 'Healthcare',
+    description: 'Prontuario veterinario usato per controllare dosaggi e interazioni delle ricette',
+  },
+  access: {
+    create: isAdmin,
+    read: ({ req: { user } }) => user?.role === 'veterinarian' || user?.role === 'admin',
+    update: isAdmin,
+    delete: isAdmin,
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      label: 'Nome',
+    },
+    {
+      name: 'activeIngredient',
+      type: 'text',
+      required: true,
+      unique: true,
+      label: 'Principio Attivo',
+      admin: {
+        description: 'Confrontato senza distinzione di maiuscole con il principio attivo della ricetta',
+      },
+    },
+    {
+      name: 'aliases',
+      type: 'array',
+      label: 'Altri Nomi',
+      admin: {
+        description: 'Nomi commerciali e grafie alternative',
+      },
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          required: true,
+          label: 'Nome',
+        },
+      ],
+    },
+    {
+      name: 'doseRange',
+      type: 'group',
+      label: 'Dosaggio per Somministrazione',
+      fields: [
+        {
+          name: 'minMgPerKg',
+          type: 'number',
+          label: 'Minimo (mg/kg)',
+          min: 0,
+        },
+        {
+          name: 'maxMgPerKg',
+          type: 'number',
+          label: 'Massimo (mg/kg)',
+          min: 0,
+          validate: (val, { siblingData }) => {
+            if (val != null && siblingData?.minMgPerKg != null && Number(val) < Number(siblingData.minMgPerKg)) {
+              return 'Il massimo deve essere maggiore o uguale al minimo';
+            }
+            return true;
+          },
+        },
+      ],
+    },
+    {
+      name: 'minAgeMonths',
+      type: 'number',
+      label: 'Età Minima (mesi)',
+      min: 0,
+    },
+    {
+      name: 'allergyKeywords',
+      type: 'array',
+      label: 'Classi per Allergie',
+      admin: {
+        description: 'Parole cercate nelle note mediche vicino ad "allergia", ad esempio penicillin',
+      },
+      fields: [
+        {
+          name: 'keyword',
+          type: 'text',
+          required: true,
+          label: 'Parola Chiave',
+        },
+      ],
+    },
+    {
+      name: 'interactions',
+      type: 'array',
+      label: 'Interazioni',
+      fields: [
+        {
+          name: 'activeIngredient',
+          type: 'text',
+          required: true,
+          label: 'Principio Attivo',
+        },
+        {
+          name: 'severity',
+          type: 'select',
+          required: true,
+          label: 'Gravità',
+          defaultValue: 'warning',
+          options: [
+            { label: 'Avviso (il veterinario può confermare)', value: 'warning' },
+            { label: 'Bloccante', value: 'block' },
+          ],
+        },
+        {
+          name: 'note',
+          type: 'text',
+          label: 'Nota',
+        },
+      ],
+    },
+    {
+      name: 'isActive',
+      type: 'checkbox',
+      label: 'In Uso',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+      label: 'Note',
+    },
+  ],
+};
@@ -0,0 +1,284 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin } from '../access/index';
+
+export const MEDICAL_RECORD_ENTRY_TYPE_OPTIONS = [
+  { label: 'Problema Clinico', value: 'problem' },
+  { label: 'Allergia', value: 'allergy' },
+  { label: 'Terapia', value: 'medication' },
+  { label: 'Vaccinazione', value: 'vaccination' },
+  { label: 'Intervento Chirurgico', value: 'surgery' },
+  { label: 'Peso', value: 'weight' },
+  { label: 'Esami di Laboratorio', value: 'lab_result' },
+  { label: 'Visita', value: 'visit' },
+  { label: 'Nota', value: 'note' },
+];
+
+// Entries that stay open until the vet marks them resolved or stopped
+export const TRACKED_ENTRY_TYPES = ['problem', 'allergy', 'medication'];
+
+export const MedicalRecordEntries: CollectionConfig = {
+  slug: 'medical-record-entries',
+  admin: {
+    useAsTitle: 'title',
+    defaultColumns: ['dog', 'type', 'title', 'recordedAt', 'status'],
+    group: 'Healthcare',
+    description: 'Cartella clinica dei cani: si aggiorna dalle visite completate e dalle ricette',
+  },
+  access: {
+    create: isAdmin, // Vets add entries through the medical record API, which checks their access to the dog
+    read: ({ req: { user } }) => {
+      if (!user) return false;
+      if (user.role === 'admin') return true;
+      return {
+        or: [
+          { 'dog.owner': { equals: user.id } },
+          { createdBy: { equals: user.id } },
+        ],
+      };
+    },
+    update: isAdmin,
+    delete: isAdmin,
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'dog',
+      type: 'relationship',
+      relationTo: 'dogs',
+      required: true,
+      label: 'Cane',
+      index: true,
+    },
+    {
+      name: 'type',
+      type: 'select',
+      required: true,
+      label: 'Tipo',
+      options: MEDICAL_RECORD_ENTRY_TYPE_OPTIONS,
+      index: true,
+    },
+    {
+      name: 'title',
+      type: 'text',
+      required: true,
+      label: 'Titolo',
+      admin: {
+        placeholder: 'Otite esterna, Amoxicillina, Rabbia...',
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      label: 'Descrizione',
+    },
+    {
+      name: 'recordedAt',
+      type: 'date',
+      required: true,
+      label: 'Data',
+      index: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      label: 'Stato',
+      options: [
+        { label: 'In corso', value: 'active' },
+        { label: 'Risolto/Sospeso', value: 'resolved' },
+      ],
+      admin: {
+        position: 'sidebar',
+        condition: (data) => TRACKED_ENTRY_TYPES.includes(data?.type),
+      },
+    },
+    {
+      name: 'endDate',
+      type: 'date',
+      label: 'Data Fine',
+      admin: {
+        position: 'sidebar',
+        condition: (data) => TRACKED_ENTRY_TYPES.includes(data?.type),
+      },
+    },
+    {
+      name: 'details',
+      type: 'group',
+      label: 'Dettagli',
+      fields: [
+        {
+          name: 'severity',
+          type: 'select',
+          label: 'Gravità',
+          options: [
+            { label: 'Lieve', value: 'mild' },
+            { label: 'Moderata', value: 'moderate' },
+            { label: 'Grave', value: 'severe' },
+          ],
+          admin: {
+            condition: (data) => ['problem', 'allergy'].includes(data?.type),
+          },
+        },
+        {
+          name: 'reaction',
+          type: 'text',
+          label: 'Reazione',
+          admin: {
+            condition: (data) => data?.type === 'allergy',
+          },
+        },
+        {
+          name: 'dosage',
+          type: 'text',
+          label: 'Dosaggio',
+          admin: {
+            condition: (data) => data?.type === 'medication',
+          },
+        },
+        {
+          name: 'frequency',
+          type: 'text',
+          label: 'Frequenza',
+          admin: {
+            condition: (data) => data?.type === 'medication',
+          },
+        },
+        {
+          name: 'vaccineCode',
+          type: 'text',
+          label: 'Codice Vaccino',
+          admin: {
+            condition: (data) => data?.type === 'vaccination',
+          },
+        },
+        {
+          name: 'batchNumber',
+          type: 'text',
+          label: 'Lotto',
+          admin: {
+            condition: (data) => data?.type === 'vaccination',
+          },
+        },
+        {
+          name: 'nextDueDate',
+          type: 'date',
+          label: 'Richiamo Previsto',
+          admin: {
+            condition: (data) => data?.type === 'vaccination',
+          },
+        },
+        {
+          name: 'weightKg',
+          type: 'number',
+          label: 'Peso (kg)',
+          min: 0.1,
+          max: 150,
+          admin: {
+            step: 0.1,
+            condition: (data) => data?.type === 'weight',
+          },
+        },
+        {
+          name: 'labResults',
+          type: 'array',
+          label: 'Risultati',
+          admin: {
+            condition: (data) => data?.type === 'lab_result',
+          },
+          fields: [
+            {
+              name: 'test',
+              type: 'text',
+              required: true,
+              label: 'Esame',
+            },
+            {
+              name: 'value',
+              type: 'text',
+              required: true,
+              label: 'Valore',
+            },
+            {
+              name: 'unit',
+              type: 'text',
+              label: 'Unità',
+            },
+            {
+              name: 'referenceRange',
+              type: 'text',
+              label: 'Intervallo di Riferimento',
+            },
+            {
+              name: 'isAbnormal',
+              type: 'checkbox',
+              label: 'Fuori Norma',
+              defaultValue: false,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Sources
+    {
+      name: 'booking',
+      type: 'relationship',
+      relationTo: 'bookings',
+      label: 'Visita',
+      index: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'prescription',
+      type: 'relationship',
+      relationTo: 'prescriptions',
+      label: 'Ricetta',
+      admin: {
+        position: 'sidebar',
+        condition: (data) => data?.type === 'medication',
+      },
+    },
+    {
+      name: 'document',
+      type: 'relationship',
+      relationTo: 'documents',
+      label: 'Documento',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'veterinarian',
+      type: 'relationship',
+      relationTo: 'veterinarians',
+      label: 'Veterinario',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'createdBy',
+      type: 'relationship',
+      relationTo: 'users',
+      label: 'Registrato da',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      async ({ data, operation }) => {
+        if (operation === 'create' && TRACKED_ENTRY_TYPES.includes(data.type) && !data.status) {
+          data.status = 'active';
+        }
+        return data;
+      },
+    ],
+  },
+};
@@ -0,0 +1,105 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin } from '../access/index';
+
+export const MEDICAL_RECORD_GRANT_SCOPE_OPTIONS = [
+  { label: 'Lettura Cartella Clinica e Ricette', value: 'read_medical' },
+  { label: 'Lettura Documenti', value: 'read_documents' },
+  { label: 'Aggiunta Note', value: 'write_notes' },
+];
+
+export const MedicalRecordGrants: CollectionConfig = {
+  slug: 'medical-record-grants',
+  admin: {
+    useAsTitle: 'id',
+    defaultColumns: ['dog', 'grantee', 'scopes', 'expiresAt', 'revokedAt'],
+    group: 'Healthcare',
+    description: 'Condivisioni della cartella clinica concesse dai proprietari, a tempo e revocabili',
+  },
+  access: {
+    create: isAdmin, // Owners share and revoke through the API, which logs every access
+    read: ({ req: { user } }) => {
+      if (!user) return false;
+      if (user.role === 'admin') return true;
+      return {
+        or: [
+          { owner: { equals: user.id } },
+          { grantee: { equals: user.id } },
+        ],
+      };
+    },
+    update: isAdmin,
+    delete: () => false, // Revoked grants are kept alongside the access log
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'dog',
+      type: 'relationship',
+      relationTo: 'dogs',
+      required: true,
+      label: 'Cane',
+      index: true,
+    },
+    {
+      name: 'owner',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      label: 'Proprietario',
+    },
+    {
+      name: 'grantee',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      label: 'Condivisa con',
+      index: true,
+      admin: {
+        description: 'Veterinario, specialista per un secondo parere o pet sitter',
+      },
+    },
+    {
+      name: 'scopes',
+      type: 'select',
+      hasMany: true,
+      required: true,
+      label: 'Permessi',
+      options: MEDICAL_RECORD_GRANT_SCOPE_OPTIONS,
+    },
+    {
+      name: 'expiresAt',
+      type: 'date',
+      required: true,
+      label: 'Scadenza',
+      index: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'revokedAt',
+      type: 'date',
+      label: 'Revocata il',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'note',
+      type: 'textarea',
+      label: 'Nota',
+      maxLength: 500,
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      async ({ data, originalDoc, operation }) => {
+        if (operation === 'update' && originalDoc?.revokedAt && data.revokedAt !== originalDoc.revokedAt) {
+          throw new Error('Una condivisione revocata non può essere riattivata');
+        }
+        return data;
+      },
+    ],
+  },
+};
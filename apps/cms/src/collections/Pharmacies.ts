@@ -0,0 +1,130 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin } from '../access/index';
+
+export const Pharmacies: CollectionConfig = {
+  slug: 'pharmacies',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'code', 'apiKeyPrefix', 'isActive'],
+    group: 'Healthcare',
+    description: 'Farmacie abilitate a verificare e dispensare le ricette tramite API',
+  },
+  access: {
+    create: isAdmin,
+    read: isAdmin,
+    update: isAdmin,
+    delete: isAdmin,
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      label: 'Nome Farmacia',
+    },
+    {
+      name: 'code',
+      type: 'text',
+      required: true,
+      unique: true,
+      label: 'Codice Farmacia',
+      admin: {
+        description: 'Codice identificativo assegnato dal Ministero della Salute',
+      },
+    },
+    {
+      name: 'address',
+      type: 'group',
+      label: 'Indirizzo',
+      fields: [
+        {
+          name: 'street',
+          type: 'text',
+          required: true,
+          label: 'Via/Piazza',
+        },
+        {
+          name: 'city',
+          type: 'text',
+          required: true,
+          label: 'Città',
+        },
+        {
+          name: 'state',
+          type: 'text',
+          label: 'Regione',
+        },
+        {
+          name: 'zipCode',
+          type: 'text',
+          required: true,
+          label: 'CAP',
+          validate: (val) => {
+            if (!/^\d{5}$/.test(val)) {
+              return 'CAP deve essere di 5 cifre';
+            }
+            return true;
+          },
+        },
+        {
+          name: 'country',
+          type: 'text',
+          label: 'Paese',
+          defaultValue: 'IT',
+        },
+      ],
+    },
+    {
+      name: 'contactInfo',
+      type: 'group',
+      label: 'Informazioni Contatto',
+      fields: [
+        {
+          name: 'phone',
+          type: 'text',
+          label: 'Telefono',
+        },
+        {
+          name: 'email',
+          type: 'email',
+          label: 'Email',
+        },
+      ],
+    },
+    {
+      name: 'apiKeyHash',
+      type: 'text',
+      unique: true,
+      index: true,
+      access: {
+        read: () => false,
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'apiKeyPrefix',
+      type: 'text',
+      label: 'Chiave API',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Inizio della chiave attiva; si genera o si rigenera dall\'API di amministrazione',
+      },
+    },
+    {
+      name: 'isActive',
+      type: 'checkbox',
+      label: 'Abilitata',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Le farmacie disabilitate non possono più usare la loro chiave',
+      },
+    },
+  ],
+};
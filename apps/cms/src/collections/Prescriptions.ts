@@ -0,0 +1,306 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin, isPrescriptionVetOrOwnerOrAdmin } from '../access/index';
+
+// Everything covered by the veterinarian's signature, plus the safety checks it was issued with
+const SIGNED_FIELDS = [
+  'number',
+  'veterinarian',
+  'patient',
+  'owner',
+  'booking',
+  'drugName',
+  'activeIngredient',
+  'dosage',
+  'frequency',
+  'duration',
+  'quantity',
+  'instructions',
+  'warnings',
+  'doseMg',
+  'safetyWarnings',
+  'issueDate',
+  'validUntil',
+  'qrCode',
+  'digitalSignature',
+  'signingKeyFingerprint',
+];
+
+// Relationships may be populated and dates may arrive as Date objects
+const normalize = (value: any): string => {
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') return value.id ? String(value.id) : JSON.stringify(value);
+  return String(value ?? '');
+};
+
+export const Prescriptions: CollectionConfig = {
+  slug: 'prescriptions',
+  admin: {
+    useAsTitle: 'number',
+    defaultColumns: ['number', 'drugName', 'patient', 'veterinarian', 'issueDate', 'isDispensed'],
+    group: 'Healthcare',
+    description: 'Ricette elettroniche veterinarie. Si emettono dalla visita: i dati firmati non sono modificabili.',
+  },
+  access: {
+    create: isAdmin, // Issued through the prescription service, which signs them
+    read: isPrescriptionVetOrOwnerOrAdmin,
+    update: isAdmin,
+    delete: () => false, // Signed prescriptions are kept for the legal retention period
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'number',
+      type: 'text',
+      required: true,
+      unique: true,
+      label: 'Numero Ricetta',
+      admin: {
+        readOnly: true,
+      },
+    },
+
+    // Relationships
+    {
+      name: 'veterinarian',
+      type: 'relationship',
+      relationTo: 'veterinarians',
+      required: true,
+      label: 'Veterinario Prescrittore',
+      index: true,
+    },
+    {
+      name: 'patient',
+      type: 'relationship',
+      relationTo: 'dogs',
+      required: true,
+      label: 'Paziente',
+      index: true,
+    },
+    {
+      name: 'owner',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      label: 'Proprietario',
+      index: true,
+    },
+    {
+      name: 'booking',
+      type: 'relationship',
+      relationTo: 'bookings',
+      label: 'Visita',
+      index: true,
+    },
+
+    // Drug
+    {
+      name: 'drugName',
+      type: 'text',
+      required: true,
+      label: 'Farmaco',
+    },
+    {
+      name: 'activeIngredient',
+      type: 'text',
+      required: true,
+      label: 'Principio Attivo',
+    },
+    {
+      name: 'dosage',
+      type: 'text',
+      required: true,
+      label: 'Dosaggio',
+    },
+    {
+      name: 'frequency',
+      type: 'text',
+      required: true,
+      label: 'Frequenza',
+    },
+    {
+      name: 'duration',
+      type: 'text',
+      required: true,
+      label: 'Durata Terapia',
+    },
+    {
+      name: 'quantity',
+      type: 'number',
+      required: true,
+      min: 1,
+      label: 'Confezioni',
+    },
+    {
+      name: 'instructions',
+      type: 'textarea',
+      required: true,
+      label: 'Istruzioni',
+    },
+    {
+      name: 'warnings',
+      type: 'textarea',
+      label: 'Avvertenze',
+    },
+    {
+      name: 'doseMg',
+      type: 'number',
+      label: 'Dose (mg)',
+      admin: {
+        description: 'Per somministrazione; usata per il controllo mg/kg sul peso del cane',
+      },
+    },
+    {
+      name: 'safetyWarnings',
+      type: 'json',
+      label: 'Avvisi di Sicurezza',
+      admin: {
+        readOnly: true,
+        description: 'Avvisi del prontuario confermati dal veterinario, con la motivazione',
+      },
+    },
+
+    // Validity & Signature
+    {
+      name: 'issueDate',
+      type: 'date',
+      required: true,
+      label: 'Data Emissione',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'validUntil',
+      type: 'date',
+      required: true,
+      label: 'Valida Fino Al',
+      index: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'qrCode',
+      type: 'textarea',
+      required: true,
+      unique: true,
+      label: 'Contenuto QR',
+      admin: {
+        readOnly: true,
+        description: 'Dati firmati, firma e chiave pubblica: verificabile anche senza connessione',
+      },
+    },
+    {
+      name: 'digitalSignature',
+      type: 'text',
+      required: true,
+      label: 'Firma Digitale',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'signingKeyFingerprint',
+      type: 'text',
+      required: true,
+      label: 'Impronta Chiave',
+      admin: {
+        readOnly: true,
+      },
+    },
+
+    // Dispensing
+    {
+      name: 'isDispensed',
+      type: 'checkbox',
+      label: 'Dispensata',
+      defaultValue: false,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Tutte le confezioni sono state consegnate',
+      },
+    },
+    {
+      name: 'dispensedQuantity',
+      type: 'number',
+      label: 'Confezioni Consegnate',
+      defaultValue: 0,
+      min: 0,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'dispensedAt',
+      type: 'date',
+      label: 'Dispensata Il',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        condition: (data) => !!data?.isDispensed,
+      },
+    },
+    {
+      name: 'pharmacy',
+      type: 'relationship',
+      relationTo: 'pharmacies',
+      label: 'Farmacia',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        condition: (data) => !!data?.isDispensed,
+      },
+    },
+    {
+      name: 'dispensations',
+      type: 'array',
+      label: 'Consegne',
+      admin: {
+        readOnly: true,
+        description: 'Registrate dalle farmacie tramite API',
+      },
+      fields: [
+        {
+          name: 'pharmacyId',
+          type: 'text',
+          label: 'Farmacia',
+        },
+        {
+          name: 'quantity',
+          type: 'number',
+          label: 'Confezioni',
+        },
+        {
+          name: 'pharmacistName',
+          type: 'text',
+          label: 'Farmacista',
+        },
+        {
+          name: 'dispensedAt',
+          type: 'date',
+          label: 'Data',
+        },
+      ],
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      // Changing signed data would invalidate the signature: issue a new prescription instead
+      async ({ operation, data, originalDoc }) => {
+        if (operation !== 'update' || !originalDoc) return data;
+
+        const changed = SIGNED_FIELDS.find(field =>
+          field in data && normalize(data[field]) !== normalize(originalDoc[field])
+        );
+        if (changed) {
+          throw new Error('La ricetta è firmata: i dati prescritti non possono essere modificati');
+        }
+
+        return data;
+      },
+    ],
+  },
+};
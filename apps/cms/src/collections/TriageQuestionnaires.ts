@@ -0,0 +1,311 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin } from '../access/index';
+
+export const TriageQuestionnaires: CollectionConfig = {
+  slug: 'triage-questionnaires',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['version', 'name', 'isActive', 'publishedAt'],
+    group: 'Healthcare',
+    description: 'Domande del triage e regole di punteggio. Le versioni già usate non si modificano: crearne una nuova.',
+  },
+  access: {
+    create: isAdmin,
+    read: () => true, // Owners answer the questions before booking
+    update: isAdmin,
+    delete: isAdmin,
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'version',
+      type: 'number',
+      unique: true,
+      label: 'Versione',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Assegnata automaticamente alla creazione',
+      },
+    },
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      label: 'Nome',
+      admin: {
+        placeholder: 'Triage 2025 - revisione emorragie',
+      },
+    },
+    {
+      name: 'questions',
+      type: 'array',
+      required: true,
+      minRows: 1,
+      label: 'Domande',
+      validate: (val) => {
+        const keys = (val || []).map(question => question?.key);
+        if (new Set(keys).size !== keys.length) {
+          return 'Ogni domanda deve avere un codice univoco';
+        }
+
+        // Follow-ups are asked in order, so they can only depend on earlier questions
+        const misplaced = (val || []).find((question, index) =>
+          question?.showIf?.question && !keys.slice(0, index).includes(question.showIf.question)
+        );
+        if (misplaced) {
+          return `La domanda "${misplaced.key}" dipende da una domanda che non la precede`;
+        }
+        return true;
+      },
+      fields: [
+        {
+          name: 'key',
+          type: 'text',
+          required: true,
+          label: 'Codice',
+          admin: {
+            description: 'Identificativo usato nelle risposte, ad esempio breathing_difficulty',
+          },
+        },
+        {
+          name: 'question',
+          type: 'text',
+          required: true,
+          label: 'Domanda',
+        },
+        {
+          name: 'type',
+          type: 'select',
+          required: true,
+          label: 'Tipo Risposta',
+          defaultValue: 'boolean',
+          options: [
+            { label: 'Sì/No', value: 'boolean' },
+            { label: 'Scelta Multipla', value: 'multiple' },
+            { label: 'Scala', value: 'scale' },
+          ],
+        },
+        {
+          name: 'category',
+          type: 'select',
+          required: true,
+          label: 'Categoria',
+          defaultValue: 'symptoms',
+          options: [
+            { label: 'Sintomi', value: 'symptoms' },
+            { label: 'Comportamento', value: 'behavior' },
+            { label: 'Anamnesi', value: 'history' },
+            { label: 'Urgenza', value: 'urgency' },
+          ],
+        },
+        {
+          name: 'weight',
+          type: 'number',
+          required: true,
+          label: 'Peso',
+          min: 0,
+        },
+        {
+          name: 'inverted',
+          type: 'checkbox',
+          label: 'Punteggio Invertito',
+          defaultValue: false,
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'boolean',
+            description: 'Il peso si applica alla risposta "No", ad esempio "Il cane è cosciente?"',
+          },
+        },
+        {
+          name: 'options',
+          type: 'array',
+          label: 'Opzioni',
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'multiple',
+          },
+          fields: [
+            {
+              name: 'label',
+              type: 'text',
+              required: true,
+              label: 'Opzione',
+            },
+            {
+              name: 'weight',
+              type: 'number',
+              required: true,
+              label: 'Quota del Peso',
+              min: 0,
+              max: 1,
+              admin: {
+                description: 'Da 0 (nessuna urgenza) a 1 (peso pieno)',
+              },
+            },
+          ],
+        },
+        {
+          name: 'scaleMin',
+          type: 'number',
+          label: 'Minimo Scala',
+          defaultValue: 0,
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'scale',
+          },
+        },
+        {
+          name: 'scaleMax',
+          type: 'number',
+          label: 'Massimo Scala',
+          defaultValue: 10,
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'scale',
+          },
+          validate: (val, { siblingData }) => {
+            if (siblingData?.type === 'scale' && Number(val) <= Number(siblingData?.scaleMin ?? 0)) {
+              return 'Il massimo deve essere maggiore del minimo';
+            }
+            return true;
+          },
+        },
+        {
+          name: 'showIf',
+          type: 'group',
+          label: 'Domanda di Approfondimento',
+          admin: {
+            description: 'Lasciare vuoto per chiederla sempre',
+          },
+          fields: [
+            {
+              name: 'question',
+              type: 'text',
+              label: 'Codice Domanda Precedente',
+            },
+            {
+              name: 'answers',
+              type: 'json',
+              label: 'Risposte che la attivano',
+              admin: {
+                description: 'Elenco JSON, ad esempio ["Grave"] o [true]',
+              },
+            },
+            {
+              name: 'min',
+              type: 'number',
+              label: 'Oppure valore minimo (scala)',
+            },
+          ],
+        },
+        {
+          name: 'redFlag',
+          type: 'group',
+          label: 'Segnale di Allarme',
+          admin: {
+            description: 'Risposte che chiudono subito il triage indicando di andare in emergenza',
+          },
+          fields: [
+            {
+              name: 'answers',
+              type: 'json',
+              label: 'Risposte di allarme',
+              admin: {
+                description: 'Elenco JSON, ad esempio ["Non si ferma"] o [false]',
+              },
+            },
+            {
+              name: 'min',
+              type: 'number',
+              label: 'Oppure valore minimo (scala)',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'isActive',
+      type: 'checkbox',
+      label: 'Versione Attiva',
+      defaultValue: false,
+      admin: {
+        position: 'sidebar',
+        description: 'Usata per i nuovi triage; attivarla disattiva le altre versioni',
+      },
+    },
+    {
+      name: 'publishedAt',
+      type: 'date',
+      label: 'Pubblicata il',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+      label: 'Note di Revisione',
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      async ({ req, operation, data, originalDoc }) => {
+        // New versions are numbered after the latest one, starting after the built-in bank
+        if (operation === 'create') {
+          const { TriageSystem } = await import('@doggo/utils');
+          const latest = await req.payload.find({
+            collection: 'triage-questionnaires',
+            sort: '-version',
+            limit: 1,
+            depth: 0,
+          });
+          data.version = Math.max(latest.docs[0]?.version || 0, TriageSystem.DEFAULT_VERSION) + 1;
+        }
+
+        // Scores already computed must stay reproducible
+        if (operation === 'update' && originalDoc?.publishedAt) {
+          data.version = originalDoc.version;
+          if (data.questions && JSON.stringify(data.questions) !== JSON.stringify(originalDoc.questions)) {
+            throw new Error('Questa versione è già stata pubblicata: crearne una nuova per modificare le domande');
+          }
+        }
+
+        if (data.isActive && !originalDoc?.publishedAt) {
+          data.publishedAt = new Date().toISOString();
+        }
+
+        return data;
+      },
+    ],
+    afterChange: [
+      // Only one version is used for new triage at a time
+      async ({ req, doc, previousDoc }) => {
+        if (!doc.isActive || previousDoc?.isActive) return;
+
+        try {
+          await req.payload.update({
+            collection: 'triage-questionnaires',
+            where: {
+              id: { not_equals: doc.id },
+              isActive: { equals: true },
+            },
+            data: { isActive: false },
+          });
+        } catch (error) {
+          req.payload.logger.error('Triage questionnaire activation error:', error);
+        }
+      },
+    ],
+    beforeDelete: [
+      async ({ req, id }) => {
+        const questionnaire = await req.payload.findByID({
+          collection: 'triage-questionnaires',
+          id,
+          depth: 0,
+        });
+
+        if (questionnaire?.publishedAt) {
+          throw new Error('Le versioni pubblicate non possono essere eliminate: servono a spiegare i punteggi storici');
+        }
+      },
+    ],
+  },
+};
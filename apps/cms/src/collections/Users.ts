@@ -334,6 +334,81 @@ export const Users: CollectionConfig = {
         update: isAdmin,
       },
     },
+    {
+      name: 'calendarFeedToken',
+      type: 'text',
+      label: 'Token Feed Calendario',
+      unique: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Chiave segreta dell\'URL iCal: rigenerarla invalida i calendari già iscritti',
+      },
+      access: {
+        create: () => false,
+        read: ({ req: { user }, doc }) => user?.role === 'admin' || user?.id === doc?.id,
+        update: () => false,
+      },
+    },
+    {
+      name: 'reliability',
+      type: 'group',
+      label: 'Affidabilità',
+      admin: {
+        description: 'Presenze alle visite, aggiornate automaticamente a ogni visita completata o mancata',
+      },
+      access: {
+        create: () => false,
+        read: ({ req: { user }, doc }) => ['admin', 'veterinarian'].includes(user?.role) || user?.id === doc?.id,
+        update: isAdmin,
+      },
+      fields: [
+        {
+          name: 'completed',
+          type: 'number',
+          label: 'Visite Completate',
+          defaultValue: 0,
+          admin: { readOnly: true },
+        },
+        {
+          name: 'noShows',
+          type: 'number',
+          label: 'Mancate Presentazioni',
+          defaultValue: 0,
+          admin: { readOnly: true },
+        },
+        {
+          name: 'recentNoShows',
+          type: 'number',
+          label: 'Mancate Presentazioni Recenti',
+          defaultValue: 0,
+          admin: {
+            readOnly: true,
+            description: 'Ultimi 12 mesi: determina acconto o pagamento anticipato',
+          },
+        },
+        {
+          name: 'lastNoShowAt',
+          type: 'date',
+          label: 'Ultima Mancata Presentazione',
+          admin: { readOnly: true },
+        },
+        {
+          name: 'score',
+          type: 'number',
+          label: 'Punteggio',
+          min: 0,
+          max: 100,
+          admin: { readOnly: true },
+        },
+        {
+          name: 'updatedAt',
+          type: 'date',
+          label: 'Aggiornato il',
+          admin: { readOnly: true },
+        },
+      ],
+    },
   ],
   hooks: {
     beforeChange: [
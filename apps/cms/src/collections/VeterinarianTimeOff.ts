@@ -0,0 +1,241 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin } from '../access/index';
+
+// Bookings that are still going to happen and may clash with new time-off
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+// Longest bookable appointment, used to widen the search window for overlaps
+const MAX_BOOKING_DURATION_MINUTES = 480;
+
+export const VeterinarianTimeOff: CollectionConfig = {
+  slug: 'veterinarian-time-off',
+  admin: {
+    useAsTitle: 'reason',
+    defaultColumns: ['veterinarian', 'type', 'startDate', 'endDate', 'reason'],
+    group: 'Healthcare',
+  },
+  access: {
+    create: ({ req: { user } }) => user?.role === 'veterinarian' || user?.role === 'admin',
+    read: () => true, // Public so clients can show closures in the calendar
+    update: ({ req: { user } }) => {
+      if (user?.role === 'admin') return true;
+      if (user?.role === 'veterinarian') {
+        return { 'veterinarian.user': { equals: user.id } };
+      }
+      return false;
+    },
+    delete: ({ req: { user } }) => {
+      if (user?.role === 'admin') return true;
+      if (user?.role === 'veterinarian') {
+        return { 'veterinarian.user': { equals: user.id } };
+      }
+      return false;
+    },
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'veterinarian',
+      type: 'relationship',
+      relationTo: 'veterinarians',
+      required: true,
+      label: 'Veterinario',
+      index: true,
+    },
+    {
+      name: 'type',
+      type: 'select',
+      required: true,
+      label: 'Tipo',
+      options: [
+        { label: 'Ferie', value: 'vacation' },
+        { label: 'Congresso/Formazione', value: 'conference' },
+        { label: 'Malattia', value: 'sick_leave' },
+        { label: 'Chiusura Straordinaria', value: 'closure' },
+        { label: 'Altro', value: 'other' },
+      ],
+      defaultValue: 'vacation',
+    },
+    {
+      name: 'startDate',
+      type: 'date',
+      required: true,
+      label: 'Inizio',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'endDate',
+      type: 'date',
+      required: true,
+      label: 'Fine',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+      validate: (val, { siblingData }) => {
+        if (val && siblingData?.startDate && new Date(val) <= new Date(siblingData.startDate)) {
+          return 'La data di fine deve essere successiva alla data di inizio';
+        }
+        return true;
+      },
+    },
+    {
+      name: 'reason',
+      type: 'text',
+      label: 'Motivo',
+      maxLength: 500,
+      admin: {
+        placeholder: 'Es. Ferie estive, congresso SCIVAC...',
+      },
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      // Veterinarians can only add time-off to their own calendar
+      async ({ req, data }) => {
+        if (req.user?.role === 'veterinarian') {
+          const vetProfile = await req.payload.find({
+            collection: 'veterinarians',
+            where: {
+              user: { equals: req.user.id },
+            },
+            limit: 1,
+          });
+
+          if (vetProfile.docs.length > 0) {
+            data.veterinarian = vetProfile.docs[0].id;
+          }
+        }
+        return data;
+      },
+    ],
+    afterChange: [
+      // Flag existing bookings that fall inside the new time-off
+      async ({ req, doc }) => {
+        try {
+          const startDate = new Date(doc.startDate);
+          const endDate = new Date(doc.endDate);
+          const searchFrom = new Date(startDate.getTime() - MAX_BOOKING_DURATION_MINUTES * 60000);
+
+          const bookings = await req.payload.find({
+            collection: 'bookings',
+            where: {
+              veterinarian: { equals: doc.veterinarian?.id || doc.veterinarian },
+              status: { in: ACTIVE_BOOKING_STATUSES },
+              scheduledAt: {
+                greater_than: searchFrom.toISOString(),
+                less_than: endDate.toISOString(),
+              },
+            },
+            limit: 500,
+          });
+
+          const conflicting = bookings.docs.filter((booking: any) => {
+            const bookingStart = new Date(booking.scheduledAt);
+            const bookingEnd = new Date(bookingStart.getTime() + (booking.duration || 30) * 60000);
+            return bookingStart < endDate && bookingEnd > startDate;
+          });
+
+          if (conflicting.length === 0) return;
+
+          const reason = `In conflitto con assenza del veterinario (${startDate.toLocaleDateString('it-IT')} - ${endDate.toLocaleDateString('it-IT')})`;
+
+          await Promise.all(conflicting.map((booking: any) =>
+            req.payload.update({
+              collection: 'bookings',
+              id: booking.id,
+              data: {
+                requiresReschedule: true,
+                rescheduleReason: reason,
+              },
+            })
+          ));
+
+          const notificationService = req.app?.locals?.services?.notification;
+          if (notificationService) {
+            const veterinarian = await req.payload.findByID({
+              collection: 'veterinarians',
+              id: doc.veterinarian?.id || doc.veterinarian,
+            });
+            await notificationService.sendBookingConflicts(veterinarian, conflicting, doc);
+          }
+        } catch (error) {
+          req.payload.logger.error('Time-off conflict check error:', error);
+        }
+      },
+    ],
+    afterDelete: [
+      // Release bookings that were only flagged because of this time-off
+      async ({ req, doc }) => {
+        try {
+          const veterinarianId = doc.veterinarian?.id || doc.veterinarian;
+          const startDate = new Date(doc.startDate);
+          const endDate = new Date(doc.endDate);
+          const searchFrom = new Date(startDate.getTime() - MAX_BOOKING_DURATION_MINUTES * 60000);
+
+          const flagged = await req.payload.find({
+            collection: 'bookings',
+            where: {
+              veterinarian: { equals: veterinarianId },
+              requiresReschedule: { equals: true },
+              scheduledAt: {
+                greater_than_equal: searchFrom.toISOString(),
+                less_than: endDate.toISOString(),
+              },
+            },
+            limit: 500,
+          });
+
+          if (flagged.docs.length === 0) return;
+
+          // Other absences and public holidays still block some of these bookings
+          const { SchedulingUtils } = await import('@doggo/utils');
+          const [veterinarian, remaining] = await Promise.all([
+            req.payload.findByID({ collection: 'veterinarians', id: veterinarianId, depth: 0 }),
+            req.payload.find({
+              collection: 'veterinarian-time-off',
+              where: {
+                veterinarian: { equals: veterinarianId },
+                startDate: { less_than: new Date(endDate.getTime() + MAX_BOOKING_DURATION_MINUTES * 60000).toISOString() },
+                endDate: { greater_than: searchFrom.toISOString() },
+              },
+              limit: 500,
+              depth: 0,
+            }),
+          ]);
+
+          const released = flagged.docs.filter((booking: any) => {
+            const bookingStart = new Date(booking.scheduledAt);
+            const bookingEnd = new Date(bookingStart.getTime() + (booking.duration || 30) * 60000);
+
+            const stillAway = remaining.docs.some((timeOff: any) =>
+              timeOff.id !== doc.id && bookingStart < new Date(timeOff.endDate) && bookingEnd > new Date(timeOff.startDate)
+            );
+            const onHoliday = veterinarian?.observesPublicHolidays !== false
+              && !!(SchedulingUtils.getPublicHoliday(bookingStart) || SchedulingUtils.getPublicHoliday(bookingEnd));
+
+            return !stillAway && !onHoliday;
+          });
+
+          await Promise.all(released.map((booking: any) =>
+            req.payload.update({
+              collection: 'bookings',
+              id: booking.id,
+              data: {
+                requiresReschedule: false,
+                rescheduleReason: null,
+              },
+            })
+          ));
+        } catch (error) {
+          req.payload.logger.error('Time-off release error:', error);
+        }
+      },
+    ],
+  },
+};
@@ -73,6 +73,19 @@ export const Veterinarians: CollectionConfig = {
     },
 
     // Clinic Information
+    {
+      name: 'clinic',
+      type: 'relationship',
+      relationTo: 'clinics',
+      label: 'Clinica',
+      index: true,
+      access: {
+        update: isAdmin, // Clinic admins add and remove their vets through the clinic API
+      },
+      admin: {
+        description: 'Per i veterinari che lavorano in una clinica: nome e indirizzo vengono copiati dalla clinica',
+      },
+    },
     {
       name: 'clinicName',
       type: 'text',
@@ -223,6 +236,103 @@ export const Veterinarians: CollectionConfig = {
       },
     },
 
+    // Slot Configuration
+    {
+      name: 'slotSettings',
+      type: 'group',
+      label: 'Configurazione Appuntamenti',
+      admin: {
+        description: 'Durata degli appuntamenti per tipo, pause e limiti giornalieri',
+      },
+      fields: [
+        {
+          name: 'durations',
+          type: 'group',
+          label: 'Durata per Tipo (minuti)',
+          fields: [
+            { name: 'general', type: 'number', label: 'Visita Generale', defaultValue: 30, min: 5, max: 480 },
+            { name: 'urgent', type: 'number', label: 'Urgenza', defaultValue: 30, min: 5, max: 480 },
+            { name: 'specialist', type: 'number', label: 'Visita Specialistica', defaultValue: 30, min: 5, max: 480 },
+            { name: 'telemedicine', type: 'number', label: 'Telemedicina', defaultValue: 30, min: 5, max: 480 },
+            { name: 'surgery', type: 'number', label: 'Chirurgia', defaultValue: 60, min: 5, max: 480 },
+          ],
+        },
+        {
+          name: 'slotInterval',
+          type: 'number',
+          label: 'Intervallo tra Slot (minuti)',
+          defaultValue: 30,
+          min: 5,
+          max: 120,
+          admin: {
+            description: 'Ogni quanti minuti può iniziare un appuntamento',
+          },
+        },
+        {
+          name: 'bufferMinutes',
+          type: 'number',
+          label: 'Pausa tra Appuntamenti (minuti)',
+          defaultValue: 0,
+          min: 0,
+          max: 120,
+        },
+        {
+          name: 'lunchBreak',
+          type: 'group',
+          label: 'Pausa Pranzo',
+          fields: [
+            {
+              name: 'startTime',
+              type: 'text',
+              label: 'Inizio',
+              admin: {
+                placeholder: '13:00',
+              },
+              validate: (val) => {
+                if (val && !/^([01]\d|2[0-3]):([0-5]\d)$/.test(val)) {
+                  return 'Formato orario non valido (HH:MM)';
+                }
+                return true;
+              },
+            },
+            {
+              name: 'endTime',
+              type: 'text',
+              label: 'Fine',
+              admin: {
+                placeholder: '14:00',
+              },
+              validate: (val) => {
+                if (val && !/^([01]\d|2[0-3]):([0-5]\d)$/.test(val)) {
+                  return 'Formato orario non valido (HH:MM)';
+                }
+                return true;
+              },
+            },
+          ],
+        },
+        {
+          name: 'maxBookingsPerDay',
+          type: 'number',
+          label: 'Max Appuntamenti al Giorno',
+          min: 1,
+          admin: {
+            description: 'Lasciare vuoto per nessun limite',
+          },
+        },
+      ],
+    },
+
+    {
+      name: 'observesPublicHolidays',
+      type: 'checkbox',
+      label: 'Chiuso nei Giorni Festivi',
+      defaultValue: true,
+      admin: {
+        description: 'Nessuna prenotazione nelle festività nazionali italiane. Ferie e chiusure si gestiscono in "Assenze Veterinari"',
+      },
+    },
+
     // Fees
     {
       name: 'consultationFee',
@@ -254,6 +364,125 @@ export const Veterinarians: CollectionConfig = {
         step: 5,
       },
     },
+    {
+      name: 'surgeryFee',
+      type: 'number',
+      label: 'Tariffa Chirurgia (€)',
+      min: 0,
+      admin: {
+        step: 5,
+        description: 'Necessaria per accettare prenotazioni di chirurgia',
+      },
+    },
+
+    // Cancellation Policy
+    {
+      name: 'cancellationPolicy',
+      type: 'group',
+      label: 'Politica di Cancellazione',
+      admin: {
+        description: 'Rimborso applicato quando il proprietario annulla una visita pagata',
+      },
+      fields: [
+        {
+          name: 'tiers',
+          type: 'array',
+          label: 'Fasce di Rimborso',
+          minRows: 1,
+          defaultValue: [
+            { hoursBefore: 48, refundPercentage: 100 },
+            { hoursBefore: 0, refundPercentage: 50 },
+          ],
+          admin: {
+            description: 'Si applica la fascia con il preavviso più alto raggiunto',
+          },
+          fields: [
+            {
+              name: 'hoursBefore',
+              type: 'number',
+              required: true,
+              label: 'Preavviso Minimo (ore)',
+              min: 0,
+            },
+            {
+              name: 'refundPercentage',
+              type: 'number',
+              required: true,
+              label: 'Rimborso (%)',
+              min: 0,
+              max: 100,
+            },
+          ],
+        },
+        {
+          name: 'noShowRefundPercentage',
+          type: 'number',
+          label: 'Rimborso Mancata Presentazione (%)',
+          defaultValue: 0,
+          min: 0,
+          max: 100,
+        },
+        {
+          name: 'veterinarianCancellationRefundPercentage',
+          type: 'number',
+          label: 'Rimborso se Annulla il Veterinario (%)',
+          defaultValue: 100,
+          min: 0,
+          max: 100,
+        },
+      ],
+    },
+    {
+      name: 'noShowPolicy',
+      type: 'group',
+      label: 'Mancate Presentazioni',
+      admin: {
+        description: 'Condizioni di pagamento per i proprietari che non si presentano alle visite',
+      },
+      fields: [
+        {
+          name: 'allowPayAtVisit',
+          type: 'checkbox',
+          label: 'Consenti Pagamento in Studio',
+          defaultValue: false,
+        },
+        {
+          name: 'threshold',
+          type: 'number',
+          label: 'Soglia Mancate Presentazioni',
+          defaultValue: 2,
+          min: 1,
+          admin: {
+            description: 'Mancate presentazioni negli ultimi 12 mesi oltre le quali il pagamento in studio non è più consentito',
+            condition: (data) => !!data?.noShowPolicy?.allowPayAtVisit,
+          },
+        },
+        {
+          name: 'requirement',
+          type: 'select',
+          label: 'Richiesta oltre la Soglia',
+          defaultValue: 'deposit',
+          options: [
+            { label: 'Acconto', value: 'deposit' },
+            { label: 'Pagamento Anticipato', value: 'prepayment' },
+          ],
+          admin: {
+            condition: (data) => !!data?.noShowPolicy?.allowPayAtVisit,
+          },
+        },
+        {
+          name: 'depositPercentage',
+          type: 'number',
+          label: 'Acconto (%)',
+          defaultValue: 30,
+          min: 1,
+          max: 100,
+          admin: {
+            condition: (data) => !!data?.noShowPolicy?.allowPayAtVisit && data?.noShowPolicy?.requirement !== 'prepayment',
+          },
+        },
+      ],
+    },
 
     // Status & Verification
     {
@@ -269,6 +498,20 @@ export const Veterinarians: CollectionConfig = {
         description: 'Veterinario verificato dallo staff',
       },
     },
+    {
+      name: 'signingKey',
+      type: 'json',
+      label: 'Chiave di Firma Ricette',
+      // Generated on the first prescription; the private key is stored encrypted
+      access: {
+        read: () => false,
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
     {
       name: 'isAcceptingPatients',
       type: 'checkbox',
@@ -468,6 +711,23 @@ export const Veterinarians: CollectionConfig = {
         }
         return data;
       },
+      // Vets working at a clinic take its name and address
+      async ({ req, data, originalDoc }) => {
+        const clinicId = data.clinic?.id || data.clinic;
+        const previousClinicId = originalDoc?.clinic?.id || originalDoc?.clinic;
+        if (!clinicId || clinicId === previousClinicId) return data;
+
+        const clinic = await req.payload.findByID({
+          collection: 'clinics',
+          id: clinicId,
+        });
+
+        if (clinic) {
+          data.clinicName = clinic.name;
+          data.clinicAddress = clinic.address;
+        }
+        return data;
+      },
       // Auto-generate coordinates if address is provided
       async ({ data }) => {
         if (data.clinicAddress && !data.clinicAddress.coordinates) {
@@ -537,6 +797,16 @@ export const Veterinarians: CollectionConfig = {
           sort: '-rating',
         });
 
+        // Drop veterinarians who are closed, on holiday or fully booked on the requested date
+        if (availableDate) {
+          const { db } = await import('@doggo/database');
+          const date = new Date(availableDate as string);
+          const availability = await Promise.all(
+            veterinarians.docs.map(vet => db.getVeterinarianAvailability(vet.id, date))
+          );
+          veterinarians.docs = veterinarians.docs.filter((_, index) => availability[index].length > 0);
+        }
+
         // Filter by location if provided
         if (location && typeof location === 'string') {
           const [lat, lng] = location.split(',').map(Number);
@@ -566,7 +836,7 @@ export const Veterinarians: CollectionConfig = {
       method: 'get',
       handler: async (req, res) => {
         const { id } = req.params;
-        const { date } = req.query;
+        const { date, type } = req.query;
 
         if (!date) {
           return res.status(400).json({ error: 'Date parameter required' });
@@ -581,13 +851,17 @@ export const Veterinarians: CollectionConfig = {
           return res.status(404).json({ error: 'Veterinarian not found' });
         }
 
-        // Get available time slots
+        // Get available time slots sized for the requested booking type
         const { db } = await import('@doggo/database');
-        const availableSlots = await db.getVeterinarianAvailability(id, new Date(date as string));
+        const { SchedulingUtils } = await import('@doggo/utils');
+        const availableSlots = await db.getVeterinarianAvailability(id, new Date(date as string), {
+          bookingType: type as string,
+        });
 
         return res.json({
           date,
           availableSlots,
+          slotDuration: SchedulingUtils.getSlotDuration(type as string, veterinarian.slotSettings),
           workingHours: veterinarian.workingHours,
         });
       },
@@ -685,13 +959,18 @@ export const Veterinarians: CollectionConfig = {
 
         const totalRevenue = revenue.docs.reduce((sum, booking) => sum + booking.totalCost, 0);
 
+        const bookingService = req.app.locals.services.booking;
+        const overdueFollowUps = await bookingService.getOverdueFollowUps(id);
+
         return res.json({
           todayBookings: todayBookings.docs,
+          overdueFollowUps,
           stats: {
             todayBookings: todayBookings.totalDocs,
             monthlyBookings: monthlyBookings.totalDocs,
             totalBookings: totalBookings.totalDocs,
             totalRevenue,
+            overdueFollowUps: overdueFollowUps.length,
           },
         });
       },
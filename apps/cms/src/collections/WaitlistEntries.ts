@@ -0,0 +1,179 @@
+import type { CollectionConfig } from 'payload/types';
+import { isAdmin, isBookingOwnerOrVetOrAdmin } from '../access/index';
+
+export const WaitlistEntries: CollectionConfig = {
+  slug: 'waitlist-entries',
+  admin: {
+    useAsTitle: 'id',
+    defaultColumns: ['user', 'dog', 'veterinarian', 'dateFrom', 'dateTo', 'urgencyScore', 'status'],
+    group: 'Healthcare',
+  },
+  access: {
+    create: ({ req: { user } }) => !!user,
+    read: isBookingOwnerOrVetOrAdmin,
+    update: isAdmin, // Offers are managed by the waitlist service
+    delete: isAdmin,
+    admin: isAdmin,
+  },
+  fields: [
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      label: 'Proprietario',
+      index: true,
+      hooks: {
+        beforeChange: [
+          ({ req, value }) => {
+            if (req.user && req.user.role !== 'admin') {
+              return req.user.id;
+            }
+            return value;
+          },
+        ],
+      },
+    },
+    {
+      name: 'dog',
+      type: 'relationship',
+      relationTo: 'dogs',
+      required: true,
+      label: 'Cane',
+    },
+    {
+      name: 'veterinarian',
+      type: 'relationship',
+      relationTo: 'veterinarians',
+      required: true,
+      label: 'Veterinario',
+      index: true,
+    },
+    {
+      name: 'type',
+      type: 'select',
+      label: 'Tipo Visita',
+      options: [
+        { label: 'Visita Generale', value: 'general' },
+        { label: 'Visita Urgente', value: 'urgent' },
+        { label: 'Visita Specialistica', value: 'specialist' },
+        { label: 'Telemedicina', value: 'telemedicine' },
+        { label: 'Intervento Chirurgico', value: 'surgery' },
+      ],
+      admin: {
+        description: 'Lasciare vuoto per accettare qualsiasi tipo di visita',
+      },
+    },
+    {
+      name: 'dateFrom',
+      type: 'date',
+      required: true,
+      label: 'Disponibile dal',
+      admin: {
+        date: {
+          pickerAppearance: 'dayOnly',
+        },
+      },
+    },
+    {
+      name: 'dateTo',
+      type: 'date',
+      required: true,
+      label: 'Disponibile fino al',
+      admin: {
+        date: {
+          pickerAppearance: 'dayOnly',
+        },
+      },
+      validate: (val, { siblingData }) => {
+        if (val && siblingData?.dateFrom && new Date(val) < new Date(siblingData.dateFrom)) {
+          return 'La data di fine deve essere successiva alla data di inizio';
+        }
+        return true;
+      },
+    },
+    {
+      name: 'urgencyScore',
+      type: 'number',
+      label: 'Punteggio Urgenza',
+      min: 1,
+      max: 10,
+      admin: {
+        description: 'Calcolato dal triage: punteggi più alti ricevono prima gli slot liberati',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      label: 'Stato',
+      defaultValue: 'waiting',
+      options: [
+        { label: 'In Attesa', value: 'waiting' },
+        { label: 'Slot Offerto', value: 'offered' },
+        { label: 'Prenotato', value: 'booked' },
+        { label: 'Annullato', value: 'cancelled' },
+        { label: 'Scaduto', value: 'expired' },
+      ],
+      index: true,
+    },
+    {
+      name: 'offer',
+      type: 'group',
+      label: 'Offerta Corrente',
+      admin: {
+        condition: (data) => data?.status === 'offered',
+      },
+      fields: [
+        {
+          name: 'holdId',
+          type: 'text',
+          label: 'ID Blocco Slot',
+        },
+        {
+          name: 'scheduledAt',
+          type: 'date',
+          label: 'Orario Offerto',
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'duration',
+          type: 'number',
+          label: 'Durata (minuti)',
+        },
+        {
+          name: 'expiresAt',
+          type: 'date',
+          label: 'Scadenza Offerta',
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+      ],
+    },
+    {
+      name: 'declinedSlots',
+      type: 'json',
+      label: 'Slot Rifiutati',
+      admin: {
+        readOnly: true,
+        description: 'Orari già offerti e non accettati, che non verranno riproposti',
+      },
+    },
+    {
+      name: 'booking',
+      type: 'relationship',
+      relationTo: 'bookings',
+      label: 'Prenotazione',
+      admin: {
+        condition: (data) => data?.status === 'booked',
+      },
+    },
+  ],
+};
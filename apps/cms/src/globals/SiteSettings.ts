@@ -258,6 +258,17 @@ export const SiteSettings: GlobalConfig = {
           min: 1,
           max: 365,
         },
+        {
+          name: 'rescheduleMinNoticeHours',
+          type: 'number',
+          label: 'Preavviso Minimo Spostamento (ore)',
+          defaultValue: 24,
+          min: 0,
+          max: 168,
+          admin: {
+            description: 'Entro quante ore dalla visita il proprietario non può più spostarla',
+          },
+        },
         {
           name: 'emergencyRadiusKm',
           type: 'number',
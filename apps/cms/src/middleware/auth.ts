@@ -7,6 +7,8 @@ declare global {
   namespace Express {
     interface Request {
       user?: any;
+      pharmacy?: any;
+      isEmergency?: boolean;
     }
   }
 }
@@ -154,6 +156,46 @@ export const authenticateApiKey = (req: Request, res: Response, next: NextFuncti
   next();
 };
 
+// Pharmacy API key authentication: each pharmacy has its own key, issued by an admin
+export const authenticatePharmacy = async (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = req.headers['x-api-key'];
+
+  if (!apiKey || typeof apiKey !== 'string') {
+    return res.status(401).json({
+      success: false,
+      error: 'API key required',
+    });
+  }
+
+  try {
+    const result = await payload.find({
+      collection: 'pharmacies',
+      where: {
+        apiKeyHash: { equals: CryptoUtils.hashApiKey(apiKey) },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    const pharmacy = result.docs[0];
+    if (!pharmacy || !pharmacy.isActive) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid API key',
+      });
+    }
+
+    req.pharmacy = pharmacy;
+    next();
+  } catch (error) {
+    payload.logger.error('Pharmacy authentication error:', error);
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication failed',
+    });
+  }
+};
+
 // Resource ownership middleware factory
 export const requireOwnership = (resourceType: string, idParam: string = 'id') => {
   return async (req: Request, res: Response, next: NextFunction) => {
@@ -272,6 +314,52 @@ export const requireEmergencyOwnership = requireOwnership('emergency');
 export const requireVeterinarianOwnership = requireOwnership('veterinarian');
 export const requireShelterOwnership = requireOwnership('shelter');
 
+// Veterinarian calendar middleware (the veterinarian, an administrator of their clinic, or admin)
+export const requireVeterinarianCalendarAccess = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    if (req.user.role === 'admin') {
+      return next();
+    }
+
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id: req.params.id,
+      depth: 0,
+    });
+
+    if (!veterinarian) {
+      return res.status(404).json({
+        success: false,
+        error: 'Veterinarian not found',
+      });
+    }
+
+    const canManage = await req.app.locals.services.clinic.canManageVeterinarian(veterinarian, req.user);
+    if (!canManage) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    req.resource = veterinarian;
+    next();
+  } catch (error) {
+    payload.logger.error('Veterinarian calendar access check error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify calendar access',
+    });
+  }
+};
+
 // Booking access middleware (owner, veterinarian, or admin)
 export const requireBookingAccess = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -558,6 +646,7 @@ export default {
   requireShelterOrAdmin,
   optionalAuth,
   authenticateApiKey,
+  authenticatePharmacy,
   requireOwnership,
   requireDogOwnership,
   requireBookingOwnership,
@@ -565,6 +654,7 @@ export default {
   requireEmergencyOwnership,
   requireVeterinarianOwnership,
   requireShelterOwnership,
+  requireVeterinarianCalendarAccess,
   requireBookingAccess,
   bypassRateLimitForAuth,
   requireVerifiedUser,
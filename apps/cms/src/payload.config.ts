@@ -7,10 +7,17 @@ import path from 'path';
 // Collections
 import { Users } from './collections/Users';
 import { Dogs } from './collections/Dogs';
+import { Clinics } from './collections/Clinics';
+import { ClinicResources } from './collections/ClinicResources';
 import { Veterinarians } from './collections/Veterinarians';
+import { VeterinarianTimeOff } from './collections/VeterinarianTimeOff';
+import { WaitlistEntries } from './collections/WaitlistEntries';
+import { TriageQuestionnaires } from './collections/TriageQuestionnaires';
 import { Shelters } from './collections/Shelters';
 import { Bookings } from './collections/Bookings';
 import { Documents } from './collections/Documents';
+import { MedicalRecordEntries } from './collections/MedicalRecordEntries';
+import { MedicalRecordGrants } from './collections/MedicalRecordGrants';
 import { Emergencies } from './collections/Emergencies';
 import { Matches } from './collections/Matches';
 import { Chats } from './collections/Chats';
@@ -19,6 +26,8 @@ import { Notifications } from './collections/Notifications';
 import { Events } from './collections/Events';
 import { Donations } from './collections/Donations';
 import { Prescriptions } from './collections/Prescriptions';
+import { Pharmacies } from './collections/Pharmacies';
+import { FormularyDrugs } from './collections/FormularyDrugs';
 import { Media } from './collections/Media';
 
 // Globals
@@ -77,10 +86,17 @@ export default buildConfig({
   collections: [
     Users,
     Dogs,
+    Clinics,
+    ClinicResources,
     Veterinarians,
+    VeterinarianTimeOff,
+    WaitlistEntries,
+    TriageQuestionnaires,
     Shelters,
     Bookings,
     Documents,
+    MedicalRecordEntries,
+    MedicalRecordGrants,
     Emergencies,
     Matches,
     Chats,
@@ -89,6 +105,8 @@ export default buildConfig({
     Events,
     Donations,
     Prescriptions,
+    Pharmacies,
+    FormularyDrugs,
     Media,
   ],
   globals: [
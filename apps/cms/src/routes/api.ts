@@ -1,6 +1,6 @@
 import express from 'express';
 import multer from 'multer';
-import { authenticateUser, requireRole } from '../middleware/auth';
+import { authenticateUser, authenticatePharmacy, requireRole, requireFeature, requireVeterinarianCalendarAccess, requireBookingAccess, emergencyAccess } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import Joi from 'joi';
 import payload from 'payload';
@@ -173,6 +173,104 @@ router.post('/profile/avatar',
   }
 );
 
+// Create or rotate the secret iCal feed URL
+router.post('/profile/calendar-feed', authenticateUser, async (req, res) => {
+  try {
+    const { CryptoUtils } = await import('@doggo/utils');
+    const token = CryptoUtils.generateSecureId(32);
+
+    await payload.update({
+      collection: 'users',
+      id: req.user.id,
+      data: {
+        calendarFeedToken: token,
+      },
+    });
+
+    res.json({
+      success: true,
+      feedUrl: `${process.env.PAYLOAD_PUBLIC_SERVER_URL}/api/calendar/${token}.ics`,
+    });
+  } catch (error) {
+    payload.logger.error('Calendar feed creation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create calendar feed',
+    });
+  }
+});
+
+// Revoke the iCal feed URL
+router.delete('/profile/calendar-feed', authenticateUser, async (req, res) => {
+  try {
+    await payload.update({
+      collection: 'users',
+      id: req.user.id,
+      data: {
+        calendarFeedToken: null,
+      },
+    });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked',
+    });
+  } catch (error) {
+    payload.logger.error('Calendar feed revoke error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke calendar feed',
+    });
+  }
+});
+
+// iCal feed for calendar apps; the token in the URL is the only credential
+router.get('/calendar/:token.ics', async (req, res) => {
+  try {
+    const { db } = await import('@doggo/database');
+    const { CalendarUtils } = await import('@doggo/utils');
+
+    const user = await db.findUserByCalendarFeedToken(req.params.token);
+    if (!user || !user.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found',
+      });
+    }
+
+    const [bookings, followUps, participations] = await Promise.all([
+      db.getUpcomingBookings(user.id, {
+        includeCancelled: true,
+        asVeterinarian: user.role === 'VETERINARIAN',
+      }),
+      db.getUpcomingFollowUps(user.id),
+      db.getUpcomingEventParticipations(user.id),
+    ]);
+
+    const baseUrl = process.env.NEXTAUTH_URL;
+    const events = [
+      ...bookings.map(booking => CalendarUtils.bookingToEvent(booking, baseUrl)),
+      ...followUps.map(booking => CalendarUtils.followUpToEvent(booking, baseUrl)),
+      ...participations.map(participation =>
+        CalendarUtils.eventToCalendarEvent(participation.event, participation.status, baseUrl)
+      ),
+    ];
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="doggo.ics"',
+      'Cache-Control': 'private, max-age=900',
+    });
+    res.send(CalendarUtils.buildCalendar(events, { name: `Doggo - ${user.firstName}` }));
+  } catch (error) {
+    payload.logger.error('Calendar feed error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate calendar feed',
+    });
+  }
+});
+
 // ===========================================
 // DOG MANAGEMENT ENDPOINTS
 // ===========================================
@@ -331,374 +429,2498 @@ router.post('/dogs/:dogId/photos',
   }
 );
 
-// ===========================================
-// VETERINARIAN SEARCH ENDPOINTS
-// ===========================================
-
-// Search veterinarians
-router.get('/veterinarians/search', async (req, res) => {
+// Medical record: current summary and timeline (owner, vets around a visit, grantees, admin)
+router.get('/dogs/:dogId/medical-record', authenticateUser, async (req, res) => {
   try {
-    const {
-      location,
-      radius = 50,
-      specializations,
-      availableDate,
-      minRating = 0,
-      maxFee,
-      telemedicine,
-      limit = 20,
-      page = 1,
-    } = req.query;
-
-    let where: any = {
-      isVerified: { equals: true },
-      isAcceptingPatients: { equals: true },
-    };
+    const { type, from, to, limit } = req.query;
 
-    // Filter by specializations
-    if (specializations) {
-      const specs = Array.isArray(specializations) ? specializations : [specializations];
-      where.specializations = { in: specs };
-    }
+    const record = await req.app.locals.services.medicalRecord.getMedicalRecord(req.params.dogId, req.user, {
+      type: type as string,
+      from: from as string,
+      to: to as string,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
 
-    // Filter by rating
-    if (minRating && Number(minRating) > 0) {
-      where.rating = { greater_than_equal: Number(minRating) };
+    res.json({
+      success: true,
+      ...record,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
     }
+    payload.logger.error('Medical record fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch medical record',
+    });
+  }
+});
 
-    // Filter by consultation fee
-    if (maxFee && Number(maxFee) > 0) {
-      where.consultationFee = { less_than_equal: Number(maxFee) };
-    }
+// Vets with a write_notes grant add a problem, allergy, vaccination, lab result... to the record; other grantees add notes
+router.post('/dogs/:dogId/medical-record',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      type: Joi.string().valid('problem', 'allergy', 'medication', 'vaccination', 'surgery', 'weight', 'lab_result', 'visit', 'note').required(),
+      title: Joi.string().min(1).max(200).required(),
+      description: Joi.string().max(5000).optional(),
+      recordedAt: Joi.date().max('now').optional(),
+      status: Joi.string().valid('active', 'resolved').optional(),
+      endDate: Joi.date().optional(),
+      documentId: Joi.string().optional(),
+      details: Joi.object({
+        severity: Joi.string().valid('mild', 'moderate', 'severe').optional(),
+        reaction: Joi.string().max(500).optional(),
+        dosage: Joi.string().max(200).optional(),
+        frequency: Joi.string().max(200).optional(),
+        vaccineCode: Joi.string().max(50).optional(),
+        batchNumber: Joi.string().max(50).optional(),
+        nextDueDate: Joi.date().optional(),
+        weightKg: Joi.number().positive().max(150).optional(),
+        labResults: Joi.array().items(Joi.object({
+          test: Joi.string().max(100).required(),
+          value: Joi.string().max(100).required(),
+          unit: Joi.string().max(20).optional(),
+          referenceRange: Joi.string().max(50).optional(),
+          isAbnormal: Joi.boolean().default(false),
+        })).optional(),
+      }).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const entry = await req.app.locals.services.medicalRecord.addEntry(req.params.dogId, req.user, req.body);
 
-    // Filter by telemedicine availability
-    if (telemedicine === 'true') {
-      where.servicesOffered = { in: ['telemedicine'] };
+      res.status(201).json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Medical record entry error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add medical record entry',
+      });
     }
+  }
+);
 
-    const veterinarians = await payload.find({
-      collection: 'veterinarians',
-      where,
-      populate: ['user'],
-      limit: Number(limit),
-      page: Number(page),
-      sort: '-rating',
-    });
+// Resolve a problem or stop a medication
+router.patch('/dogs/:dogId/medical-record/:entryId',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      status: Joi.string().valid('active', 'resolved').optional(),
+      endDate: Joi.date().optional(),
+      description: Joi.string().max(5000).optional(),
+    }).min(1),
+  }),
+  async (req, res) => {
+    try {
+      const entry = await req.app.locals.services.medicalRecord.updateEntry(
+        req.params.dogId,
+        req.params.entryId,
+        req.user,
+        req.body
+      );
 
-    // Apply location filtering if provided
-    let results = veterinarians.docs;
-    if (location && typeof location === 'string') {
-      const [lat, lng] = location.split(',').map(Number);
-      if (lat && lng) {
-        const { GeoUtils } = await import('@doggo/utils');
-        results = results
-          .map(vet => {
-            if (!vet.clinicAddress?.coordinates) return null;
-            const distance = GeoUtils.calculateDistance(
-              { latitude: lat, longitude: lng },
-              vet.clinicAddress.coordinates
-            );
-            return distance <= Number(radius) ? { ...vet, distance } : null;
-          })
-          .filter(Boolean)
-          .sort((a, b) => a.distance - b.distance);
+      res.json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
       }
+      payload.logger.error('Medical record update error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update medical record entry',
+      });
     }
+  }
+);
+
+// Prescriptions of the dog (owner, vets who have seen it, grantees with read_medical)
+router.get('/dogs/:dogId/prescriptions', authenticateUser, async (req, res) => {
+  try {
+    const prescriptions = await req.app.locals.services.medicalRecord.getPrescriptions(req.params.dogId, req.user);
 
     res.json({
       success: true,
-      veterinarians: results,
-      totalDocs: results.length,
-      page: Number(page),
-      limit: Number(limit),
+      prescriptions,
     });
   } catch (error) {
-    payload.logger.error('Veterinarian search error:', error);
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Dog prescriptions fetch error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to search veterinarians',
+      error: 'Failed to fetch prescriptions',
     });
   }
 });
 
-// Get veterinarian availability
-router.get('/veterinarians/:id/availability', async (req, res) => {
+// Documents of the dog (owner, grantees with read_documents)
+router.get('/dogs/:dogId/documents', authenticateUser, async (req, res) => {
   try {
-    const { id } = req.params;
-    const { date } = req.query;
-
-    if (!date) {
-      return res.status(400).json({
-        success: false,
-        error: 'Date parameter is required',
-      });
-    }
+    const documents = await req.app.locals.services.medicalRecord.getDocuments(req.params.dogId, req.user);
 
-    const veterinarian = await payload.findByID({
-      collection: 'veterinarians',
-      id,
+    res.json({
+      success: true,
+      documents,
     });
-
-    if (!veterinarian) {
-      return res.status(404).json({
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
         success: false,
-        error: 'Veterinarian not found',
+        error: error.message,
+        code: error.code,
       });
     }
+    payload.logger.error('Dog documents fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch documents',
+    });
+  }
+});
 
-    // Get available slots using database utility
-    const { db } = await import('@doggo/database');
-    const availableSlots = await db.getVeterinarianAvailability(
-      id,
-      new Date(date as string)
-    );
+// Owner lists who the record is shared with
+router.get('/dogs/:dogId/access-grants', authenticateUser, async (req, res) => {
+  try {
+    const grants = await req.app.locals.services.medicalRecord.listGrants(req.params.dogId, req.user);
 
     res.json({
       success: true,
-      date,
-      availableSlots,
-      workingHours: veterinarian.workingHours,
+      grants,
     });
   } catch (error) {
-    payload.logger.error('Availability check error:', error);
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Access grants fetch error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to check availability',
+      error: 'Failed to fetch access grants',
     });
   }
 });
 
-// ===========================================
-// BOOKING ENDPOINTS
-// ===========================================
-
-// Create booking
-router.post('/bookings',
+// Owner shares the record with a vet, specialist or pet sitter until a given date
+router.post('/dogs/:dogId/access-grants',
   authenticateUser,
   validateRequest({
     body: Joi.object({
-      dogId: Joi.string().uuid().required(),
-      veterinarianId: Joi.string().uuid().required(),
-      type: Joi.string().valid('general', 'urgent', 'specialist', 'telemedicine').required(),
-      scheduledAt: Joi.date().greater('now').required(),
-      duration: Joi.number().min(15).max(180).default(30),
-      symptoms: Joi.string().max(1000).optional(),
-      triageResponses: Joi.array().items(Joi.object({
-        questionId: Joi.string().required(),
-        answer: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required(),
-      })).optional(),
+      granteeEmail: Joi.string().email().required(),
+      scopes: Joi.array().items(Joi.string().valid('read_medical', 'read_documents', 'write_notes')).min(1).required(),
+      expiresAt: Joi.date().greater('now').required(),
+      note: Joi.string().max(500).optional(),
     }),
   }),
   async (req, res) => {
     try {
-      const { dogId, veterinarianId, type, scheduledAt, duration, symptoms, triageResponses } = req.body;
+      const grant = await req.app.locals.services.medicalRecord.createGrant(req.params.dogId, req.user, req.body);
 
-      // Verify dog ownership
-      const dog = await payload.findByID({
-        collection: 'dogs',
-        id: dogId,
+      res.status(201).json({
+        success: true,
+        grant,
       });
-
-      if (dog.owner !== req.user.id) {
-        return res.status(403).json({
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
           success: false,
-          error: 'Access denied',
+          error: error.message,
+          code: error.code,
         });
       }
-
-      // Verify veterinarian exists and is available
-      const veterinarian = await payload.findByID({
-        collection: 'veterinarians',
-        id: veterinarianId,
+      payload.logger.error('Access grant creation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to share medical record',
       });
+    }
+  }
+);
 
-      if (!veterinarian || !veterinarian.isAcceptingPatients) {
-        return res.status(400).json({
-          success: false,
-          error: 'Veterinarian not available',
+// Owner revokes a grant; it stops working immediately
+router.post('/dogs/:dogId/access-grants/:grantId/revoke', authenticateUser, async (req, res) => {
+  try {
+    const grant = await req.app.locals.services.medicalRecord.revokeGrant(req.params.dogId, req.params.grantId, req.user);
+
+    res.json({
+      success: true,
+      grant,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Access grant revocation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke access grant',
+    });
+  }
+});
+
+// Owner sees who accessed the record and when
+router.get('/dogs/:dogId/access-log', authenticateUser, async (req, res) => {
+  try {
+    const { limit = 100 } = req.query;
+    const log = await req.app.locals.services.medicalRecord.getAccessLog(
+      req.params.dogId,
+      req.user,
+      Math.min(parseInt(limit as string) || 100, 500)
+    );
+
+    res.json({
+      success: true,
+      log,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Access log fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch access log',
+    });
+  }
+});
+
+// Records other owners currently share with the user
+router.get('/access-grants/received', authenticateUser, async (req, res) => {
+  try {
+    const grants = await req.app.locals.services.medicalRecord.getReceivedGrants(req.user);
+
+    res.json({
+      success: true,
+      grants,
+    });
+  } catch (error) {
+    payload.logger.error('Received grants fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch shared records',
+    });
+  }
+});
+
+// Due and overdue vaccinations from the birth date and the doses in the medical record
+router.get('/dogs/:dogId/vaccinations', authenticateUser, async (req, res) => {
+  try {
+    const result = await req.app.locals.services.vaccination.getSchedule(req.params.dogId, req.user);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Vaccination schedule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch vaccination schedule',
+    });
+  }
+});
+
+// Signed vaccination certificate as PDF
+router.get('/dogs/:dogId/vaccination-certificate', authenticateUser, async (req, res) => {
+  try {
+    const { filename, content } = await req.app.locals.services.vaccination.generateCertificate(req.params.dogId, req.user);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(content);
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Vaccination certificate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate vaccination certificate',
+    });
+  }
+});
+
+// Check the signature of a scanned vaccination certificate QR code
+router.post('/vaccination-certificates/verify',
+  validateRequest({
+    body: Joi.object({
+      qrCode: Joi.string().max(8000).required(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const verification = req.app.locals.services.vaccination.verifyCertificate(req.body.qrCode);
+
+      res.json({
+        success: true,
+        verification,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Vaccination certificate verification error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify vaccination certificate',
+      });
+    }
+  }
+);
+
+// ===========================================
+// VETERINARIAN SEARCH ENDPOINTS
+// ===========================================
+
+// Search veterinarians
+router.get('/veterinarians/search', async (req, res) => {
+  try {
+    const {
+      location,
+      radius = 50,
+      specializations,
+      availableDate,
+      minRating = 0,
+      maxFee,
+      telemedicine,
+      groupBy, // 'clinic' returns practices with their matching vets
+      limit = 20,
+      page = 1,
+    } = req.query;
+
+    let where: any = {
+      isVerified: { equals: true },
+      isAcceptingPatients: { equals: true },
+    };
+
+    // Filter by specializations
+    if (specializations) {
+      const specs = Array.isArray(specializations) ? specializations : [specializations];
+      where.specializations = { in: specs };
+    }
+
+    // Filter by rating
+    if (minRating && Number(minRating) > 0) {
+      where.rating = { greater_than_equal: Number(minRating) };
+    }
+
+    // Filter by consultation fee
+    if (maxFee && Number(maxFee) > 0) {
+      where.consultationFee = { less_than_equal: Number(maxFee) };
+    }
+
+    // Filter by telemedicine availability
+    if (telemedicine === 'true') {
+      where.servicesOffered = { in: ['telemedicine'] };
+    }
+
+    const veterinarians = await payload.find({
+      collection: 'veterinarians',
+      where,
+      populate: ['user'],
+      limit: Number(limit),
+      page: Number(page),
+      sort: '-rating',
+    });
+
+    // Apply location filtering if provided
+    let results = veterinarians.docs;
+
+    // Exclude veterinarians who are closed, on holiday or fully booked on the requested date
+    if (availableDate) {
+      const { db } = await import('@doggo/database');
+      const date = new Date(availableDate as string);
+      const availability = await Promise.all(
+        results.map(vet => db.getVeterinarianAvailability(vet.id, date))
+      );
+      results = results.filter((_, index) => availability[index].length > 0);
+    }
+    if (location && typeof location === 'string') {
+      const [lat, lng] = location.split(',').map(Number);
+      if (lat && lng) {
+        const { GeoUtils } = await import('@doggo/utils');
+        results = results
+          .map(vet => {
+            if (!vet.clinicAddress?.coordinates) return null;
+            const distance = GeoUtils.calculateDistance(
+              { latitude: lat, longitude: lng },
+              vet.clinicAddress.coordinates
+            );
+            return distance <= Number(radius) ? { ...vet, distance } : null;
+          })
+          .filter(Boolean)
+          .sort((a, b) => a.distance - b.distance);
+      }
+    }
+
+    if (groupBy === 'clinic') {
+      const grouped = req.app.locals.services.clinic.groupByClinic(results);
+      return res.json({
+        success: true,
+        clinics: grouped.clinics,
+        veterinarians: grouped.veterinarians,
+        totalDocs: results.length,
+        page: Number(page),
+        limit: Number(limit),
+      });
+    }
+
+    res.json({
+      success: true,
+      veterinarians: results,
+      totalDocs: results.length,
+      page: Number(page),
+      limit: Number(limit),
+    });
+  } catch (error) {
+    payload.logger.error('Veterinarian search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search veterinarians',
+    });
+  }
+});
+
+// Get veterinarian availability
+router.get('/veterinarians/:id/availability', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { date, type, service, holdId } = req.query;
+
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Date parameter is required',
+      });
+    }
+
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id,
+    });
+
+    if (!veterinarian) {
+      return res.status(404).json({
+        success: false,
+        error: 'Veterinarian not found',
+      });
+    }
+
+    // Get available slots sized for the requested booking type
+    const { db } = await import('@doggo/database');
+    const { SchedulingUtils } = await import('@doggo/utils');
+    const slotDuration = SchedulingUtils.getSlotDuration(type as string, veterinarian.slotSettings);
+    const slots = await db.getVeterinarianAvailability(
+      id,
+      new Date(date as string),
+      { bookingType: type as string, service: service as string }
+    );
+
+    // Hide slots another user is currently holding
+    const slotHoldService = req.app.locals.services.slotHold;
+    const availableSlots = await slotHoldService.filterHeldSlots(
+      id,
+      new Date(date as string),
+      slots,
+      slotDuration,
+      holdId as string
+    );
+
+    res.json({
+      success: true,
+      date,
+      availableSlots,
+      slotDuration,
+      workingHours: veterinarian.workingHours,
+    });
+  } catch (error) {
+    payload.logger.error('Availability check error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check availability',
+    });
+  }
+});
+
+// Get veterinarian time-off and public holidays in a date range
+router.get('/veterinarians/:id/time-off', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const from = req.query.from ? new Date(req.query.from as string) : new Date();
+    const to = req.query.to
+      ? new Date(req.query.to as string)
+      : new Date(from.getTime() + 90 * 24 * 60 * 60 * 1000);
+
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id,
+    });
+
+    if (!veterinarian) {
+      return res.status(404).json({
+        success: false,
+        error: 'Veterinarian not found',
+      });
+    }
+
+    const timeOff = await payload.find({
+      collection: 'veterinarian-time-off',
+      where: {
+        veterinarian: { equals: id },
+        startDate: { less_than_equal: to.toISOString() },
+        endDate: { greater_than_equal: from.toISOString() },
+      },
+      sort: 'startDate',
+      limit: 100,
+    });
+
+    let holidays: Array<{ date: Date; name: string }> = [];
+    if (veterinarian.observesPublicHolidays !== false) {
+      const { SchedulingUtils } = await import('@doggo/utils');
+      for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+        holidays.push(...SchedulingUtils.getItalianPublicHolidays(year));
+      }
+      holidays = holidays.filter(holiday => holiday.date >= from && holiday.date <= to);
+    }
+
+    res.json({
+      success: true,
+      timeOff: timeOff.docs,
+      holidays,
+    });
+  } catch (error) {
+    payload.logger.error('Time-off fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch time-off',
+    });
+  }
+});
+
+// Add time-off (vacation, conference, sick leave, closure)
+router.post('/veterinarians/:id/time-off',
+  authenticateUser,
+  requireVeterinarianCalendarAccess,
+  validateRequest({
+    body: Joi.object({
+      type: Joi.string().valid('vacation', 'conference', 'sick_leave', 'closure', 'other').default('vacation'),
+      startDate: Joi.date().required(),
+      endDate: Joi.date().greater(Joi.ref('startDate')).required(),
+      reason: Joi.string().max(500).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { type, startDate, endDate, reason } = req.body;
+
+      // Conflicting bookings are flagged by the collection's afterChange hook
+      const timeOff = await payload.create({
+        collection: 'veterinarian-time-off',
+        data: {
+          veterinarian: id,
+          type,
+          startDate,
+          endDate,
+          reason,
+        },
+      });
+
+      const conflicts = await payload.find({
+        collection: 'bookings',
+        where: {
+          veterinarian: { equals: id },
+          requiresReschedule: { equals: true },
+          status: { in: ['pending', 'confirmed'] },
+        },
+        sort: 'scheduledAt',
+        limit: 100,
+      });
+
+      res.status(201).json({
+        success: true,
+        timeOff,
+        conflictingBookings: conflicts.docs,
+      });
+    } catch (error) {
+      payload.logger.error('Time-off creation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create time-off',
+      });
+    }
+  }
+);
+
+// Remove time-off
+router.delete('/veterinarians/:id/time-off/:timeOffId',
+  authenticateUser,
+  requireVeterinarianCalendarAccess,
+  async (req, res) => {
+    try {
+      const { id, timeOffId } = req.params;
+
+      const timeOff = await payload.findByID({
+        collection: 'veterinarian-time-off',
+        id: timeOffId,
+      });
+
+      const timeOffVetId = timeOff?.veterinarian?.id || timeOff?.veterinarian;
+      if (!timeOff || timeOffVetId !== id) {
+        return res.status(404).json({
+          success: false,
+          error: 'Time-off not found',
+        });
+      }
+
+      await payload.delete({
+        collection: 'veterinarian-time-off',
+        id: timeOffId,
+      });
+
+      res.json({
+        success: true,
+        message: 'Time-off removed',
+      });
+    } catch (error) {
+      payload.logger.error('Time-off deletion error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove time-off',
+      });
+    }
+  }
+);
+
+// Bookings flagged because they clash with the veterinarian's time-off
+router.get('/veterinarians/:id/bookings/conflicts',
+  authenticateUser,
+  requireVeterinarianCalendarAccess,
+  async (req, res) => {
+    try {
+      const bookings = await payload.find({
+        collection: 'bookings',
+        where: {
+          veterinarian: { equals: req.params.id },
+          requiresReschedule: { equals: true },
+          status: { in: ['pending', 'confirmed'] },
+        },
+        populate: ['user', 'dog'],
+        sort: 'scheduledAt',
+        limit: 100,
+      });
+
+      res.json({
+        success: true,
+        bookings: bookings.docs,
+      });
+    } catch (error) {
+      payload.logger.error('Booking conflicts fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch booking conflicts',
+      });
+    }
+  }
+);
+
+// Patients whose follow-up date has passed without a visit booked
+router.get('/veterinarians/:id/follow-ups/overdue',
+  authenticateUser,
+  requireVeterinarianCalendarAccess,
+  async (req, res) => {
+    try {
+      const bookingService = req.app.locals.services.booking;
+      const bookings = await bookingService.getOverdueFollowUps(req.params.id);
+
+      res.json({
+        success: true,
+        bookings,
+      });
+    } catch (error) {
+      payload.logger.error('Overdue follow-ups fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch overdue follow-ups',
+      });
+    }
+  }
+);
+
+// ===========================================
+// CLINIC ENDPOINTS
+// ===========================================
+
+// Clinics near a location with their bookable veterinarians
+router.get('/clinics/nearby', async (req, res) => {
+  try {
+    const { location, radius = 50 } = req.query;
+    const [lat, lng] = typeof location === 'string' ? location.split(',').map(Number) : [];
+
+    if (!lat || !lng) {
+      return res.status(400).json({
+        success: false,
+        error: 'Location (lat,lng) is required',
+      });
+    }
+
+    const { db } = await import('@doggo/database');
+    const clinics = await db.findNearbyClinics(lat, lng, Number(radius));
+
+    res.json({
+      success: true,
+      clinics,
+    });
+  } catch (error) {
+    payload.logger.error('Nearby clinics error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to find nearby clinics',
+    });
+  }
+});
+
+router.get('/clinics/:id', async (req, res) => {
+  try {
+    const clinicService = req.app.locals.services.clinic;
+    const clinic = await clinicService.getClinic(req.params.id);
+    const veterinarians = await clinicService.getVeterinarians(clinic.id, { bookableOnly: true });
+
+    res.json({
+      success: true,
+      clinic,
+      veterinarians,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Clinic fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch clinic',
+    });
+  }
+});
+
+// Free times across all the clinic's vets, for "any available vet" bookings
+router.get('/clinics/:id/availability', async (req, res) => {
+  try {
+    const { date, type = 'general', service } = req.query;
+
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Date parameter is required',
+      });
+    }
+
+    const slots = await req.app.locals.services.clinic.getAvailability(
+      req.params.id,
+      new Date(date as string),
+      type as string,
+      service as string
+    );
+
+    res.json({
+      success: true,
+      date,
+      type,
+      slots,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Clinic availability error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch clinic availability',
+    });
+  }
+});
+
+// Shared calendar of every vet in the clinic (clinic administrators)
+router.get('/clinics/:id/calendar', authenticateUser, async (req, res) => {
+  try {
+    const from = req.query.from ? new Date(req.query.from as string) : new Date();
+    const to = req.query.to
+      ? new Date(req.query.to as string)
+      : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    const bookings = await req.app.locals.services.clinic.getCalendar(req.params.id, req.user, from, to);
+
+    res.json({
+      success: true,
+      bookings,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Clinic calendar error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch clinic calendar',
+    });
+  }
+});
+
+router.post('/clinics/:id/veterinarians',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      veterinarianId: Joi.string().uuid().required(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const veterinarian = await req.app.locals.services.clinic.addVeterinarian(
+        req.params.id,
+        req.body.veterinarianId,
+        req.user
+      );
+
+      res.status(201).json({
+        success: true,
+        veterinarian,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Clinic veterinarian add error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add veterinarian to clinic',
+      });
+    }
+  }
+);
+
+router.delete('/clinics/:id/veterinarians/:veterinarianId', authenticateUser, async (req, res) => {
+  try {
+    await req.app.locals.services.clinic.removeVeterinarian(req.params.id, req.params.veterinarianId, req.user);
+
+    res.json({
+      success: true,
+      message: 'Veterinarian removed from clinic',
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Clinic veterinarian removal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove veterinarian from clinic',
+    });
+  }
+});
+
+// ===========================================
+// BOOKING ENDPOINTS
+// ===========================================
+
+// Hold a slot while the user completes triage and payment
+router.post('/bookings/holds',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      veterinarianId: Joi.string().uuid().required(),
+      type: Joi.string().valid('general', 'urgent', 'specialist', 'telemedicine', 'surgery').required(),
+      service: Joi.string().valid('home_visits', 'emergency_24_7', 'surgery', 'imaging', 'laboratory', 'hospitalization', 'grooming', 'vaccinations', 'microchipping').optional(),
+      scheduledAt: Joi.date().greater('now').required(),
+      duration: Joi.number().min(15).max(480).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { veterinarianId, type, service, scheduledAt, duration } = req.body;
+
+      const veterinarian = await payload.findByID({
+        collection: 'veterinarians',
+        id: veterinarianId,
+      });
+
+      if (!veterinarian || !veterinarian.isAcceptingPatients) {
+        return res.status(400).json({
+          success: false,
+          error: 'Veterinarian not available',
+        });
+      }
+
+      const { SchedulingUtils } = await import('@doggo/utils');
+      const slotDuration = SchedulingUtils.getSlotDuration(type, veterinarian.slotSettings);
+
+      // A visit may run longer than the vet's slot for its type, never shorter
+      if (duration && duration < slotDuration) {
+        return res.status(400).json({
+          success: false,
+          error: `A ${type} visit with this veterinarian takes at least ${slotDuration} minutes`,
+          code: 'DURATION_TOO_SHORT',
+        });
+      }
+      const holdDuration = duration || slotDuration;
+
+      const slotHoldService = req.app.locals.services.slotHold;
+      const hold = await slotHoldService.acquireHold({
+        veterinarianId,
+        userId: req.user.id,
+        scheduledAt: new Date(scheduledAt),
+        duration: holdDuration,
+        bufferMinutes: veterinarian.slotSettings?.bufferMinutes,
+        type,
+      });
+
+      if (!hold) {
+        return res.status(409).json({
+          success: false,
+          error: 'Time slot is being booked by another user',
+          code: 'SLOT_HELD',
+        });
+      }
+
+      // Holding the lock, make sure the slot is not already taken by a booking
+      const { db } = await import('@doggo/database');
+      const availableSlots = await db.getVeterinarianAvailability(
+        veterinarianId,
+        new Date(scheduledAt),
+        { bookingType: type, service, duration: holdDuration }
+      );
+
+      const requestedTime = new Date(scheduledAt).toTimeString().substr(0, 5);
+      if (!availableSlots.includes(requestedTime)) {
+        await slotHoldService.releaseHold(hold.id);
+        return res.status(409).json({
+          success: false,
+          error: 'Time slot not available',
+          code: 'SLOT_UNAVAILABLE',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        hold,
+      });
+    } catch (error) {
+      payload.logger.error('Slot hold error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to hold time slot',
+      });
+    }
+  }
+);
+
+// Release a slot hold
+router.delete('/bookings/holds/:holdId', authenticateUser, async (req, res) => {
+  try {
+    const slotHoldService = req.app.locals.services.slotHold;
+    const hold = await slotHoldService.getHold(req.params.holdId);
+
+    if (!hold) {
+      return res.status(404).json({
+        success: false,
+        error: 'Hold not found or expired',
+      });
+    }
+
+    if (hold.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+
+    await slotHoldService.releaseHold(hold.id);
+
+    res.json({
+      success: true,
+      message: 'Hold released',
+    });
+  } catch (error) {
+    payload.logger.error('Slot hold release error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to release hold',
+    });
+  }
+});
+
+// Create booking
+router.post('/bookings',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      dogId: Joi.string().uuid().required(),
+      veterinarianId: Joi.string().uuid(),
+      clinicId: Joi.string().uuid(), // Book any available vet at the clinic
+      type: Joi.string().valid('general', 'urgent', 'specialist', 'telemedicine', 'surgery').required(),
+      service: Joi.string().valid('home_visits', 'emergency_24_7', 'surgery', 'imaging', 'laboratory', 'hospitalization', 'grooming', 'vaccinations', 'microchipping').optional(),
+      scheduledAt: Joi.date().greater('now').required(),
+      duration: Joi.number().min(15).max(480).optional(),
+      holdId: Joi.string().uuid().optional().when('clinicId', { is: Joi.exist(), then: Joi.forbidden() }),
+      symptoms: Joi.string().max(1000).optional(),
+      triageResponses: Joi.array().items(Joi.object({
+        questionId: Joi.string().required(),
+        answer: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required(),
+      })).optional(),
+      triageSessionId: Joi.string().uuid().optional(), // Finished adaptive triage, instead of triageResponses
+      // Turns the booking into a recurring series starting on scheduledAt
+      recurrence: Joi.object({
+        frequency: Joi.string().valid('weekly', 'biweekly', 'monthly').required(),
+        count: Joi.number().integer().min(2).max(52),
+        until: Joi.date().greater(Joi.ref('...scheduledAt')),
+        preferredTime: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).optional(),
+      }).xor('count', 'until').optional(),
+      skipConflicts: Joi.boolean().default(false),
+      followUpOf: Joi.string().uuid().optional(), // Consultation this visit is the follow-up of
+      // Settle at the clinic instead of paying online; recurring series are always paid upfront
+      payAtVisit: Joi.boolean().default(false).when('recurrence', { is: Joi.exist(), then: Joi.valid(false) }),
+    }).xor('veterinarianId', 'clinicId').oxor('triageResponses', 'triageSessionId'),
+  }),
+  async (req, res) => {
+    try {
+      const { dogId, clinicId, type, service, scheduledAt, duration, holdId, symptoms, triageResponses, triageSessionId, recurrence, skipConflicts, followUpOf, payAtVisit } = req.body;
+      let { veterinarianId } = req.body;
+
+      // Verify dog ownership
+      const dog = await payload.findByID({
+        collection: 'dogs',
+        id: dogId,
+      });
+
+      if (dog.owner !== req.user.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+      }
+
+      // The follow-up status of the original consultation is updated from this booking
+      if (followUpOf) {
+        await req.app.locals.services.booking.assertFollowUpOrigin(followUpOf, req.user.id, dogId);
+      }
+
+      // Any available vet: the clinic assigns the least busy vet free at that time
+      if (clinicId) {
+        const assigned = await req.app.locals.services.clinic.assignVeterinarian(clinicId, new Date(scheduledAt), type, service);
+
+        if (!assigned) {
+          return res.status(409).json({
+            success: false,
+            error: 'No veterinarian available at this clinic for the selected time',
+            code: 'SLOT_UNAVAILABLE',
+          });
+        }
+
+        veterinarianId = assigned.id;
+      }
+
+      // Verify veterinarian exists and is available
+      const veterinarian = await payload.findByID({
+        collection: 'veterinarians',
+        id: veterinarianId,
+      });
+
+      if (!veterinarian || !veterinarian.isAcceptingPatients) {
+        return res.status(400).json({
+          success: false,
+          error: 'Veterinarian not available',
+        });
+      }
+
+      const { db } = await import('@doggo/database');
+      const { SchedulingUtils, TriageSystem } = await import('@doggo/utils');
+      const slotDuration = SchedulingUtils.getSlotDuration(type, veterinarian.slotSettings);
+
+      // A visit may run longer than the vet's slot for its type, never shorter
+      if (duration && duration < slotDuration) {
+        return res.status(400).json({
+          success: false,
+          error: `A ${type} visit with this veterinarian takes at least ${slotDuration} minutes`,
+          code: 'DURATION_TOO_SHORT',
+        });
+      }
+      const bookingDuration = duration || slotDuration;
+      const bookingService = req.app.locals.services.booking;
+
+      // Calculate triage score from a finished triage session or the responses provided
+      let urgencyScore = 1;
+      let triageNotes = '';
+      let triageVersion;
+      let triagePath;
+
+      const triageService = req.app.locals.services.triage;
+      const triage = triageSessionId
+        ? await triageService.getSessionOutcome(triageSessionId, req.user, dog)
+        : triageResponses && triageResponses.length > 0
+          ? await triageService.scoreResponses(triageResponses, triageService.toDogProfile(dog))
+          : null;
+
+      if (triage) {
+        urgencyScore = Math.ceil(triage.result.score / 10); // Convert to 1-10 scale
+        triageNotes = `Triage score: ${triage.result.score}%. Urgency: ${triage.result.urgencyLevel}`;
+        if (triage.result.modifiers?.length) {
+          triageNotes += `. Risk factors: ${triage.result.modifiers.map(modifier => `${modifier.label} (+${modifier.scoreChange})`).join(', ')}`;
+        }
+        triageVersion = triage.result.questionnaireVersion;
+        triagePath = triage.path;
+      }
+
+      // Tell the owner when the visit booked is not what triage advised
+      const triageGuidance = triage?.result.recommendation && {
+        recommendation: triage.result.recommendation,
+        warnings: TriageSystem.checkBookingAgainstRecommendation(triage.result.recommendation, { type, scheduledAt }),
+      };
+
+      if (recurrence) {
+        const firstDate = new Date(scheduledAt);
+        const preferredTime = recurrence.preferredTime || firstDate.toTimeString().substr(0, 5);
+        const dates = SchedulingUtils.generateRecurrence({
+          startDate: firstDate,
+          frequency: recurrence.frequency,
+          preferredTime,
+          count: recurrence.count,
+          until: recurrence.until,
+        });
+
+        const series = await bookingService.createBookingSeries({
+          user: req.user,
+          dogId,
+          veterinarian,
+          type,
+          service,
+          duration: bookingDuration,
+          dates,
+          recurrence: { ...recurrence, preferredTime },
+          symptoms,
+          urgencyScore,
+          triageNotes,
+          triageVersion,
+          triagePath,
+          skipConflicts,
+        });
+
+        return res.status(201).json({
+          success: true,
+          seriesId: series.seriesId,
+          bookings: series.bookings,
+          conflicts: series.conflicts,
+          triage: triageGuidance,
+          paymentIntent: {
+            clientSecret: series.paymentIntent.client_secret,
+            amount: series.paymentIntent.amount / 100,
+          },
+        });
+      }
+
+      // Owners with repeated no-shows may have to pay a deposit or the full cost online
+      const totalCost = bookingService.calculateTotalCost(type, veterinarian);
+      const paymentRequirement = await bookingService.getPaymentRequirement(req.user.id, veterinarian, totalCost, payAtVisit);
+      const payingAtVisit = paymentRequirement.option === 'at_visit';
+
+      // Reserve the slot: reuse the user's hold or take one now, so the
+      // availability check and the insert below cannot interleave with another request
+      const slotHoldService = req.app.locals.services.slotHold;
+      let hold;
+
+      if (holdId) {
+        hold = await slotHoldService.getHold(holdId);
+
+        if (!hold) {
+          return res.status(409).json({
+            success: false,
+            error: 'Slot hold expired, please select the time again',
+            code: 'HOLD_EXPIRED',
+          });
+        }
+
+        if (
+          hold.userId !== req.user.id ||
+          hold.veterinarianId !== veterinarianId ||
+          new Date(hold.scheduledAt).getTime() !== new Date(scheduledAt).getTime() ||
+          hold.duration < bookingDuration
+        ) {
+          return res.status(409).json({
+            success: false,
+            error: 'Slot hold does not match this booking',
+            code: 'HOLD_MISMATCH',
+          });
+        }
+      } else {
+        hold = await slotHoldService.acquireHold({
+          veterinarianId,
+          userId: req.user.id,
+          scheduledAt: new Date(scheduledAt),
+          duration: bookingDuration,
+          bufferMinutes: veterinarian.slotSettings?.bufferMinutes,
+          type,
+        });
+
+        if (!hold) {
+          return res.status(409).json({
+            success: false,
+            error: 'Time slot is being booked by another user',
+            code: 'SLOT_HELD',
+          });
+        }
+      }
+
+      // Check time slot availability for the duration of this booking type
+      const availableSlots = await db.getVeterinarianAvailability(
+        veterinarianId,
+        new Date(scheduledAt),
+        { bookingType: type, service, duration: bookingDuration }
+      );
+
+      const requestedTime = new Date(scheduledAt).toTimeString().substr(0, 5);
+      if (!availableSlots.includes(requestedTime)) {
+        await slotHoldService.releaseHold(hold.id);
+        return res.status(409).json({
+          success: false,
+          error: 'Time slot not available',
+          code: 'SLOT_UNAVAILABLE',
+        });
+      }
+
+      // Create booking; once stored the pending booking itself blocks the slot
+      // until it is paid (confirmed) or its payment window passes (cancelled).
+      // Nothing is due online when paying at the visit, so it is confirmed right away
+      const paymentWindowMinutes = parseInt(process.env.BOOKING_PAYMENT_WINDOW_MINUTES || '15');
+      let booking;
+      try {
+        // Rooms and equipment are shared with the clinic's other vets
+        const resources = await bookingService.reserveResources(hold, {
+          veterinarianId,
+          scheduledAt: new Date(scheduledAt),
+          duration: bookingDuration,
+          type,
+          service,
+        });
+
+        booking = await payload.create({
+          collection: 'bookings',
+          data: {
+            user: req.user.id,
+            dog: dogId,
+            veterinarian: veterinarianId,
+            type,
+            service,
+            scheduledAt,
+            duration: bookingDuration,
+            resources,
+            symptoms,
+            urgencyScore,
+            triageNotes,
+            triageVersion,
+            triagePath,
+            totalCost,
+            status: payingAtVisit ? 'confirmed' : 'pending',
+            paymentStatus: 'pending',
+            paymentOption: paymentRequirement.option,
+            depositAmount: paymentRequirement.option === 'deposit' ? paymentRequirement.amountDue : undefined,
+            holdExpiresAt: payingAtVisit ? undefined : new Date(Date.now() + paymentWindowMinutes * 60000).toISOString(),
+            followUpOf,
+          },
+        });
+      } finally {
+        await slotHoldService.releaseHold(hold.id);
+      }
+
+      // The hold came from a waitlist offer, so the owner is off the list
+      if (hold.waitlistEntryId) {
+        await req.app.locals.services.waitlist.markBooked(hold.waitlistEntryId, booking.id)
+          .catch(error => payload.logger.warn('Failed to close waitlist entry:', error));
+      }
+
+      if (payingAtVisit) {
+        try {
+          const confirmedBooking = await bookingService.getBooking(booking.id);
+          await req.app.locals.services.email.sendBookingConfirmation(
+            confirmedBooking,
+            confirmedBooking.user,
+            confirmedBooking.dog,
+            confirmedBooking.veterinarian
+          );
+        } catch (error) {
+          payload.logger.warn('Failed to send booking confirmation:', error);
+        }
+
+        return res.status(201).json({
+          success: true,
+          booking,
+          paymentIntent: null,
+          triage: triageGuidance,
+        });
+      }
+
+      // Create payment intent
+      const paymentService = req.app.locals.services.payment;
+      const paymentIntent = await paymentService.createBookingPayment(booking, req.user);
+
+      res.status(201).json({
+        success: true,
+        booking,
+        paymentIntent: {
+          clientSecret: paymentIntent.client_secret,
+          amount: paymentRequirement.amountDue,
+        },
+        triage: triageGuidance,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Booking creation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create booking',
+      });
+    }
+  }
+);
+
+// Get user bookings
+router.get('/bookings', authenticateUser, async (req, res) => {
+  try {
+    const { status, upcoming, limit = 20, page = 1 } = req.query;
+
+    let where: any = {
+      user: { equals: req.user.id },
+    };
+
+    if (status) {
+      where.status = { equals: status };
+    }
+
+    if (upcoming === 'true') {
+      where.scheduledAt = { greater_than: new Date().toISOString() };
+      where.status = { in: ['pending', 'confirmed'] };
+    }
+
+    const bookings = await payload.find({
+      collection: 'bookings',
+      where,
+      populate: ['dog', 'veterinarian'],
+      sort: upcoming === 'true' ? 'scheduledAt' : '-scheduledAt',
+      limit: Number(limit),
+      page: Number(page),
+    });
+
+    res.json({
+      success: true,
+      bookings: bookings.docs,
+      pagination: {
+        totalDocs: bookings.totalDocs,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: bookings.totalPages,
+      },
+    });
+  } catch (error) {
+    payload.logger.error('Bookings fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch bookings',
+    });
+  }
+});
+
+// Preview the refund the cancellation policy would give right now
+router.get('/bookings/:id/cancellation-quote', authenticateUser, requireBookingAccess, async (req, res) => {
+  try {
+    const bookingService = req.app.locals.services.booking;
+    const booking = await bookingService.getBooking(req.params.id);
+    const quote = bookingService.getCancellationQuote(booking, req.user);
+
+    res.json({
+      success: true,
+      quote,
+      policy: booking.veterinarian?.cancellationPolicy || null,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Cancellation quote error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute cancellation quote',
+    });
+  }
+});
+
+// Cancel a booking and refund according to the veterinarian's policy
+router.post('/bookings/:id/cancel',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      reason: Joi.string().valid('client_request', 'vet_unavailable', 'emergency', 'technical_issues', 'other').optional(),
+      notes: Joi.string().max(1000).optional(),
+      scope: Joi.string().valid('this', 'following', 'all').default('this'), // Recurring series only
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const bookingService = req.app.locals.services.booking;
+      const options = {
+        reason: req.body.reason,
+        notes: req.body.notes,
+      };
+
+      if (req.body.scope !== 'this') {
+        const results = await bookingService.cancelSeries(req.params.id, req.user, req.body.scope, options);
+        return res.json({
+          success: true,
+          results,
+        });
+      }
+
+      const { booking, refund } = await bookingService.cancelBooking(req.params.id, req.user, options);
+
+      res.json({
+        success: true,
+        booking,
+        refund,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Booking cancellation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel booking',
+      });
+    }
+  }
+);
+
+// Veterinarian records the owner's arrival; bookings without a check-in become no-shows
+router.post('/bookings/:id/check-in', authenticateUser, async (req, res) => {
+  try {
+    const booking = await req.app.locals.services.booking.checkIn(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      booking,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Booking check-in error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check in booking',
+    });
+  }
+});
+
+// Veterinarian corrects the urgency computed by triage; every change is audited
+router.post('/bookings/:id/urgency',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      urgencyScore: Joi.number().integer().min(1).max(10).required(),
+      reason: Joi.string().min(3).max(500).required(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const booking = await req.app.locals.services.booking.overrideUrgency(req.params.id, req.user, req.body);
+
+      res.json({
+        success: true,
+        booking,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Urgency override error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update booking urgency',
+      });
+    }
+  }
+);
+
+// Owner confirms a provisional follow-up visit by paying for it
+router.post('/bookings/:id/follow-up/confirm', authenticateUser, async (req, res) => {
+  try {
+    const bookingService = req.app.locals.services.booking;
+    const { booking, paymentIntent } = await bookingService.confirmFollowUp(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      booking,
+      paymentIntent: {
+        clientSecret: paymentIntent.client_secret,
+        amount: booking.totalCost,
+      },
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Follow-up confirmation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm follow-up',
+    });
+  }
+});
+
+// Owner turns down a provisional follow-up visit
+router.post('/bookings/:id/follow-up/decline', authenticateUser, async (req, res) => {
+  try {
+    const bookingService = req.app.locals.services.booking;
+    const booking = await bookingService.declineFollowUp(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      booking,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Follow-up decline error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to decline follow-up',
+    });
+  }
+});
+
+// Reschedule a booking (owner, veterinarian or admin)
+router.post('/bookings/:id/reschedule',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      scheduledAt: Joi.date().greater('now').required(),
+      reason: Joi.string().max(500).optional(),
+      scope: Joi.string().valid('this', 'following', 'all').default('this'), // Recurring series only
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const bookingService = req.app.locals.services.booking;
+
+      if (req.body.scope !== 'this') {
+        const results = await bookingService.rescheduleSeries(
+          req.params.id,
+          new Date(req.body.scheduledAt),
+          req.user,
+          req.body.scope,
+          { reason: req.body.reason }
+        );
+        return res.json({
+          success: true,
+          results,
+        });
+      }
+
+      const booking = await bookingService.rescheduleBooking(
+        req.params.id,
+        new Date(req.body.scheduledAt),
+        req.user,
+        { reason: req.body.reason }
+      );
+
+      res.json({
+        success: true,
+        booking,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Booking reschedule error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reschedule booking',
+      });
+    }
+  }
+);
+
+// Veterinarian proposes alternative slots for a booking
+router.post('/bookings/:id/reschedule/proposals',
+  authenticateUser,
+  requireRole(['veterinarian', 'admin']),
+  validateRequest({
+    body: Joi.object({
+      slots: Joi.array().items(Joi.date().greater('now')).min(1).max(5).required(),
+      message: Joi.string().max(500).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const bookingService = req.app.locals.services.booking;
+      const booking = await bookingService.proposeAlternativeSlots(
+        req.params.id,
+        req.body.slots.map((slot: string) => new Date(slot)),
+        req.user,
+        req.body.message
+      );
+
+      res.status(201).json({
+        success: true,
+        booking,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Reschedule proposal error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to propose new slots',
+      });
+    }
+  }
+);
+
+// Owner accepts one of the proposed slots or rejects the proposal
+router.post('/bookings/:id/reschedule/proposals/respond',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      action: Joi.string().valid('accept', 'reject').required(),
+      scheduledAt: Joi.date().when('action', { is: 'accept', then: Joi.required() }),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { action, scheduledAt } = req.body;
+      const bookingService = req.app.locals.services.booking;
+      const booking = await bookingService.respondToProposal(
+        req.params.id,
+        req.user,
+        action,
+        scheduledAt ? new Date(scheduledAt) : undefined
+      );
+
+      res.json({
+        success: true,
+        booking,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Reschedule proposal response error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to respond to proposal',
+      });
+    }
+  }
+);
+
+// ===========================================
+// WAITLIST ENDPOINTS
+// ===========================================
+
+// Join a veterinarian's waitlist for a date range
+router.post('/waitlist',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      dogId: Joi.string().uuid().required(),
+      veterinarianId: Joi.string().uuid().required(),
+      dateFrom: Joi.date().required(),
+      dateTo: Joi.date().min(Joi.ref('dateFrom')).greater('now').required(),
+      type: Joi.string().valid('general', 'urgent', 'specialist', 'telemedicine', 'surgery').optional(),
+      triageResponses: Joi.array().items(Joi.object({
+        questionId: Joi.string().required(),
+        answer: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required(),
+      })).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { dogId, veterinarianId, dateFrom, dateTo, type, triageResponses } = req.body;
+
+      const dog = await payload.findByID({
+        collection: 'dogs',
+        id: dogId,
+      });
+
+      if (dog.owner !== req.user.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied',
+        });
+      }
+
+      // Urgency comes from the triage answers, never straight from the client
+      let urgencyScore;
+      if (triageResponses && triageResponses.length > 0) {
+        const triageService = req.app.locals.services.triage;
+        const triageResult = await triageService.calculateTriageScore(triageResponses, undefined, triageService.toDogProfile(dog));
+        urgencyScore = Math.max(1, Math.ceil(triageResult.score / 10)); // Convert to 1-10 scale
+      }
+
+      const waitlistService = req.app.locals.services.waitlist;
+      const entry = await waitlistService.joinWaitlist(req.user, {
+        veterinarianId,
+        dogId,
+        dateFrom: new Date(dateFrom),
+        dateTo: new Date(dateTo),
+        type,
+        urgencyScore,
+      });
+
+      res.status(201).json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Waitlist join error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to join waitlist',
+      });
+    }
+  }
+);
+
+// Get the user's active waitlist entries, including pending offers
+router.get('/waitlist', authenticateUser, async (req, res) => {
+  try {
+    const entries = await payload.find({
+      collection: 'waitlist-entries',
+      where: {
+        user: { equals: req.user.id },
+        status: { in: ['waiting', 'offered'] },
+      },
+      populate: ['dog', 'veterinarian'],
+      sort: 'dateFrom',
+      limit: 50,
+    });
+
+    res.json({
+      success: true,
+      entries: entries.docs,
+    });
+  } catch (error) {
+    payload.logger.error('Waitlist fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch waitlist',
+    });
+  }
+});
+
+// Leave the waitlist (releases any slot currently offered)
+router.delete('/waitlist/:id', authenticateUser, async (req, res) => {
+  try {
+    const waitlistService = req.app.locals.services.waitlist;
+    const entry = await waitlistService.leaveWaitlist(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      entry,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Waitlist leave error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to leave waitlist',
+    });
+  }
+});
+
+// Turn down an offered slot and stay on the waitlist.
+// To accept, create the booking with POST /bookings passing the offer's holdId.
+router.post('/waitlist/:id/decline', authenticateUser, async (req, res) => {
+  try {
+    const waitlistService = req.app.locals.services.waitlist;
+    const entry = await waitlistService.declineOffer(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      entry,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Waitlist decline error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to decline offer',
+    });
+  }
+});
+
+// ===========================================
+// TRIAGE SYSTEM
+// ===========================================
+
+// Get triage questions
+router.get('/triage/questions', async (req, res) => {
+  try {
+    const questionnaire = await req.app.locals.services.triage.getActiveQuestionnaire();
+
+    res.json({
+      success: true,
+      version: questionnaire.version,
+      questions: questionnaire.questions,
+    });
+  } catch (error) {
+    payload.logger.error('Triage questions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch triage questions',
+    });
+  }
+});
+
+// Get a past questionnaire version, to explain the urgency score of older bookings
+router.get('/triage/questionnaires/:version', async (req, res) => {
+  try {
+    const questionnaire = await req.app.locals.services.triage.getQuestionnaire(Number(req.params.version));
+
+    res.json({
+      success: true,
+      version: questionnaire.version,
+      questions: questionnaire.questions,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Triage questionnaire error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch triage questionnaire',
+    });
+  }
+});
+
+// Vets accepting emergencies that are open right now, nearest first
+router.get('/triage/emergency-veterinarians', async (req, res) => {
+  try {
+    const { latitude, longitude, radius = 30 } = req.query;
+
+    if (!latitude || !longitude) {
+      return res.status(400).json({
+        success: false,
+        error: 'Location coordinates required',
+      });
+    }
+
+    const veterinarians = await req.app.locals.services.triage.findEmergencyVeterinarians(
+      { latitude: Number(latitude), longitude: Number(longitude) },
+      Number(radius)
+    );
+
+    res.json({
+      success: true,
+      veterinarians,
+    });
+  } catch (error) {
+    payload.logger.error('Emergency veterinarians error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to find emergency veterinarians',
+    });
+  }
+});
+
+// Start an adaptive triage session, one question at a time
+router.post('/triage/sessions',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      dogId: Joi.string().uuid().optional(),
+      location: Joi.object({
+        latitude: Joi.number().min(-90).max(90).required(),
+        longitude: Joi.number().min(-180).max(180).required(),
+      }).optional(), // Lets an emergency outcome list open vets nearby
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const session = await req.app.locals.services.triage.startSession(req.user, {
+        dogId: req.body.dogId,
+        location: req.body.location,
+      });
+
+      res.status(201).json({
+        success: true,
+        session,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Triage session error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start triage session',
+      });
+    }
+  }
+);
+
+// Get a triage session with its next question or outcome
+router.get('/triage/sessions/:id', authenticateUser, async (req, res) => {
+  try {
+    const session = await req.app.locals.services.triage.getSession(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      session,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Triage session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch triage session',
+    });
+  }
+});
+
+// Answer the current question; a red-flag answer ends the session as an emergency
+router.post('/triage/sessions/:id/answers',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      questionId: Joi.string().required(),
+      answer: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { questionId, answer } = req.body;
+      const session = await req.app.locals.services.triage.answerQuestion(req.params.id, req.user, {
+        questionId,
+        answer,
+      });
+
+      res.json({
+        success: true,
+        session,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Triage answer error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record triage answer',
+      });
+    }
+  }
+);
+
+// Calculate triage score
+router.post('/triage/calculate',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      responses: Joi.array().items(Joi.object({
+        questionId: Joi.string().required(),
+        answer: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required(),
+      })).min(1).required(),
+      version: Joi.number().integer().min(1).optional(), // Score with a past questionnaire version
+      dogId: Joi.string().uuid().optional(), // Weigh the answers by the dog's age, breed and conditions
+      location: Joi.object({
+        latitude: Joi.number().min(-90).max(90).required(),
+        longitude: Joi.number().min(-180).max(180).required(),
+      }).optional(), // Lets an emergency outcome list open vets nearby
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { responses, version, dogId, location } = req.body;
+      const triageService = req.app.locals.services.triage;
+      const dog = dogId ? await triageService.getDogProfile(dogId, req.user) : undefined;
+      const result = await triageService.calculateTriageScore(responses, version, dog);
+
+      const emergencyVeterinarians = result.recommendation.channel === 'emergency' && location
+        ? await triageService.findEmergencyVeterinarians(location)
+        : undefined;
+
+      res.json({
+        success: true,
+        result,
+        emergencyVeterinarians,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
         });
       }
+      payload.logger.error('Triage calculation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to calculate triage score',
+      });
+    }
+  }
+);
 
-      // Check time slot availability
-      const { db } = await import('@doggo/database');
-      const availableSlots = await db.getVeterinarianAvailability(
-        veterinarianId,
-        new Date(scheduledAt)
-      );
+// ===========================================
+// PRESCRIPTION ENDPOINTS
+// ===========================================
 
-      const requestedTime = new Date(scheduledAt).toTimeString().substr(0, 5);
-      if (!availableSlots.includes(requestedTime)) {
-        return res.status(409).json({
+// Veterinarian issues a signed electronic prescription (REV) for a visit
+router.post('/prescriptions',
+  authenticateUser,
+  requireRole('veterinarian'),
+  requireFeature('prescriptions'),
+  validateRequest({
+    body: Joi.object({
+      bookingId: Joi.string().required(),
+      drugName: Joi.string().max(200).required(),
+      activeIngredient: Joi.string().max(200).required(),
+      dosage: Joi.string().max(200).required(),
+      frequency: Joi.string().max(200).required(),
+      duration: Joi.string().max(200).required(),
+      quantity: Joi.number().integer().min(1).max(99).required(),
+      instructions: Joi.string().max(2000).required(),
+      warnings: Joi.string().max(2000).allow('').optional(),
+      doseMg: Joi.number().positive().optional(),
+      safetyOverrides: Joi.array().items(Joi.object({
+        code: Joi.string().required(),
+        reason: Joi.string().min(3).max(500).required(),
+      })).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const prescription = await req.app.locals.services.prescription.issuePrescription(req.user, req.body);
+
+      res.status(201).json({
+        success: true,
+        prescription,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
           success: false,
-          error: 'Time slot not available',
+          error: error.message,
+          code: error.code,
+          details: error.details,
         });
       }
+      payload.logger.error('Prescription issue error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to issue prescription',
+      });
+    }
+  }
+);
 
-      // Calculate triage score if responses provided
-      let urgencyScore = 1;
-      let triageNotes = '';
+// Formulary checks for a prescription before it is signed
+router.post('/prescriptions/safety-check',
+  authenticateUser,
+  requireRole('veterinarian'),
+  validateRequest({
+    body: Joi.object({
+      bookingId: Joi.string().required(),
+      drugName: Joi.string().max(200).required(),
+      activeIngredient: Joi.string().max(200).required(),
+      dosage: Joi.string().max(200).required(),
+      doseMg: Joi.number().positive().optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const warnings = await req.app.locals.services.prescription.previewSafety(req.user, req.body);
 
-      if (triageResponses && triageResponses.length > 0) {
-        const { TriageSystem } = await import('@doggo/utils');
-        const triageResult = TriageSystem.calculateTriageScore(triageResponses);
-        urgencyScore = Math.ceil(triageResult.score / 10); // Convert to 1-10 scale
-        triageNotes = `Triage score: ${triageResult.score}%. Urgency: ${triageResult.urgencyLevel}`;
+      res.json({
+        success: true,
+        warnings,
+        blocked: warnings.some(warning => warning.severity === 'block'),
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
       }
+      payload.logger.error('Prescription safety check error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check prescription safety',
+      });
+    }
+  }
+);
 
-      // Calculate cost
-      const fees = {
-        general: veterinarian.consultationFee,
-        urgent: veterinarian.emergencyFee,
-        specialist: veterinarian.consultationFee * 1.5,
-        telemedicine: veterinarian.telemedicineFee,
-      };
-      const totalCost = fees[type] || veterinarian.consultationFee;
+// Printable prescription with its QR code (owner, prescribing veterinarian or admin)
+router.get('/prescriptions/:id/pdf', authenticateUser, async (req, res) => {
+  try {
+    const { filename, content } = await req.app.locals.services.prescription.generatePdf(req.params.id, req.user);
 
-      // Create booking
-      const booking = await payload.create({
-        collection: 'bookings',
-        data: {
-          user: req.user.id,
-          dog: dogId,
-          veterinarian: veterinarianId,
-          type,
-          scheduledAt,
-          duration,
-          symptoms,
-          urgencyScore,
-          triageNotes,
-          totalCost,
-          status: 'pending',
-          paymentStatus: 'pending',
-        },
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(content);
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
       });
+    }
+    payload.logger.error('Prescription PDF error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate prescription PDF',
+    });
+  }
+});
 
-      // Create payment intent
-      const paymentService = req.app.locals.services.payment;
-      const paymentIntent = await paymentService.createBookingPayment(booking, req.user);
+// Check the signature of a scanned prescription QR code
+router.post('/prescriptions/verify',
+  validateRequest({
+    body: Joi.object({
+      qrCode: Joi.string().max(4000).required(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const verification = await req.app.locals.services.prescription.verifyPrescription(req.body.qrCode);
 
-      res.status(201).json({
+      res.json({
         success: true,
-        booking,
-        paymentIntent: {
-          clientSecret: paymentIntent.client_secret,
-          amount: totalCost,
-        },
+        verification,
       });
     } catch (error) {
-      payload.logger.error('Booking creation error:', error);
+      payload.logger.error('Prescription verification error:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to create booking',
+        error: 'Failed to verify prescription',
       });
     }
   }
 );
 
-// Get user bookings
-router.get('/bookings', authenticateUser, async (req, res) => {
-  try {
-    const { status, upcoming, limit = 20, page = 1 } = req.query;
-
-    let where: any = {
-      user: { equals: req.user.id },
-    };
+// Pharmacy scans a prescription: signature check, therapy and packs left to dispense
+router.post('/pharmacy/prescriptions/scan',
+  authenticatePharmacy,
+  validateRequest({
+    body: Joi.object({
+      qrCode: Joi.string().max(4000).required(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const result = await req.app.locals.services.prescription.getPrescriptionForPharmacy(req.body.qrCode);
 
-    if (status) {
-      where.status = { equals: status };
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      payload.logger.error('Pharmacy prescription scan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to read prescription',
+      });
     }
+  }
+);
 
-    if (upcoming === 'true') {
-      where.scheduledAt = { greater_than: new Date().toISOString() };
-      where.status = { in: ['pending', 'confirmed'] };
+// Pharmacy records the packs handed over; without a quantity the whole prescription is dispensed
+router.post('/pharmacy/prescriptions/dispense',
+  authenticatePharmacy,
+  validateRequest({
+    body: Joi.object({
+      qrCode: Joi.string().max(4000).required(),
+      quantity: Joi.number().integer().min(1).optional(),
+      pharmacistName: Joi.string().max(200).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const prescription = await req.app.locals.services.prescription.dispensePrescription(
+        req.body.qrCode,
+        req.pharmacy,
+        { quantity: req.body.quantity, pharmacistName: req.body.pharmacistName }
+      );
+
+      res.json({
+        success: true,
+        prescription,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+      payload.logger.error('Prescription dispensing error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to dispense prescription',
+      });
     }
+  }
+);
 
-    const bookings = await payload.find({
-      collection: 'bookings',
-      where,
-      populate: ['dog', 'veterinarian'],
-      sort: upcoming === 'true' ? 'scheduledAt' : '-scheduledAt',
-      limit: Number(limit),
-      page: Number(page),
+// Create or rotate a pharmacy's API key; the key is only shown in this response
+router.post('/pharmacies/:id/api-key', authenticateUser, requireRole('admin'), async (req, res) => {
+  try {
+    const { CryptoUtils } = await import('@doggo/utils');
+    const apiKey = `ph_${CryptoUtils.generateSecureId(40)}`;
+
+    await payload.update({
+      collection: 'pharmacies',
+      id: req.params.id,
+      data: {
+        apiKeyHash: CryptoUtils.hashApiKey(apiKey),
+        apiKeyPrefix: apiKey.slice(0, 8),
+      },
     });
 
     res.json({
       success: true,
-      bookings: bookings.docs,
-      pagination: {
-        totalDocs: bookings.totalDocs,
-        page: Number(page),
-        limit: Number(limit),
-        totalPages: bookings.totalPages,
-      },
+      apiKey,
     });
   } catch (error) {
-    payload.logger.error('Bookings fetch error:', error);
+    payload.logger.error('Pharmacy API key creation error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch bookings',
+      error: 'Failed to create pharmacy API key',
     });
   }
 });
 
 // ===========================================
-// TRIAGE SYSTEM
+// EMERGENCY ENDPOINTS
 // ===========================================
 
-// Get triage questions
-router.get('/triage/questions', async (req, res) => {
-  try {
-    const { TriageSystem } = await import('@doggo/utils');
-    const questions = TriageSystem.getQuestions();
-
-    res.json({
-      success: true,
-      questions,
-    });
-  } catch (error) {
-    payload.logger.error('Triage questions error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch triage questions',
-    });
-  }
-});
-
-// Calculate triage score
-router.post('/triage/calculate',
+// Break-glass: a verified vet or shelter scans a dog's microchip and gets its emergency medical profile
+router.post('/emergency-access/microchip',
   authenticateUser,
+  requireRole(['veterinarian', 'shelter']),
+  emergencyAccess,
   validateRequest({
     body: Joi.object({
-      responses: Joi.array().items(Joi.object({
-        questionId: Joi.string().required(),
-        answer: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required(),
-      })).min(1).required(),
+      microchipNumber: Joi.string().required(),
+      reason: Joi.string().min(10).max(500).required(),
+      type: Joi.string().valid('found_dog', 'injured_dog', 'abandoned_dog').optional(),
+      priority: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
+      emergencyId: Joi.string().optional(),
     }),
   }),
   async (req, res) => {
     try {
-      const { responses } = req.body;
-      const { TriageSystem } = await import('@doggo/utils');
-      const result = TriageSystem.calculateTriageScore(responses);
+      const profile = await req.app.locals.services.medicalRecord.getEmergencyProfile(req.body.microchipNumber, req.user, {
+        reason: req.body.reason,
+        isEmergency: req.isEmergency === true,
+        emergencyId: req.body.emergencyId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
 
+      res.set('Cache-Control', 'private, no-store');
       res.json({
         success: true,
-        result,
+        profile,
       });
     } catch (error) {
-      payload.logger.error('Triage calculation error:', error);
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Emergency profile access error:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to calculate triage score',
+        error: 'Failed to fetch emergency profile',
       });
     }
   }
 );
 
-// ===========================================
-// EMERGENCY ENDPOINTS
-// ===========================================
-
 // Create emergency report
 router.post('/emergencies',
   authenticateUser,
@@ -722,6 +2944,7 @@ router.post('/emergencies',
         gender: Joi.string().valid('maschio', 'femmina').optional(),
         age: Joi.number().min(0).max(30).optional(),
         microchipNumber: Joi.string().pattern(/^\d{15}$/).optional(),
+        distinguishingFeatures: Joi.string().max(500).optional(),
       }).required(),
       contactInfo: Joi.object({
         name: Joi.string().required(),
@@ -742,6 +2965,22 @@ router.post('/emergencies',
         },
       });
 
+      // Alert the owner of a chipped dog and pair the report with its lost/found counterpart
+      if (emergency.dogInfo?.microchipNumber) {
+        try {
+          await req.app.locals.services.emergency.matchMicrochip(emergency.id);
+        } catch (matchError) {
+          payload.logger.warn('Microchip matching failed:', matchError);
+        }
+      }
+
+      // Suggest lost/found reports describing a similar dog
+      try {
+        await req.app.locals.services.emergency.matchSimilarReports(emergency.id);
+      } catch (matchError) {
+        payload.logger.warn('Similarity matching failed:', matchError);
+      }
+
       // Send alerts to nearby users
       const notificationService = req.app.locals.services.notification;
       
@@ -788,6 +3027,101 @@ router.post('/emergencies',
   }
 );
 
+// Vet or shelter scans a microchip: the registered owner is alerted on every channel
+router.post('/emergencies/microchip-scan',
+  authenticateUser,
+  requireRole(['veterinarian', 'shelter']),
+  validateRequest({
+    body: Joi.object({
+      microchipNumber: Joi.string().pattern(/^\d{15}$/).required(),
+      address: Joi.string().max(300).optional(),
+      notes: Joi.string().max(1000).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const { microchipNumber, ...details } = req.body;
+      const result = await req.app.locals.services.emergency.reportScan(microchipNumber, req.user, details);
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Microchip scan error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process microchip scan',
+      });
+    }
+  }
+);
+
+// Owner confirms the dog is back home: resolves the lost report and the linked found report
+router.post('/emergencies/:id/resolve-linked',
+  authenticateUser,
+  validateRequest({
+    body: Joi.object({
+      notes: Joi.string().max(1000).optional(),
+    }),
+  }),
+  async (req, res) => {
+    try {
+      const resolved = await req.app.locals.services.emergency.resolveLinked(req.params.id, req.user, req.body.notes);
+
+      res.json({
+        success: true,
+        resolved,
+      });
+    } catch (error) {
+      if (error.isOperational) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      payload.logger.error('Linked emergency resolution error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resolve linked emergencies',
+      });
+    }
+  }
+);
+
+// Lost/found reports that likely describe the same dog, best match first
+router.get('/emergencies/:id/candidates', authenticateUser, async (req, res) => {
+  try {
+    const candidates = await req.app.locals.services.emergency.getCandidates(req.params.id, req.user);
+
+    res.json({
+      success: true,
+      candidates,
+    });
+  } catch (error) {
+    if (error.isOperational) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    payload.logger.error('Emergency candidates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch candidate matches',
+    });
+  }
+});
+
 // Get nearby emergencies
 router.get('/emergencies/nearby', authenticateUser, async (req, res) => {
   try {
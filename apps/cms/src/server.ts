@@ -24,6 +24,15 @@ import { NotificationService } from './services/NotificationService';
 import { PaymentService } from './services/PaymentService';
 import { FileUploadService } from './services/FileUploadService';
 import { VideoCallService } from './services/VideoCallService';
+import { SlotHoldService } from './services/SlotHoldService';
+import { WaitlistService } from './services/WaitlistService';
+import { BookingService } from './services/BookingService';
+import { ClinicService } from './services/ClinicService';
+import { TriageService } from './services/TriageService';
+import { PrescriptionService } from './services/PrescriptionService';
+import { VaccinationService } from './services/VaccinationService';
+import { EmergencyService } from './services/EmergencyService';
+import { MedicalRecordService } from './services/MedicalRecordService';
 
 // Routes
 import authRoutes from './routes/auth';
@@ -129,6 +138,42 @@ const start = async (): Promise<void> => {
     const paymentService = new PaymentService();
     const fileUploadService = new FileUploadService();
     const videoCallService = new VideoCallService();
+    const slotHoldService = new SlotHoldService(redis);
+    const triageService = new TriageService(redis);
+    const medicalRecordService = new MedicalRecordService({
+      notification: notificationService,
+    });
+    const waitlistService = new WaitlistService({
+      notification: notificationService,
+      slotHold: slotHoldService,
+    });
+    const clinicService = new ClinicService({
+      slotHold: slotHoldService,
+    });
+    const bookingService = new BookingService({
+      email: emailService,
+      sms: smsService,
+      notification: notificationService,
+      payment: paymentService,
+      slotHold: slotHoldService,
+      waitlist: waitlistService,
+    });
+    const prescriptionService = new PrescriptionService({
+      notification: notificationService,
+      medicalRecord: medicalRecordService,
+      redis,
+    });
+    const emergencyService = new EmergencyService({
+      email: emailService,
+      sms: smsService,
+      notification: notificationService,
+    });
+    const vaccinationService = new VaccinationService({
+      email: emailService,
+      sms: smsService,
+      notification: notificationService,
+      medicalRecord: medicalRecordService,
+    });
 
     // Store services in app locals for access in routes
     app.locals.services = {
@@ -138,6 +183,15 @@ const start = async (): Promise<void> => {
       payment: paymentService,
       fileUpload: fileUploadService,
       videoCall: videoCallService,
+      slotHold: slotHoldService,
+      waitlist: waitlistService,
+      booking: bookingService,
+      clinic: clinicService,
+      triage: triageService,
+      prescription: prescriptionService,
+      medicalRecord: medicalRecordService,
+      vaccination: vaccinationService,
+      emergency: emergencyService,
     };
     app.locals.redis = redis;
     app.locals.io = io;
@@ -152,7 +206,7 @@ const start = async (): Promise<void> => {
     app.use('/health', healthRoutes);
 
     // Socket.IO handlers
-    setupSocketHandlers(io, redis);
+    setupSocketHandlers(io, redis, { booking: bookingService });
 
     // Serve static files
     app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
@@ -338,6 +392,95 @@ function setupCronJobs() {
     }
   });
 
+  // Expire unpaid bookings whose payment window has passed (runs every minute)
+  cron.schedule('* * * * *', async () => {
+    try {
+      const expiredBookings = await payload.find({
+        collection: 'bookings',
+        where: {
+          status: { equals: 'pending' },
+          paymentStatus: { equals: 'pending' },
+          holdExpiresAt: { less_than: new Date().toISOString() },
+        },
+        limit: 100,
+      });
+
+      const bookingService: BookingService = app.locals.services.booking;
+      const paymentService: PaymentService = app.locals.services.payment;
+      const canceledIntents = new Set<string>();
+
+      for (const booking of expiredBookings.docs) {
+        await payload.update({
+          collection: 'bookings',
+          id: booking.id,
+          data: {
+            status: 'cancelled',
+            cancelledReason: 'hold_expired',
+            holdExpiresAt: null,
+          },
+        });
+
+        // Occurrences of a series share one intent
+        if (booking.paymentIntentId && !canceledIntents.has(booking.paymentIntentId)) {
+          canceledIntents.add(booking.paymentIntentId);
+          await paymentService.cancelPaymentIntent(booking.paymentIntentId);
+        }
+
+        await bookingService.offerToWaitlist(
+          booking.veterinarian?.id || booking.veterinarian,
+          new Date(booking.scheduledAt),
+          booking.type
+        );
+      }
+
+      if (expiredBookings.docs.length > 0) {
+        payload.logger.info(`Expired ${expiredBookings.docs.length} unpaid bookings`);
+      }
+    } catch (error) {
+      payload.logger.error('Booking expiration job failed:', error);
+    }
+  });
+
+  // Mark confirmed bookings nobody showed up for as no-shows (runs every 15 minutes)
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const bookingService: BookingService = app.locals.services.booking;
+      const marked = await bookingService.detectNoShows();
+
+      if (marked > 0) {
+        payload.logger.info(`Marked ${marked} bookings as no-shows`);
+      }
+    } catch (error) {
+      payload.logger.error('No-show detection job failed:', error);
+    }
+  });
+
+  // Pass lapsed waitlist offers on to the next owner in line (runs every minute)
+  cron.schedule('* * * * *', async () => {
+    try {
+      const waitlistService: WaitlistService = app.locals.services.waitlist;
+      const lapsed = await waitlistService.processExpiredOffers();
+
+      if (lapsed > 0) {
+        payload.logger.info(`Passed on ${lapsed} lapsed waitlist offers`);
+      }
+    } catch (error) {
+      payload.logger.error('Waitlist offer expiration job failed:', error);
+    }
+  });
+
+  // Remind owners about follow-up visits they have not confirmed or booked (runs daily at 10 AM)
+  cron.schedule('0 10 * * *', async () => {
+    try {
+      const bookingService: BookingService = app.locals.services.booking;
+      const reminded = await bookingService.sendFollowUpReminders();
+
+      payload.logger.info(`Sent ${reminded} follow-up reminders`);
+    } catch (error) {
+      payload.logger.error('Follow-up reminder job failed:', error);
+    }
+  });
+
   // Check expiring documents (runs daily at 9 AM)
   cron.schedule('0 9 * * *', async () => {
     payload.logger.info('Running document expiration check...');
@@ -368,6 +511,18 @@ function setupCronJobs() {
     }
   });
 
+  // Escalate vaccination reminders by push, email and SMS (runs daily at 9:30 AM)
+  cron.schedule('30 9 * * *', async () => {
+    try {
+      const vaccinationService: VaccinationService = app.locals.services.vaccination;
+      const reminded = await vaccinationService.sendReminders();
+
+      payload.logger.info(`Sent vaccination reminders for ${reminded} dogs`);
+    } catch (error) {
+      payload.logger.error('Vaccination reminder job failed:', error);
+    }
+  });
+
   // Clean up old data (runs daily at 2 AM)
   cron.schedule('0 2 * * *', async () => {
     payload.logger.info('Running cleanup job...');
@@ -0,0 +1,1281 @@
+import payload from 'payload';
+import { randomUUID } from 'crypto';
+import { ErrorUtils, RefundCalculator, ReliabilityUtils, SchedulingUtils } from '@doggo/utils';
+import type { EmailService } from './EmailService';
+import type { SMSService } from './SMSService';
+import type { NotificationService } from './NotificationService';
+import type { PaymentService } from './PaymentService';
+import type { SlotHoldService } from './SlotHoldService';
+import type { WaitlistService } from './WaitlistService';
+
+interface BookingServiceDependencies {
+  email: EmailService;
+  sms: SMSService;
+  notification: NotificationService;
+  payment: PaymentService;
+  slotHold: SlotHoldService;
+  waitlist: WaitlistService;
+}
+
+const DEFAULT_RESCHEDULE_MIN_NOTICE_HOURS = 24;
+
+// How many days after the requested follow-up date to look for a free slot
+const FOLLOW_UP_SEARCH_DAYS = 14;
+// How long the owner has to confirm a provisional follow-up visit
+const FOLLOW_UP_CONFIRMATION_HOURS = 72;
+const FOLLOW_UP_REMINDER_INTERVAL_DAYS = 3;
+// Stop reminding this long after the follow-up date has passed
+const FOLLOW_UP_REMINDER_WINDOW_DAYS = 30;
+
+// Only recent bookings are checked so old, never-closed records are not swept up as no-shows
+const NO_SHOW_LOOKBACK_HOURS = 24;
+
+// Another vet may grab the room picked for a booking; pick again this many times
+const RESOURCE_RESERVATION_ATTEMPTS = 3;
+
+// Actor recorded for changes made by scheduled jobs
+const SYSTEM_ACTOR = { id: null, role: 'admin' };
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class BookingService {
+  private email: EmailService;
+  private sms: SMSService;
+  private notification: NotificationService;
+  private payment: PaymentService;
+  private slotHold: SlotHoldService;
+  private waitlist: WaitlistService;
+  private noShowGraceMinutes: number;
+
+  constructor(services: BookingServiceDependencies) {
+    this.email = services.email;
+    this.sms = services.sms;
+    this.notification = services.notification;
+    this.payment = services.payment;
+    this.slotHold = services.slotHold;
+    this.waitlist = services.waitlist;
+    this.noShowGraceMinutes = parseInt(process.env.NO_SHOW_GRACE_MINUTES || '30');
+  }
+
+  async getBooking(bookingId: string): Promise<any> {
+    const booking = await payload.findByID({
+      collection: 'bookings',
+      id: bookingId,
+      populate: ['user', 'dog', 'veterinarian', 'clinic'],
+    });
+
+    if (!booking) {
+      throw ErrorUtils.createAppError('Booking not found', 404, 'BOOKING_NOT_FOUND');
+    }
+
+    return booking;
+  }
+
+  isBookingOwner(booking: any, user: any): boolean {
+    return getId(booking.user) === user.id;
+  }
+
+  isBookingVeterinarian(booking: any, user: any): boolean {
+    return user.role === 'veterinarian' && getId(booking.veterinarian?.user) === user.id;
+  }
+
+  // The booking's vet, or an administrator of the clinic managing the vet's calendar
+  isBookingStaff(booking: any, user: any): boolean {
+    if (this.isBookingVeterinarian(booking, user)) return true;
+
+    const clinicAdmins = Array.isArray(booking.clinic?.admins) ? booking.clinic.admins : [];
+    return !!user.id && clinicAdmins.some(admin => getId(admin) === user.id);
+  }
+
+  calculateTotalCost(type: string, veterinarian: any): number {
+    const fees: Record<string, number> = {
+      general: veterinarian.consultationFee,
+      urgent: veterinarian.emergencyFee,
+      specialist: veterinarian.consultationFee * 1.5,
+      telemedicine: veterinarian.telemedicineFee,
+      surgery: veterinarian.surgeryFee,
+    };
+
+    // Surgery is priced per vet; a consultation fee would undercharge deposits and refunds
+    if (type === 'surgery' && !fees.surgery) {
+      throw ErrorUtils.createAppError('This veterinarian has no surgery fee configured', 400, 'FEE_NOT_CONFIGURED');
+    }
+
+    return fees[type] || veterinarian.consultationFee;
+  }
+
+  /**
+   * Work out how much the owner pays online for a new booking under the
+   * veterinarian's no-show policy. Refuses pay-at-visit when the veterinarian
+   * does not offer it or the owner's no-shows call for full prepayment.
+   */
+  async getPaymentRequirement(userId: string, veterinarian: any, totalCost: number, payAtVisit: boolean) {
+    let recentNoShows = 0;
+    if (payAtVisit) {
+      const owner = await payload.findByID({
+        collection: 'users',
+        id: userId,
+        depth: 0,
+      });
+      recentNoShows = owner?.reliability?.recentNoShows || 0;
+    }
+
+    const requirement = ReliabilityUtils.getPaymentRequirement({
+      totalCost,
+      payAtVisit,
+      recentNoShows,
+      policy: veterinarian.noShowPolicy,
+    });
+
+    if (requirement.rule === 'pay_at_visit_not_allowed') {
+      throw ErrorUtils.createAppError('This veterinarian does not accept payment at the visit', 400, 'PAY_AT_VISIT_NOT_ALLOWED');
+    }
+
+    if (requirement.rule === 'prepayment_required') {
+      throw ErrorUtils.createAppError('Prepayment is required because of previous missed appointments', 402, 'PREPAYMENT_REQUIRED', {
+        recentNoShows,
+        amountDue: requirement.amountDue,
+      });
+    }
+
+    return requirement;
+  }
+
+  async getRescheduleMinNoticeHours(): Promise<number> {
+    try {
+      const settings = await payload.findGlobal({ slug: 'site-settings' });
+      return settings?.limits?.rescheduleMinNoticeHours ?? DEFAULT_RESCHEDULE_MIN_NOTICE_HOURS;
+    } catch (error) {
+      return DEFAULT_RESCHEDULE_MIN_NOTICE_HOURS;
+    }
+  }
+
+  /**
+   * Move a booking to a new time. The new slot is held while it is checked
+   * against availability so a concurrent booking cannot take it.
+   * Owners must respect the minimum notice; veterinarians and admins may not.
+   */
+  async rescheduleBooking(
+    bookingId: string,
+    newDate: Date,
+    actor: any,
+    options: { reason?: string; enforceNotice?: boolean } = {}
+  ): Promise<any> {
+    const booking = await this.getBooking(bookingId);
+    const isOwner = this.isBookingOwner(booking, actor);
+    const isVet = this.isBookingStaff(booking, actor);
+
+    if (!isOwner && !isVet && actor.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      throw ErrorUtils.createAppError('Only pending or confirmed bookings can be rescheduled', 400, 'INVALID_STATUS');
+    }
+
+    if (newDate <= new Date()) {
+      throw ErrorUtils.createAppError('New date must be in the future', 400, 'INVALID_DATE');
+    }
+
+    const enforceNotice = options.enforceNotice ?? (isOwner && actor.role !== 'admin');
+    if (enforceNotice) {
+      const minNoticeHours = await this.getRescheduleMinNoticeHours();
+      const hoursUntilBooking = (new Date(booking.scheduledAt).getTime() - Date.now()) / (1000 * 60 * 60);
+
+      if (hoursUntilBooking < minNoticeHours) {
+        throw ErrorUtils.createAppError(
+          `Bookings can only be rescheduled at least ${minNoticeHours} hours in advance`,
+          400,
+          'NOTICE_TOO_SHORT',
+          { minNoticeHours }
+        );
+      }
+    }
+
+    const veterinarianId = getId(booking.veterinarian);
+    const hold = await this.slotHold.acquireHold({
+      veterinarianId,
+      userId: actor.id,
+      scheduledAt: newDate,
+      duration: booking.duration,
+      bufferMinutes: booking.veterinarian?.slotSettings?.bufferMinutes,
+      type: booking.type,
+    });
+
+    if (!hold) {
+      throw ErrorUtils.createAppError('Time slot is being booked by another user', 409, 'SLOT_HELD');
+    }
+
+    try {
+      await this.assertSlotAvailable(booking, newDate);
+      const resources = await this.reserveResources(hold, {
+        veterinarianId,
+        scheduledAt: newDate,
+        duration: booking.duration,
+        type: booking.type,
+        service: booking.service,
+        excludeBookingId: booking.id,
+      });
+
+      const previousScheduledAt = booking.scheduledAt;
+      const history = Array.isArray(booking.rescheduleHistory) ? booking.rescheduleHistory : [];
+
+      const updatedBooking = await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: {
+          scheduledAt: newDate.toISOString(),
+          resources,
+          requiresReschedule: false,
+          rescheduleReason: null,
+          rescheduleHistory: [
+            ...history,
+            {
+              previousScheduledAt,
+              newScheduledAt: newDate.toISOString(),
+              rescheduledBy: actor.id,
+              reason: options.reason,
+              rescheduledAt: new Date().toISOString(),
+            },
+          ],
+        },
+      });
+
+      payload.logger.info(`Booking ${booking.id} rescheduled from ${previousScheduledAt} to ${newDate.toISOString()}`);
+
+      // The updated history drives the calendar SEQUENCE, so clients replace the old entry
+      await this.notifyReschedule(updatedBooking, new Date(previousScheduledAt), actor);
+      await this.offerToWaitlist(veterinarianId, new Date(previousScheduledAt), booking.type);
+
+      return updatedBooking;
+    } finally {
+      // The hold expires on its own; failing to release it must not undo a saved reschedule
+      await this.slotHold.releaseHold(hold.id)
+        .catch(error => payload.logger.warn(`Failed to release slot hold ${hold.id}:`, error));
+    }
+  }
+
+  /**
+   * Veterinarian offers alternative times; the owner picks one or rejects them all.
+   */
+  async proposeAlternativeSlots(bookingId: string, slots: Date[], actor: any, message?: string): Promise<any> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!this.isBookingStaff(booking, actor) && actor.role !== 'admin') {
+      throw ErrorUtils.createAppError('Only the booking veterinarian can propose new slots', 403, 'ACCESS_DENIED');
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      throw ErrorUtils.createAppError('Only pending or confirmed bookings can be rescheduled', 400, 'INVALID_STATUS');
+    }
+
+    for (const slot of slots) {
+      if (slot <= new Date()) {
+        throw ErrorUtils.createAppError('Proposed slots must be in the future', 400, 'INVALID_DATE');
+      }
+      await this.assertSlotAvailable(booking, slot);
+    }
+
+    const updatedBooking = await payload.update({
+      collection: 'bookings',
+      id: booking.id,
+      data: {
+        rescheduleProposal: {
+          status: 'pending',
+          proposedBy: actor.id,
+          message,
+          slots: slots.map(slot => ({ scheduledAt: slot.toISOString() })),
+          proposedAt: new Date().toISOString(),
+          respondedAt: null,
+        },
+      },
+    });
+
+    try {
+      await this.notification.sendRescheduleProposal(getId(booking.user), booking, slots);
+    } catch (error) {
+      payload.logger.warn(`Failed to notify reschedule proposal for booking ${booking.id}:`, error);
+    }
+
+    const owner = booking.user;
+    if (owner?.email && owner.preferences?.notifications?.email !== false) {
+      await this.email.sendRescheduleProposal(booking, owner, booking.dog, booking.veterinarian, slots)
+        .catch(error => payload.logger.warn('Failed to send reschedule proposal email:', error));
+    }
+
+    return updatedBooking;
+  }
+
+  async respondToProposal(
+    bookingId: string,
+    actor: any,
+    action: 'accept' | 'reject',
+    scheduledAt?: Date
+  ): Promise<any> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!this.isBookingOwner(booking, actor) && actor.role !== 'admin') {
+      throw ErrorUtils.createAppError('Only the booking owner can respond to a proposal', 403, 'ACCESS_DENIED');
+    }
+
+    const proposal = booking.rescheduleProposal;
+    if (!proposal || proposal.status !== 'pending') {
+      throw ErrorUtils.createAppError('No pending reschedule proposal', 404, 'PROPOSAL_NOT_FOUND');
+    }
+
+    if (action === 'reject') {
+      const updatedBooking = await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: {
+          rescheduleProposal: {
+            ...proposal,
+            status: 'rejected',
+            respondedAt: new Date().toISOString(),
+          },
+        },
+      });
+
+      try {
+        await this.notification.sendRescheduleProposalRejected(getId(booking.veterinarian?.user), booking);
+      } catch (error) {
+        payload.logger.warn(`Failed to notify rejected proposal for booking ${booking.id}:`, error);
+      }
+      return updatedBooking;
+    }
+
+    const chosen = (proposal.slots || []).find(
+      (slot: any) => scheduledAt && new Date(slot.scheduledAt).getTime() === scheduledAt.getTime()
+    );
+
+    if (!chosen) {
+      throw ErrorUtils.createAppError('Selected time is not one of the proposed slots', 400, 'INVALID_SLOT');
+    }
+
+    // The veterinarian offered these slots, so the owner's notice period does not apply
+    await this.rescheduleBooking(booking.id, new Date(chosen.scheduledAt), actor, {
+      reason: 'Accettata proposta del veterinario',
+      enforceNotice: false,
+    });
+
+    return payload.update({
+      collection: 'bookings',
+      id: booking.id,
+      data: {
+        rescheduleProposal: {
+          ...proposal,
+          status: 'accepted',
+          respondedAt: new Date().toISOString(),
+        },
+      },
+    });
+  }
+
+  /**
+   * Work out what the owner would get back if the booking were cancelled now,
+   * using the veterinarian's cancellation policy.
+   */
+  getCancellationQuote(booking: any, actor: any, options: { isNoShow?: boolean } = {}) {
+    const cancelledBy = actor.role === 'admin'
+      ? 'admin'
+      : this.isBookingStaff(booking, actor) ? 'veterinarian' : 'owner';
+
+    // A deposit is all that can be given back when the rest is due at the visit
+    const paidAmount = booking.paymentStatus === 'deposit_paid' ? booking.depositAmount || 0 : booking.totalCost;
+    const quote = RefundCalculator.calculateRefund({
+      totalCost: paidAmount,
+      scheduledAt: booking.scheduledAt,
+      cancelledBy,
+      isNoShow: options.isNoShow,
+      policy: booking.veterinarian?.cancellationPolicy,
+    });
+
+    // Nothing to give back if the booking was never paid
+    const isPaid = ['paid', 'deposit_paid'].includes(booking.paymentStatus);
+    return {
+      ...quote,
+      cancelledBy,
+      refundAmount: isPaid ? quote.refundAmount : 0,
+      paidAmount: isPaid ? paidAmount : 0,
+      isPaid,
+    };
+  }
+
+  async cancelBooking(
+    bookingId: string,
+    actor: any,
+    options: { reason?: string; notes?: string; isNoShow?: boolean } = {}
+  ): Promise<{ booking: any; refund: any }> {
+    const booking = await this.getBooking(bookingId);
+    const isOwner = this.isBookingOwner(booking, actor);
+    const isVet = this.isBookingStaff(booking, actor);
+
+    if (!isOwner && !isVet && actor.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    const allowedStatuses = options.isNoShow ? ['confirmed', 'in_progress'] : ['pending', 'confirmed'];
+    if (!allowedStatuses.includes(booking.status)) {
+      throw ErrorUtils.createAppError('Booking cannot be cancelled in its current status', 400, 'INVALID_STATUS');
+    }
+
+    const quote = this.getCancellationQuote(booking, actor, options);
+
+    // Move the status first: of two concurrent cancellations only one gets here and refunds
+    const cancelled = await payload.update({
+      collection: 'bookings',
+      where: {
+        id: { equals: booking.id },
+        status: { in: allowedStatuses },
+      },
+      data: {
+        status: options.isNoShow ? 'no_show' : 'cancelled',
+        cancelledReason: options.isNoShow ? undefined : options.reason || (isOwner ? 'client_request' : 'vet_unavailable'),
+        cancellationNotes: options.notes,
+        holdExpiresAt: null,
+      },
+    });
+
+    if (cancelled.docs.length === 0) {
+      throw ErrorUtils.createAppError('Booking cannot be cancelled in its current status', 400, 'INVALID_STATUS');
+    }
+
+    let updatedBooking = cancelled.docs[0];
+    let refundId: string | undefined;
+
+    if (quote.refundAmount > 0 && booking.paymentIntentId) {
+      try {
+        const refund = await this.payment.refundPayment(booking.paymentIntentId, quote.refundAmount, `booking-refund-${booking.id}`);
+        refundId = refund.id;
+      } catch (error) {
+        // Put the booking back so the cancellation can be retried
+        await payload.update({
+          collection: 'bookings',
+          id: booking.id,
+          data: {
+            status: booking.status,
+            cancelledReason: booking.cancelledReason ?? null,
+            cancellationNotes: booking.cancellationNotes ?? null,
+            holdExpiresAt: booking.holdExpiresAt ?? null,
+          },
+        });
+        throw error;
+      }
+    }
+
+    let paymentStatus = booking.paymentStatus;
+    if (refundId) {
+      paymentStatus = quote.refundAmount >= quote.paidAmount ? 'refunded' : 'partially_refunded';
+
+      updatedBooking = await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: {
+          paymentStatus,
+          refundAmount: quote.refundAmount,
+          refundId,
+        },
+      });
+    }
+
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(
+      actor.id,
+      options.isNoShow ? 'booking_no_show' : 'booking_cancelled',
+      'booking',
+      booking.id,
+      {
+        status: { from: booking.status, to: updatedBooking.status },
+        paymentStatus: { from: booking.paymentStatus, to: paymentStatus },
+      },
+      {
+        cancelledBy: quote.cancelledBy,
+        reason: options.reason,
+        refundRule: quote.rule,
+        refundPercentage: quote.refundPercentage,
+        refundAmount: refundId ? quote.refundAmount : 0,
+        refundId,
+        hoursBeforeAppointment: quote.hoursBeforeAppointment,
+      }
+    );
+
+    payload.logger.info(`Booking ${booking.id} ${updatedBooking.status} by ${quote.cancelledBy}, refund ${refundId ? quote.refundAmount : 0}€`);
+
+    if (options.isNoShow) {
+      await this.updateOwnerReliability(getId(booking.user))
+        .catch(error => payload.logger.warn(`Failed to update reliability of owner ${getId(booking.user)}:`, error));
+      await this.notification.sendBookingNoShow(getId(booking.user), booking)
+        .catch(error => payload.logger.warn(`Failed to notify no-show of booking ${booking.id}:`, error));
+    } else {
+      await this.notifyCancellation(updatedBooking, actor, refundId ? quote.refundAmount : 0);
+      await this.offerToWaitlist(getId(booking.veterinarian), new Date(booking.scheduledAt), booking.type);
+    }
+
+    return {
+      booking: updatedBooking,
+      refund: {
+        amount: refundId ? quote.refundAmount : 0,
+        percentage: quote.refundPercentage,
+        rule: quote.rule,
+        refundId,
+      },
+    };
+  }
+
+  /**
+   * Record the owner's arrival. Telemedicine visits are checked in
+   * automatically when the owner joins the video call.
+   */
+  async checkIn(bookingId: string, actor: any | null): Promise<any> {
+    const booking = await this.getBooking(bookingId);
+
+    if (actor && !this.isBookingStaff(booking, actor) && actor.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    if (!['confirmed', 'in_progress'].includes(booking.status)) {
+      throw ErrorUtils.createAppError('Only confirmed bookings can be checked in', 400, 'INVALID_STATUS');
+    }
+
+    if (booking.checkedInAt) return booking;
+
+    return payload.update({
+      collection: 'bookings',
+      id: booking.id,
+      data: { checkedInAt: new Date().toISOString() },
+    });
+  }
+
+  /**
+   * Let the veterinarian correct the urgency computed by triage. Every change
+   * is kept on the booking and in the audit log with the reason given.
+   */
+  async overrideUrgency(bookingId: string, actor: any, params: { urgencyScore: number; reason: string }): Promise<any> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!this.isBookingStaff(booking, actor) && actor.role !== 'admin') {
+      throw ErrorUtils.createAppError('Only the booking veterinarian can change its urgency', 403, 'ACCESS_DENIED');
+    }
+
+    if (['cancelled', 'completed', 'no_show'].includes(booking.status)) {
+      throw ErrorUtils.createAppError('Urgency can only be changed on upcoming bookings', 400, 'INVALID_STATUS');
+    }
+
+    const previousScore = booking.urgencyScore ?? null;
+    const override = {
+      from: previousScore,
+      to: params.urgencyScore,
+      reason: params.reason,
+      overriddenBy: actor.id,
+      overriddenAt: new Date().toISOString(),
+    };
+
+    const updatedBooking = await payload.update({
+      collection: 'bookings',
+      id: booking.id,
+      data: {
+        urgencyScore: params.urgencyScore,
+        urgencyOverrides: [...(Array.isArray(booking.urgencyOverrides) ? booking.urgencyOverrides : []), override],
+      },
+    });
+
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(
+      actor.id,
+      'booking_urgency_override',
+      'booking',
+      booking.id,
+      { urgencyScore: { from: previousScore, to: params.urgencyScore } },
+      { reason: params.reason, triageVersion: booking.triageVersion, triageNotes: booking.triageNotes }
+    );
+
+    payload.logger.info(`Booking ${booking.id} urgency changed from ${previousScore} to ${params.urgencyScore} by ${actor.id}`);
+
+    return updatedBooking;
+  }
+
+  /**
+   * Mark confirmed bookings whose grace period has passed without a check-in
+   * as no-shows. The veterinarian's no-show refund rule applies.
+   */
+  async detectNoShows(): Promise<number> {
+    const now = new Date();
+    const graceCutoff = new Date(now.getTime() - this.noShowGraceMinutes * 60000);
+
+    const candidates = await payload.find({
+      collection: 'bookings',
+      where: {
+        status: { equals: 'confirmed' },
+        checkedInAt: { exists: false },
+        scheduledAt: {
+          less_than: graceCutoff.toISOString(),
+          greater_than: new Date(graceCutoff.getTime() - NO_SHOW_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString(),
+        },
+      },
+      limit: 100,
+      depth: 0,
+    });
+
+    let marked = 0;
+    for (const booking of candidates.docs) {
+      const isNoShow = ReliabilityUtils.isNoShow({
+        status: booking.status,
+        scheduledAt: booking.scheduledAt,
+        checkedInAt: booking.checkedInAt,
+        graceMinutes: this.noShowGraceMinutes,
+        now,
+      });
+      if (!isNoShow) continue;
+
+      try {
+        await this.cancelBooking(booking.id, SYSTEM_ACTOR, { isNoShow: true });
+        marked++;
+      } catch (error) {
+        payload.logger.warn(`Failed to mark booking ${booking.id} as no-show:`, error);
+      }
+    }
+
+    return marked;
+  }
+
+  // Recomputed from the owner's bookings so repeated status changes cannot skew the counts
+  async updateOwnerReliability(userId: string): Promise<any> {
+    const completed = await payload.find({
+      collection: 'bookings',
+      where: {
+        user: { equals: userId },
+        status: { equals: 'completed' },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    const noShows = await payload.find({
+      collection: 'bookings',
+      where: {
+        user: { equals: userId },
+        status: { equals: 'no_show' },
+      },
+      sort: '-scheduledAt',
+      limit: 500,
+      depth: 0,
+    });
+
+    const reliability = ReliabilityUtils.buildRecord({
+      completed: completed.totalDocs,
+      noShowDates: noShows.docs.map(booking => booking.scheduledAt),
+    });
+
+    await payload.update({
+      collection: 'users',
+      id: userId,
+      data: { reliability },
+    });
+
+    return reliability;
+  }
+
+  /**
+   * Book every occurrence of a recurring series. Each date is held and checked
+   * against availability; unless `skipConflicts` is set, a single conflict
+   * aborts the whole series and the per-occurrence report is returned in the
+   * error details. The series is paid with one upfront charge.
+   */
+  async createBookingSeries(params: {
+    user: any;
+    dogId: string;
+    veterinarian: any;
+    type: string;
+    service?: string;
+    duration: number;
+    dates: Date[];
+    recurrence: { frequency: string; count?: number; until?: Date; preferredTime: string };
+    symptoms?: string;
+    urgencyScore?: number;
+    triageNotes?: string;
+    triageVersion?: number;
+    triagePath?: any[];
+    skipConflicts?: boolean;
+  }): Promise<{ seriesId: string; bookings: any[]; conflicts: any[]; paymentIntent: any }> {
+    const { user, veterinarian, type, duration, dates } = params;
+    const { db } = await import('@doggo/database');
+
+    const occurrences: Array<{ index: number; scheduledAt: Date; hold?: any; resources?: string[]; code?: string; error?: string }> = [];
+
+    try {
+      for (const [index, scheduledAt] of dates.entries()) {
+        if (scheduledAt <= new Date()) {
+          occurrences.push({ index, scheduledAt, code: 'INVALID_DATE', error: 'Date is in the past' });
+          continue;
+        }
+
+        const hold = await this.slotHold.acquireHold({
+          veterinarianId: veterinarian.id,
+          userId: user.id,
+          scheduledAt,
+          duration,
+          bufferMinutes: veterinarian.slotSettings?.bufferMinutes,
+          type,
+        });
+
+        if (!hold) {
+          occurrences.push({ index, scheduledAt, code: 'SLOT_HELD', error: 'Time slot is being booked by another user' });
+          continue;
+        }
+
+        const availableSlots = await db.getVeterinarianAvailability(veterinarian.id, scheduledAt, {
+          bookingType: type,
+          service: params.service,
+          duration,
+        });
+
+        if (!availableSlots.includes(scheduledAt.toTimeString().substr(0, 5))) {
+          await this.slotHold.releaseHold(hold.id);
+          occurrences.push({ index, scheduledAt, code: 'SLOT_UNAVAILABLE', error: 'Time slot not available' });
+          continue;
+        }
+
+        let resources: string[];
+        try {
+          resources = await this.reserveResources(hold, { veterinarianId: veterinarian.id, scheduledAt, duration, type, service: params.service });
+        } catch (error) {
+          if (!error.isOperational) throw error;
+          await this.slotHold.releaseHold(hold.id);
+          occurrences.push({ index, scheduledAt, code: error.code, error: error.message });
+          continue;
+        }
+
+        occurrences.push({ index, scheduledAt, hold, resources });
+      }
+
+      const report = occurrences.map(occurrence => ({
+        index: occurrence.index,
+        scheduledAt: occurrence.scheduledAt.toISOString(),
+        available: !!occurrence.hold,
+        code: occurrence.code,
+        error: occurrence.error,
+      }));
+      const conflicts = report.filter(occurrence => !occurrence.available);
+      const available = occurrences.filter(occurrence => occurrence.hold);
+
+      if (available.length === 0 || (conflicts.length > 0 && !params.skipConflicts)) {
+        throw ErrorUtils.createAppError('Some occurrences of the series are not available', 409, 'SERIES_CONFLICTS', {
+          occurrences: report,
+        });
+      }
+
+      const seriesId = randomUUID();
+      const totalCost = this.calculateTotalCost(type, veterinarian);
+      const paymentWindowMinutes = parseInt(process.env.BOOKING_PAYMENT_WINDOW_MINUTES || '15');
+      const holdExpiresAt = new Date(Date.now() + paymentWindowMinutes * 60000).toISOString();
+
+      const bookings = [];
+      for (const occurrence of available) {
+        bookings.push(await payload.create({
+          collection: 'bookings',
+          data: {
+            user: user.id,
+            dog: params.dogId,
+            veterinarian: veterinarian.id,
+            type,
+            service: params.service,
+            scheduledAt: occurrence.scheduledAt.toISOString(),
+            duration,
+            resources: occurrence.resources,
+            symptoms: params.symptoms,
+            urgencyScore: params.urgencyScore,
+            triageNotes: params.triageNotes,
+            triageVersion: params.triageVersion,
+            triagePath: params.triagePath,
+            totalCost,
+            status: 'pending',
+            paymentStatus: 'pending',
+            holdExpiresAt,
+            seriesId,
+            seriesIndex: occurrence.index,
+            recurrence: {
+              ...params.recurrence,
+              until: params.recurrence.until?.toISOString(),
+            },
+          },
+        }));
+      }
+
+      const paymentIntent = await this.payment.createSeriesPayment(bookings, user, seriesId);
+
+      payload.logger.info(`Booking series ${seriesId} created with ${bookings.length} occurrences, ${conflicts.length} skipped`);
+
+      return { seriesId, bookings, conflicts, paymentIntent };
+    } finally {
+      await Promise.all(
+        occurrences
+          .filter(occurrence => occurrence.hold)
+          .map(occurrence => this.slotHold.releaseHold(occurrence.hold.id))
+      );
+    }
+  }
+
+  /**
+   * Active occurrences a series operation applies to, in series order.
+   * A booking outside a series, or scope 'this', is just the booking itself.
+   */
+  async getSeriesOccurrences(booking: any, scope: SeriesScope): Promise<any[]> {
+    if (!booking.seriesId || scope === 'this') {
+      return [booking];
+    }
+
+    const where: any = {
+      seriesId: { equals: booking.seriesId },
+      status: { in: ['pending', 'confirmed'] },
+    };
+
+    if (scope === 'following') {
+      where.seriesIndex = { greater_than_equal: booking.seriesIndex };
+    }
+
+    const occurrences = await payload.find({
+      collection: 'bookings',
+      where,
+      sort: 'seriesIndex',
+      limit: 100,
+      depth: 0,
+    });
+
+    return occurrences.docs;
+  }
+
+  // Cancel each occurrence on its own so every one gets its policy refund
+  async cancelSeries(
+    bookingId: string,
+    actor: any,
+    scope: SeriesScope,
+    options: { reason?: string; notes?: string } = {}
+  ): Promise<any[]> {
+    const booking = await this.getBooking(bookingId);
+    const occurrences = await this.getSeriesOccurrences(booking, scope);
+
+    const results = [];
+    for (const occurrence of occurrences) {
+      try {
+        const { refund } = await this.cancelBooking(occurrence.id, actor, options);
+        results.push({ bookingId: occurrence.id, scheduledAt: occurrence.scheduledAt, success: true, refund });
+      } catch (error) {
+        if (!error.isOperational) throw error;
+        results.push({ bookingId: occurrence.id, scheduledAt: occurrence.scheduledAt, success: false, error: error.message, code: error.code });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Move occurrences by the same offset as the selected one, so a series
+   * moved from Tuesday 10:00 to Wednesday 11:00 keeps its rhythm.
+   */
+  async rescheduleSeries(
+    bookingId: string,
+    newDate: Date,
+    actor: any,
+    scope: SeriesScope,
+    options: { reason?: string } = {}
+  ): Promise<any[]> {
+    const booking = await this.getBooking(bookingId);
+    const occurrences = await this.getSeriesOccurrences(booking, scope);
+    const offset = newDate.getTime() - new Date(booking.scheduledAt).getTime();
+
+    const results = [];
+    for (const occurrence of occurrences) {
+      const scheduledAt = new Date(new Date(occurrence.scheduledAt).getTime() + offset);
+      try {
+        const updated = await this.rescheduleBooking(occurrence.id, scheduledAt, actor, options);
+        results.push({ bookingId: occurrence.id, scheduledAt: updated.scheduledAt, success: true });
+      } catch (error) {
+        if (!error.isOperational) throw error;
+        results.push({ bookingId: occurrence.id, scheduledAt: scheduledAt.toISOString(), success: false, error: error.message, code: error.code, details: error.details });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Act on a completed consultation that asked for a follow-up: reserve the
+   * nearest free slot from the requested date as a provisional booking the
+   * owner has to confirm, or invite the owner to book when nothing is free.
+   */
+  async scheduleFollowUp(bookingId: string): Promise<any | null> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!booking.followUpRequired || !booking.followUpDate || booking.followUpStatus) {
+      return null;
+    }
+
+    const veterinarian = booking.veterinarian;
+    const owner = booking.user;
+    const type = booking.type === 'telemedicine' ? 'telemedicine' : 'general';
+    const duration = SchedulingUtils.getSlotDuration(type, veterinarian.slotSettings);
+
+    const scheduledAt = veterinarian.isAcceptingPatients
+      ? await this.findNearestSlot(getId(veterinarian), new Date(booking.followUpDate), type, duration)
+      : null;
+
+    const hold = scheduledAt && await this.slotHold.acquireHold({
+      veterinarianId: getId(veterinarian),
+      userId: getId(owner),
+      scheduledAt,
+      duration,
+      bufferMinutes: veterinarian.slotSettings?.bufferMinutes,
+      type,
+    });
+
+    const resources = hold
+      ? await this.reserveResources(hold, { veterinarianId: getId(veterinarian), scheduledAt, duration, type }).catch(() => null)
+      : null;
+
+    if (!scheduledAt || !hold || !resources) {
+      if (hold) await this.slotHold.releaseHold(hold.id);
+      await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: {
+          followUpStatus: 'invited',
+          followUpLastReminderAt: new Date().toISOString(),
+        },
+      });
+      await this.notifyFollowUp(booking, null);
+      return null;
+    }
+
+    try {
+      // Leave the owner time to confirm, but free the slot a day ahead so someone else can use it
+      const confirmBy = Math.max(
+        Date.now() + 2 * 60 * 60 * 1000,
+        Math.min(Date.now() + FOLLOW_UP_CONFIRMATION_HOURS * 60 * 60 * 1000, scheduledAt.getTime() - 24 * 60 * 60 * 1000)
+      );
+
+      const followUpBooking = await payload.create({
+        collection: 'bookings',
+        data: {
+          user: getId(owner),
+          dog: getId(booking.dog),
+          veterinarian: getId(veterinarian),
+          type,
+          scheduledAt: scheduledAt.toISOString(),
+          duration,
+          resources,
+          symptoms: booking.followUpNotes ? `Controllo di follow-up: ${booking.followUpNotes}` : 'Controllo di follow-up',
+          totalCost: this.calculateTotalCost(type, veterinarian),
+          status: 'pending',
+          paymentStatus: 'pending',
+          holdExpiresAt: new Date(confirmBy).toISOString(),
+          followUpOf: booking.id,
+        },
+      });
+
+      await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: {
+          followUpStatus: 'proposed',
+          followUpLastReminderAt: new Date().toISOString(),
+        },
+      });
+
+      payload.logger.info(`Provisional follow-up ${followUpBooking.id} created for booking ${booking.id} at ${scheduledAt.toISOString()}`);
+
+      await this.notifyFollowUp(booking, followUpBooking);
+      return followUpBooking;
+    } finally {
+      await this.slotHold.releaseHold(hold.id);
+    }
+  }
+
+  // A booking can only follow up the owner's own completed consultation for the same dog
+  async assertFollowUpOrigin(followUpOf: string, userId: string, dogId: string): Promise<any> {
+    const result = await payload.find({
+      collection: 'bookings',
+      where: {
+        id: { equals: followUpOf },
+      },
+      limit: 1,
+      depth: 0,
+    });
+    const original = result.docs[0];
+
+    if (
+      !original
+      || getId(original.user) !== userId
+      || getId(original.dog) !== dogId
+      || !original.followUpRequired
+      || original.status !== 'completed'
+    ) {
+      throw ErrorUtils.createAppError('Not a follow-up of one of your completed consultations for this dog', 400, 'INVALID_FOLLOW_UP');
+    }
+
+    return original;
+  }
+
+  // The owner confirms a provisional follow-up by paying for it like any other booking
+  async confirmFollowUp(bookingId: string, actor: any): Promise<{ booking: any; paymentIntent: any }> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!this.isBookingOwner(booking, actor)) {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    if (!booking.followUpOf || booking.status !== 'pending' || booking.paymentStatus !== 'pending') {
+      throw ErrorUtils.createAppError('No provisional follow-up to confirm', 400, 'INVALID_STATUS');
+    }
+
+    if (booking.holdExpiresAt && new Date(booking.holdExpiresAt) <= new Date()) {
+      throw ErrorUtils.createAppError('The reserved slot has expired', 409, 'HOLD_EXPIRED');
+    }
+
+    const paymentIntent = await this.payment.createBookingPayment(
+      { ...booking, dog: getId(booking.dog), veterinarian: getId(booking.veterinarian) },
+      actor
+    );
+
+    return { booking, paymentIntent };
+  }
+
+  async declineFollowUp(bookingId: string, actor: any): Promise<any> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!booking.followUpOf) {
+      throw ErrorUtils.createAppError('Booking is not a follow-up', 400, 'INVALID_STATUS');
+    }
+
+    const { booking: cancelled } = await this.cancelBooking(booking.id, actor, {
+      reason: 'client_request',
+      notes: 'Follow-up rifiutato dal proprietario',
+    });
+
+    await payload.update({
+      collection: 'bookings',
+      id: getId(booking.followUpOf),
+      data: { followUpStatus: 'declined' },
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * Remind owners who have not confirmed or booked their follow-up yet.
+   * Runs daily; each owner is reminded at most every few days.
+   */
+  async sendFollowUpReminders(): Promise<number> {
+    const now = Date.now();
+    const remindBefore = new Date(now - FOLLOW_UP_REMINDER_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const pending = await payload.find({
+      collection: 'bookings',
+      where: {
+        followUpStatus: { in: ['proposed', 'invited'] },
+        followUpDate: { greater_than: new Date(now - FOLLOW_UP_REMINDER_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString() },
+        or: [
+          { followUpLastReminderAt: { exists: false } },
+          { followUpLastReminderAt: { less_than: remindBefore } },
+        ],
+      },
+      populate: ['user', 'dog', 'veterinarian'],
+      limit: 200,
+    });
+
+    for (const booking of pending.docs) {
+      let provisional = null;
+      if (booking.followUpStatus === 'proposed') {
+        const followUps = await payload.find({
+          collection: 'bookings',
+          where: {
+            followUpOf: { equals: booking.id },
+            status: { equals: 'pending' },
+            holdExpiresAt: { greater_than: new Date().toISOString() },
+          },
+          limit: 1,
+        });
+        provisional = followUps.docs[0] || null;
+      }
+
+      await this.notifyFollowUp(booking, provisional);
+      await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: { followUpLastReminderAt: new Date().toISOString() },
+      });
+    }
+
+    return pending.docs.length;
+  }
+
+  // Consultations whose follow-up date has passed without a visit being booked
+  async getOverdueFollowUps(veterinarianId: string): Promise<any[]> {
+    const overdue = await payload.find({
+      collection: 'bookings',
+      where: {
+        veterinarian: { equals: veterinarianId },
+        status: { equals: 'completed' },
+        followUpRequired: { equals: true },
+        followUpDate: { less_than: new Date().toISOString() },
+        or: [
+          { followUpStatus: { exists: false } },
+          { followUpStatus: { in: ['proposed', 'invited'] } },
+        ],
+      },
+      populate: ['user', 'dog'],
+      sort: 'followUpDate',
+      limit: 100,
+    });
+
+    return overdue.docs;
+  }
+
+  private async findNearestSlot(veterinarianId: string, from: Date, type: string, duration: number): Promise<Date | null> {
+    const { db } = await import('@doggo/database');
+    const start = new Date(Math.max(from.getTime(), Date.now()));
+    start.setHours(0, 0, 0, 0);
+
+    for (let day = 0; day <= FOLLOW_UP_SEARCH_DAYS; day++) {
+      const date = new Date(start);
+      date.setDate(start.getDate() + day);
+
+      const availableSlots = await db.getVeterinarianAvailability(veterinarianId, date, { bookingType: type, duration });
+      const freeSlots = await this.slotHold.filterHeldSlots(veterinarianId, date, availableSlots, duration);
+
+      for (const slot of freeSlots) {
+        const [hours, minutes] = slot.split(':').map(Number);
+        const slotStart = new Date(date);
+        slotStart.setHours(hours, minutes, 0, 0);
+        // Give the owner at least a few hours' notice
+        if (slotStart.getTime() > Date.now() + 4 * 60 * 60 * 1000) {
+          return slotStart;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async notifyFollowUp(booking: any, followUpBooking: any | null): Promise<void> {
+    const owner = booking.user;
+    const ownerId = getId(owner);
+
+    try {
+      if (followUpBooking) {
+        await this.notification.sendFollowUpProposal(ownerId, booking, followUpBooking);
+      } else {
+        await this.notification.sendFollowUpInvitation(ownerId, booking);
+      }
+
+      if (owner?.email && owner.preferences?.notifications?.email !== false) {
+        if (followUpBooking) {
+          await this.email.sendFollowUpProposal(followUpBooking, owner, booking.dog, booking.veterinarian, booking.followUpNotes);
+        } else {
+          await this.email.sendFollowUpInvitation(booking, owner, booking.dog, booking.veterinarian);
+        }
+      }
+    } catch (error) {
+      payload.logger.warn(`Failed to notify follow-up of booking ${booking.id}:`, error);
+    }
+  }
+
+  // The owner always gets the email, whose invite removes the visit from their calendar
+  private async notifyCancellation(booking: any, actor: any, refundAmount: number): Promise<void> {
+    const owner = booking.user;
+
+    try {
+      if (!this.isBookingOwner(booking, actor)) {
+        await this.notification.sendBookingCancelled(getId(owner), booking, refundAmount);
+      }
+
+      if (owner?.email && owner.preferences?.notifications?.email !== false) {
+        await this.email.sendBookingCancelled(booking, owner, booking.dog, booking.veterinarian, refundAmount);
+      }
+    } catch (error) {
+      payload.logger.warn(`Failed to notify cancellation of booking ${booking.id}:`, error);
+    }
+  }
+
+  /**
+   * Pick the rooms and equipment a booking needs and add them to its slot hold,
+   * so vets of the same clinic cannot take the last room at the same time.
+   * The IDs are stored on the booking while the hold is still held.
+   */
+  async reserveResources(
+    hold: { id: string },
+    params: { veterinarianId: string; scheduledAt: Date; duration: number; type?: string; service?: string; excludeBookingId?: string }
+  ): Promise<string[]> {
+    const { db } = await import('@doggo/database');
+    const heldElsewhere: string[] = [];
+
+    for (let attempt = 0; attempt < RESOURCE_RESERVATION_ATTEMPTS; attempt++) {
+      const resourceIds = await db.allocateBookingResources(params.veterinarianId, params.scheduledAt, params.duration, {
+        bookingType: params.type,
+        service: params.service,
+        excludeBookingId: params.excludeBookingId,
+        excludeResourceIds: heldElsewhere,
+      });
+      if (resourceIds === null) break;
+
+      const contested = await this.slotHold.holdResources(hold.id, resourceIds);
+      if (contested.length === 0) return resourceIds;
+      heldElsewhere.push(...contested);
+    }
+
+    throw ErrorUtils.createAppError('Required rooms or equipment are not available at this time', 409, 'RESOURCES_UNAVAILABLE');
+  }
+
+  // A failed offer must never fail the cancellation or reschedule that freed the slot
+  async offerToWaitlist(veterinarianId: string, scheduledAt: Date, bookingType?: string): Promise<void> {
+    try {
+      await this.waitlist.offerFreedSlot(veterinarianId, scheduledAt, bookingType);
+    } catch (error) {
+      payload.logger.warn(`Failed to offer freed slot ${scheduledAt.toISOString()} to waitlist:`, error);
+    }
+  }
+
+  private async assertSlotAvailable(booking: any, date: Date): Promise<void> {
+    const { db } = await import('@doggo/database');
+    const availableSlots = await db.getVeterinarianAvailability(getId(booking.veterinarian), date, {
+      bookingType: booking.type,
+      service: booking.service,
+      duration: booking.duration,
+      excludeBookingId: booking.id,
+    });
+
+    const timeString = date.toTimeString().substr(0, 5);
+    if (!availableSlots.includes(timeString)) {
+      throw ErrorUtils.createAppError('Selected time slot is not available', 409, 'SLOT_UNAVAILABLE', {
+        scheduledAt: date.toISOString(),
+      });
+    }
+  }
+
+  // Tell whoever did not make the change: the owner when the vet or clinic moves it, the vet otherwise
+  private async notifyReschedule(booking: any, previousDate: Date, actor: any): Promise<void> {
+    try {
+      const veterinarianUserId = getId(booking.veterinarian?.user);
+      const recipientId = this.isBookingStaff(booking, actor) ? getId(booking.user) : veterinarianUserId;
+
+      const recipient = await payload.findByID({
+        collection: 'users',
+        id: recipientId,
+      });
+
+      await this.notification.sendBookingRescheduled(recipientId, booking, previousDate);
+
+      if (recipient?.email && recipient.preferences?.notifications?.email !== false) {
+        await this.email.sendBookingRescheduled(booking, recipient, booking.dog, booking.veterinarian, previousDate);
+      }
+
+      if (recipient?.phone && recipient.preferences?.notifications?.sms) {
+        await this.sms.sendBookingRescheduled(booking, recipient, booking.veterinarian);
+      }
+    } catch (error) {
+      payload.logger.warn(`Failed to notify reschedule of booking ${booking.id}:`, error);
+    }
+  }
+}
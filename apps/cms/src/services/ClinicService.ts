@@ -0,0 +1,287 @@
+import payload from 'payload';
+import { ErrorUtils, SchedulingUtils } from '@doggo/utils';
+import type { SlotHoldService } from './SlotHoldService';
+
+interface ClinicServiceDependencies {
+  slotHold: SlotHoldService;
+}
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class ClinicService {
+  private slotHold: SlotHoldService;
+
+  constructor(services: ClinicServiceDependencies) {
+    this.slotHold = services.slotHold;
+  }
+
+  async getClinic(clinicId: string): Promise<any> {
+    const clinic = await payload.findByID({
+      collection: 'clinics',
+      id: clinicId,
+      depth: 0,
+    });
+
+    if (!clinic || !clinic.isActive) {
+      throw ErrorUtils.createAppError('Clinic not found', 404, 'CLINIC_NOT_FOUND');
+    }
+
+    return clinic;
+  }
+
+  isClinicAdmin(clinic: any, user: any): boolean {
+    if (!clinic || !user?.id) return false;
+    const admins = Array.isArray(clinic.admins) ? clinic.admins : [];
+    return admins.some(admin => getId(admin) === user.id);
+  }
+
+  // The vet themselves, an administrator of their clinic, or an admin
+  async canManageVeterinarian(veterinarian: any, user: any): Promise<boolean> {
+    if (user.role === 'admin') return true;
+    if (getId(veterinarian.user) === user.id) return true;
+
+    const clinicId = getId(veterinarian.clinic);
+    if (!clinicId) return false;
+
+    const clinic = await payload.findByID({
+      collection: 'clinics',
+      id: clinicId,
+      depth: 0,
+    });
+
+    return this.isClinicAdmin(clinic, user);
+  }
+
+  async getVeterinarians(clinicId: string, options: { bookableOnly?: boolean } = {}): Promise<any[]> {
+    const where: any = {
+      clinic: { equals: clinicId },
+    };
+
+    if (options.bookableOnly) {
+      where.isVerified = { equals: true };
+      where.isAcceptingPatients = { equals: true };
+    }
+
+    const veterinarians = await payload.find({
+      collection: 'veterinarians',
+      where,
+      populate: ['user'],
+      sort: '-rating',
+      limit: 100,
+    });
+
+    return veterinarians.docs;
+  }
+
+  /**
+   * Group veterinarian search results by practice. Results keep their order,
+   * so with a location search the nearest clinic comes first; vets without a
+   * clinic are returned on their own.
+   */
+  groupByClinic(veterinarians: any[]): { clinics: any[]; veterinarians: any[] } {
+    const clinics = new Map<string, any>();
+    const independent: any[] = [];
+
+    for (const veterinarian of veterinarians) {
+      const clinicId = getId(veterinarian.clinic);
+      if (!clinicId) {
+        independent.push(veterinarian);
+        continue;
+      }
+
+      const clinic = clinics.get(clinicId) || {
+        ...(typeof veterinarian.clinic === 'object' ? veterinarian.clinic : { id: clinicId }),
+        veterinarians: [],
+      };
+      clinic.veterinarians.push(veterinarian);
+      if (veterinarian.distance !== undefined) {
+        clinic.distance = Math.min(clinic.distance ?? Infinity, veterinarian.distance);
+      }
+      clinics.set(clinicId, clinic);
+    }
+
+    return {
+      clinics: Array.from(clinics.values()),
+      veterinarians: independent,
+    };
+  }
+
+  async addVeterinarian(clinicId: string, veterinarianId: string, actor: any): Promise<any> {
+    const clinic = await this.getClinic(clinicId);
+    this.assertClinicAdmin(clinic, actor);
+
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id: veterinarianId,
+      depth: 0,
+    });
+
+    if (!veterinarian) {
+      throw ErrorUtils.createAppError('Veterinarian not found', 404, 'VETERINARIAN_NOT_FOUND');
+    }
+
+    const currentClinicId = getId(veterinarian.clinic);
+    if (currentClinicId === clinic.id) return veterinarian;
+
+    if (currentClinicId) {
+      throw ErrorUtils.createAppError('Veterinarian already belongs to another clinic', 409, 'VETERINARIAN_IN_OTHER_CLINIC');
+    }
+
+    // Name and address are copied from the clinic by the collection hook
+    const updated = await payload.update({
+      collection: 'veterinarians',
+      id: veterinarian.id,
+      data: { clinic: clinic.id },
+    });
+
+    await this.assignClinicToUpcomingBookings(veterinarian.id, clinic.id);
+    payload.logger.info(`Veterinarian ${veterinarian.id} added to clinic ${clinic.id}`);
+
+    return updated;
+  }
+
+  async removeVeterinarian(clinicId: string, veterinarianId: string, actor: any): Promise<any> {
+    const clinic = await this.getClinic(clinicId);
+
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id: veterinarianId,
+      depth: 0,
+    });
+
+    if (!veterinarian || getId(veterinarian.clinic) !== clinic.id) {
+      throw ErrorUtils.createAppError('Veterinarian not found in this clinic', 404, 'VETERINARIAN_NOT_FOUND');
+    }
+
+    // Vets may leave on their own
+    if (getId(veterinarian.user) !== actor.id) {
+      this.assertClinicAdmin(clinic, actor);
+    }
+
+    const updated = await payload.update({
+      collection: 'veterinarians',
+      id: veterinarian.id,
+      data: { clinic: null },
+    });
+
+    await this.assignClinicToUpcomingBookings(veterinarian.id, null);
+    payload.logger.info(`Veterinarian ${veterinarian.id} removed from clinic ${clinic.id}`);
+
+    return updated;
+  }
+
+  /**
+   * Free start times across the clinic for a booking type, with the vets
+   * available at each time, so owners can book "any available vet".
+   */
+  async getAvailability(clinicId: string, date: Date, type: string = 'general', service?: string): Promise<Array<{ time: string; veterinarianIds: string[] }>> {
+    await this.getClinic(clinicId);
+    const veterinarians = await this.getVeterinarians(clinicId, { bookableOnly: true });
+    const { db } = await import('@doggo/database');
+
+    const slotsByTime = new Map<string, string[]>();
+    for (const veterinarian of veterinarians) {
+      const duration = SchedulingUtils.getSlotDuration(type, veterinarian.slotSettings);
+      const slots = await db.getVeterinarianAvailability(veterinarian.id, date, { bookingType: type, service, duration });
+      const freeSlots = await this.slotHold.filterHeldSlots(veterinarian.id, date, slots, duration);
+
+      for (const time of freeSlots) {
+        slotsByTime.set(time, [...(slotsByTime.get(time) || []), veterinarian.id]);
+      }
+    }
+
+    return Array.from(slotsByTime.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([time, veterinarianIds]) => ({ time, veterinarianIds }));
+  }
+
+  /**
+   * Pick the vet for an "any available vet" booking: among the clinic's vets
+   * free at that time, the least busy that day.
+   */
+  async assignVeterinarian(clinicId: string, scheduledAt: Date, type: string, service?: string): Promise<any | null> {
+    await this.getClinic(clinicId);
+    const veterinarians = await this.getVeterinarians(clinicId, { bookableOnly: true });
+    const { db } = await import('@doggo/database');
+    const timeString = scheduledAt.toTimeString().substr(0, 5);
+
+    const dayStart = new Date(scheduledAt);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(scheduledAt);
+    dayEnd.setHours(23, 59, 59, 999);
+
+    const candidates: Array<{ veterinarianId: string; bookingsThatDay: number; rating?: number; veterinarian: any }> = [];
+    for (const veterinarian of veterinarians) {
+      const duration = SchedulingUtils.getSlotDuration(type, veterinarian.slotSettings);
+      const slots = await db.getVeterinarianAvailability(veterinarian.id, scheduledAt, { bookingType: type, service, duration });
+      const freeSlots = await this.slotHold.filterHeldSlots(veterinarian.id, scheduledAt, slots, duration);
+      if (!freeSlots.includes(timeString)) continue;
+
+      const bookings = await payload.find({
+        collection: 'bookings',
+        where: {
+          veterinarian: { equals: veterinarian.id },
+          status: { in: ['pending', 'confirmed', 'in_progress'] },
+          scheduledAt: {
+            greater_than_equal: dayStart.toISOString(),
+            less_than_equal: dayEnd.toISOString(),
+          },
+        },
+        limit: 1,
+        depth: 0,
+      });
+
+      candidates.push({
+        veterinarianId: veterinarian.id,
+        bookingsThatDay: bookings.totalDocs,
+        rating: veterinarian.rating,
+        veterinarian,
+      });
+    }
+
+    return SchedulingUtils.pickVeterinarian(candidates)?.veterinarian || null;
+  }
+
+  // Bookings of every vet in the clinic, for the clinic's shared calendar
+  async getCalendar(clinicId: string, actor: any, from: Date, to: Date): Promise<any[]> {
+    const clinic = await this.getClinic(clinicId);
+    this.assertClinicAdmin(clinic, actor);
+
+    const bookings = await payload.find({
+      collection: 'bookings',
+      where: {
+        clinic: { equals: clinic.id },
+        scheduledAt: {
+          greater_than_equal: from.toISOString(),
+          less_than_equal: to.toISOString(),
+        },
+        status: { in: ['pending', 'confirmed', 'in_progress', 'completed'] },
+      },
+      populate: ['user', 'dog', 'veterinarian'],
+      sort: 'scheduledAt',
+      limit: 500,
+    });
+
+    return bookings.docs;
+  }
+
+  private assertClinicAdmin(clinic: any, actor: any): void {
+    if (actor.role !== 'admin' && !this.isClinicAdmin(clinic, actor)) {
+      throw ErrorUtils.createAppError('Only clinic administrators can do this', 403, 'ACCESS_DENIED');
+    }
+  }
+
+  // Upcoming visits follow the vet into (or out of) the clinic's calendar
+  private async assignClinicToUpcomingBookings(veterinarianId: string, clinicId: string | null): Promise<void> {
+    await payload.update({
+      collection: 'bookings',
+      where: {
+        veterinarian: { equals: veterinarianId },
+        status: { in: ['pending', 'confirmed'] },
+        scheduledAt: { greater_than: new Date().toISOString() },
+      },
+      data: { clinic: clinicId },
+    });
+  }
+}
@@ -1,5 +1,14 @@
 import sgMail from '@sendgrid/mail';
 import payload from 'payload';
+import { CalendarUtils } from '@doggo/utils';
+import type { VaccinationScheduleItem } from '@doggo/types';
+
+export interface EmailAttachment {
+  content: string; // base64
+  filename: string;
+  type: string;
+  disposition?: 'attachment' | 'inline';
+}
 
 export class EmailService {
   constructor() {
@@ -8,7 +17,7 @@ export class EmailService {
     }
   }
 
-  async sendEmail(to: string, subject: string, html: string, text?: string) {
+  async sendEmail(to: string, subject: string, html: string, text?: string, attachments?: EmailAttachment[]) {
     if (!process.env.SENDGRID_API_KEY) {
       console.log('📧 Email would be sent (no SendGrid configured):', { to, subject });
       return;
@@ -23,6 +32,7 @@ export class EmailService {
       subject,
       html,
       text: text || html.replace(/<[^>]*>/g, ''),
+      ...(attachments?.length && { attachments }),
     };
 
     try {
@@ -34,7 +44,7 @@ export class EmailService {
     }
   }
 
-  async sendTemplatedEmail(to: string, subject: string, templateId: string, data: any) {
+  async sendTemplatedEmail(to: string, subject: string, templateId: string, data: any, attachments?: EmailAttachment[]) {
     try {
       // Get template from database
       const template = await payload.findGlobal({
@@ -60,7 +70,7 @@ export class EmailService {
         finalSubject = finalSubject.replace(regex, data[key] || '');
       });
 
-      await this.sendEmail(to, finalSubject, html, text);
+      await this.sendEmail(to, finalSubject, html, text, attachments);
     } catch (error) {
       payload.logger.error(`Failed to send templated email ${templateId}:`, error);
       throw error;
@@ -94,6 +104,165 @@ export class EmailService {
           minute: '2-digit',
         }),
         bookingType: this.getBookingTypeLabel(booking.type),
+      },
+      [this.createBookingInvite({ ...booking, dog, veterinarian })]
+    );
+  }
+
+  async sendBookingRescheduled(booking: any, user: any, dog: any, veterinarian: any, previousDate: Date) {
+    await this.sendTemplatedEmail(
+      user.email,
+      'Visita Spostata',
+      'booking_rescheduled',
+      {
+        firstName: user.firstName,
+        dogName: dog.name,
+        clinicName: veterinarian.clinicName,
+        previousDate: previousDate.toLocaleDateString('it-IT'),
+        previousTime: previousDate.toLocaleTimeString('it-IT', {
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+        date: new Date(booking.scheduledAt).toLocaleDateString('it-IT'),
+        time: new Date(booking.scheduledAt).toLocaleTimeString('it-IT', {
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+        bookingType: this.getBookingTypeLabel(booking.type),
+      },
+      [this.createBookingInvite({ ...booking, dog, veterinarian })]
+    );
+  }
+
+  async sendBookingCancelled(booking: any, user: any, dog: any, veterinarian: any, refundAmount: number) {
+    await this.sendTemplatedEmail(
+      user.email,
+      'Visita Cancellata',
+      'booking_cancelled',
+      {
+        firstName: user.firstName,
+        dogName: dog.name,
+        clinicName: veterinarian.clinicName,
+        date: new Date(booking.scheduledAt).toLocaleDateString('it-IT'),
+        time: new Date(booking.scheduledAt).toLocaleTimeString('it-IT', {
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+        bookingType: this.getBookingTypeLabel(booking.type),
+        refundAmount: refundAmount > 0 ? `${refundAmount.toFixed(2)}€` : '-',
+      },
+      [this.createBookingInvite({ ...booking, dog, veterinarian }, 'CANCEL')]
+    );
+  }
+
+  // Same UID as the confirmation, so mail clients update the entry they already added;
+  // a CANCEL invite removes it
+  createBookingInvite(booking: any, method: 'PUBLISH' | 'CANCEL' = 'PUBLISH'): EmailAttachment {
+    const ics = CalendarUtils.buildCalendar(
+      [CalendarUtils.bookingToEvent(booking, process.env.NEXTAUTH_URL)],
+      { method }
+    );
+
+    return {
+      content: Buffer.from(ics).toString('base64'),
+      filename: 'visita.ics',
+      type: `text/calendar; method=${method}`,
+      disposition: 'attachment',
+    };
+  }
+
+  async sendRescheduleProposal(booking: any, user: any, dog: any, veterinarian: any, slots: Date[]) {
+    await this.sendTemplatedEmail(
+      user.email,
+      'Proposta Nuovo Orario',
+      'reschedule_proposal',
+      {
+        firstName: user.firstName,
+        dogName: dog.name,
+        clinicName: veterinarian.clinicName,
+        slots: slots
+          .map(slot => `${slot.toLocaleDateString('it-IT')} ${slot.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}`)
+          .join(', '),
+        bookingUrl: `${process.env.NEXTAUTH_URL}/bookings/${booking.id}`,
+      }
+    );
+  }
+
+  async sendFollowUpProposal(followUpBooking: any, user: any, dog: any, veterinarian: any, followUpNotes?: string) {
+    await this.sendTemplatedEmail(
+      user.email,
+      'Controllo di Follow-up',
+      'follow_up_proposal',
+      {
+        firstName: user.firstName,
+        dogName: dog.name,
+        clinicName: veterinarian.clinicName,
+        date: new Date(followUpBooking.scheduledAt).toLocaleDateString('it-IT'),
+        time: new Date(followUpBooking.scheduledAt).toLocaleTimeString('it-IT', {
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+        followUpNotes: followUpNotes || '-',
+        confirmBy: new Date(followUpBooking.holdExpiresAt).toLocaleString('it-IT', {
+          day: '2-digit',
+          month: '2-digit',
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+        bookingUrl: `${process.env.NEXTAUTH_URL}/bookings/${followUpBooking.id}`,
+      },
+      [this.createBookingInvite({ ...followUpBooking, dog, veterinarian })]
+    );
+  }
+
+  async sendFollowUpInvitation(booking: any, user: any, dog: any, veterinarian: any) {
+    await this.sendTemplatedEmail(
+      user.email,
+      'Controllo di Follow-up',
+      'follow_up_invitation',
+      {
+        firstName: user.firstName,
+        dogName: dog.name,
+        clinicName: veterinarian.clinicName,
+        followUpDate: new Date(booking.followUpDate).toLocaleDateString('it-IT'),
+        followUpNotes: booking.followUpNotes || '-',
+        bookingUrl: `${process.env.NEXTAUTH_URL}/veterinarians/${veterinarian.id}?followUpOf=${booking.id}`,
+      }
+    );
+  }
+
+  async sendVaccinationReminder(user: any, dog: any, items: VaccinationScheduleItem[]) {
+    const overdue = items.some(item => item.status === 'overdue');
+
+    await this.sendTemplatedEmail(
+      user.email,
+      overdue ? 'Vaccinazioni Scadute' : 'Promemoria Vaccinazioni',
+      'vaccination_reminder',
+      {
+        firstName: user.firstName,
+        dogName: dog.name,
+        vaccines: items
+          .map(item => `${item.name}: ${new Date(item.nextDueDate).toLocaleDateString('it-IT')}`)
+          .join('\n'),
+        overdue: overdue ? 'sì' : 'no',
+        scheduleUrl: `${process.env.NEXTAUTH_URL}/dogs/${dog.id}/vaccinations`,
+        bookingUrl: `${process.env.NEXTAUTH_URL}/veterinarians`,
+      }
+    );
+  }
+
+  async sendDogFound(user: any, dog: any, found: { where: string; contact: { name?: string; phone?: string }; lostReportId?: string }) {
+    await this.sendTemplatedEmail(
+      user.email,
+      `🐾 ${dog.name || 'Il tuo cane'} è stato trovato`,
+      'dog_found',
+      {
+        firstName: user.firstName,
+        dogName: dog.name || 'il tuo cane',
+        where: found.where || '-',
+        contactName: found.contact.name || '-',
+        contactPhone: found.contact.phone || '-',
+        resolveUrl: found.lostReportId ? `${process.env.NEXTAUTH_URL}/emergencies/${found.lostReportId}` : '',
       }
     );
   }
@@ -243,6 +412,7 @@ export class EmailService {
       urgent: 'Visita Urgente',
       specialist: 'Visita Specialistica',
       telemedicine: 'Telemedicina',
+      surgery: 'Intervento Chirurgico',
     };
     return labels[type as keyof typeof labels] || type;
   }
@@ -0,0 +1,434 @@
+import payload from 'payload';
+import { ErrorUtils, LostFoundMatcher, ValidationUtils } from '@doggo/utils';
+import type { LostFoundMatch, LostFoundReport } from '@doggo/types';
+import type { EmailService } from './EmailService';
+import type { SMSService } from './SMSService';
+import type { NotificationService } from './NotificationService';
+
+interface EmergencyServiceDependencies {
+  email: EmailService;
+  sms: SMSService;
+  notification: NotificationService;
+}
+
+// Reports about a dog someone has in front of them, as opposed to a lost dog
+const FOUND_EMERGENCY_TYPES = ['found_dog', 'injured_dog', 'abandoned_dog'];
+
+// Reporters hear about at most this many new candidates per report
+const MAX_NOTIFIED_CANDIDATES = 3;
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class EmergencyService {
+  private email: EmailService;
+  private sms: SMSService;
+  private notification: NotificationService;
+
+  constructor(services: EmergencyServiceDependencies) {
+    this.email = services.email;
+    this.sms = services.sms;
+    this.notification = services.notification;
+  }
+
+  /**
+   * Join a report's microchip with the registry. A found dog alerts its owner
+   * and is linked to the owner's open lost-dog report; a lost-dog report filed
+   * by the chip's registered owner is linked to an open found report for it.
+   */
+  async matchMicrochip(emergencyId: string): Promise<any | null> {
+    const emergency = await payload.findByID({
+      collection: 'emergencies',
+      id: emergencyId,
+      depth: 0,
+    });
+
+    const microchipNumber = emergency?.dogInfo?.microchipNumber;
+    if (!emergency || emergency.isResolved || !microchipNumber || !ValidationUtils.validateMicrochip(microchipNumber)) {
+      return null;
+    }
+
+    const dog = await this.findDogByMicrochip(microchipNumber);
+
+    if (emergency.type === 'lost_dog') {
+      // Chip numbers of found dogs are public: only the registered owner is matched
+      if (!dog?.owner || getId(dog.owner) !== getId(emergency.reporter)) {
+        return null;
+      }
+
+      const found = await this.findOpenReports(FOUND_EMERGENCY_TYPES, { microchipNumber });
+      const match = found.find(report => report.id !== emergency.id);
+      if (!match) return null;
+
+      await this.linkReports(emergency, match, dog);
+      await this.notifyOwner(getId(emergency.reporter), dog, {
+        foundReport: match,
+        lostReport: emergency,
+      });
+      return match;
+    }
+
+    if (!dog?.owner || getId(dog.owner) === getId(emergency.reporter)) {
+      return null;
+    }
+
+    await payload.update({
+      collection: 'emergencies',
+      id: emergency.id,
+      data: { matchedDog: dog.id },
+    });
+
+    const lostReport = await this.findOwnerLostReport(getId(dog.owner), microchipNumber);
+    if (lostReport) {
+      await this.linkReports(lostReport, emergency, dog);
+    }
+
+    await this.notifyOwner(getId(dog.owner), dog, { foundReport: emergency, lostReport });
+
+    return lostReport || null;
+  }
+
+  // A vet or shelter scans a chip: the owner is alerted with the clinic's contacts
+  async reportScan(
+    microchipNumber: string,
+    user: any,
+    details: { address?: string; notes?: string } = {}
+  ): Promise<{ dog: { id: string; name: string }; ownerNotified: boolean; lostReportId?: string }> {
+    if (!ValidationUtils.validateMicrochip(microchipNumber)) {
+      throw ErrorUtils.createAppError('Invalid microchip number', 400, 'INVALID_MICROCHIP');
+    }
+
+    const dog = await this.findDogByMicrochip(microchipNumber);
+    if (!dog) {
+      throw ErrorUtils.createAppError('No dog registered with this microchip', 404, 'MICROCHIP_NOT_FOUND');
+    }
+
+    const ownerId = getId(dog.owner);
+    if (!ownerId || ownerId === user.id) {
+      return { dog: { id: dog.id, name: dog.name }, ownerNotified: false };
+    }
+
+    const organization = await this.getOrganization(user);
+    const lostReport = await this.findOwnerLostReport(ownerId, microchipNumber);
+
+    await this.notifyOwner(ownerId, dog, {
+      lostReport,
+      scan: {
+        organization,
+        phone: user.phone,
+        address: details.address,
+        notes: details.notes,
+      },
+    });
+
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(user.id, 'microchip_scanned', 'dog', dog.id, undefined, {
+      microchipNumber,
+      organization,
+      lostReportId: lostReport?.id,
+    });
+
+    return { dog: { id: dog.id, name: dog.name }, ownerNotified: true, lostReportId: lostReport?.id };
+  }
+
+  // The owner confirms the reunion and closes both linked reports
+  async resolveLinked(emergencyId: string, user: any, notes?: string): Promise<string[]> {
+    const emergency = await payload.findByID({
+      collection: 'emergencies',
+      id: emergencyId,
+      depth: 0,
+    });
+
+    if (!emergency) {
+      throw ErrorUtils.createAppError('Emergency not found', 404, 'EMERGENCY_NOT_FOUND');
+    }
+
+    const linkedId = getId(emergency.linkedEmergency);
+    if (!linkedId) {
+      throw ErrorUtils.createAppError('This report is not linked to another one', 400, 'NOT_LINKED');
+    }
+
+    const linked = await payload.findByID({
+      collection: 'emergencies',
+      id: linkedId,
+      depth: 0,
+    });
+    if (user.role !== 'admin' && !(await this.ownsMatchedDog(user, [emergency, linked]))) {
+      throw ErrorUtils.createAppError('Only the registered owner of the dog can confirm the reunion', 403, 'ACCESS_DENIED');
+    }
+
+    const resolved: string[] = [];
+    for (const report of [emergency, linked]) {
+      if (!report || report.isResolved) continue;
+
+      await payload.update({
+        collection: 'emergencies',
+        id: report.id,
+        data: {
+          isResolved: true,
+          resolvedAt: new Date(),
+          resolvedBy: user.id,
+          resolutionNotes: notes || 'Cane riconsegnato al proprietario tramite microchip',
+        },
+      });
+      resolved.push(report.id);
+    }
+
+    const finderReport = [emergency, linked].find(report => report && report.type !== 'lost_dog');
+    if (finderReport && getId(finderReport.reporter) !== user.id) {
+      try {
+        await this.notification.sendNotification(
+          getId(finderReport.reporter),
+          'dog_found',
+          'Cane Riconsegnato',
+          `Grazie! Il proprietario ha confermato di aver ritrovato ${finderReport.dogInfo?.name || 'il cane'} che hai segnalato`,
+          {
+            emergencyId: finderReport.id,
+          }
+        );
+      } catch (error) {
+        payload.logger.warn(`Failed to notify finder of emergency ${finderReport.id}:`, error);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Compare a report with the open reports of the other kind and tell both
+   * reporters about likely pairs they have not heard about yet.
+   */
+  async matchSimilarReports(emergencyId: string): Promise<LostFoundMatch[]> {
+    const emergency = await payload.findByID({
+      collection: 'emergencies',
+      id: emergencyId,
+      depth: 0,
+    });
+    // Reports already paired through the microchip registry need no suggestions
+    if (!emergency || emergency.isResolved || emergency.linkedEmergency) return [];
+
+    const candidates = await this.rankCandidates(emergency);
+    const alreadyNotified = new Set((emergency.candidateMatches || []).map((candidate: any) => candidate.emergencyId));
+
+    const newCandidates = candidates
+      .filter(({ report }) => !alreadyNotified.has(report.id))
+      .slice(0, MAX_NOTIFIED_CANDIDATES);
+
+    for (const { report, ...match } of newCandidates) {
+      await this.recordCandidate(emergency, report, match);
+      await this.recordCandidate(report, emergency, match);
+    }
+
+    return candidates.map(({ report, ...match }) => match);
+  }
+
+  // Ranked candidates for a report, shown to its reporter
+  async getCandidates(emergencyId: string, user: any): Promise<Array<LostFoundMatch & { report: any }>> {
+    const emergency = await payload.findByID({
+      collection: 'emergencies',
+      id: emergencyId,
+      depth: 0,
+    });
+
+    if (!emergency) {
+      throw ErrorUtils.createAppError('Emergency not found', 404, 'EMERGENCY_NOT_FOUND');
+    }
+
+    if (user.role !== 'admin' && getId(emergency.reporter) !== user.id) {
+      throw ErrorUtils.createAppError('Only the reporter can see candidate matches', 403, 'ACCESS_DENIED');
+    }
+
+    const candidates = await this.rankCandidates(emergency);
+
+    return candidates.slice(0, 20).map(({ report, ...match }) => ({
+      ...match,
+      report: {
+        id: report.id,
+        type: report.type,
+        title: report.title,
+        dogInfo: report.dogInfo,
+        location: { address: report.location?.address },
+        photos: report.photos,
+        contactInfo: report.contactInfo,
+        createdAt: report.createdAt,
+      },
+    }));
+  }
+
+  // Open, unpaired reports of the opposite kind scored against this one, best first
+  private async rankCandidates(emergency: any): Promise<Array<LostFoundMatch & { report: any }>> {
+    const isLost = emergency.type === 'lost_dog';
+    const others = (await this.findOpenReports(isLost ? FOUND_EMERGENCY_TYPES : ['lost_dog'], {}, 500))
+      .filter(other => !other.linkedEmergency);
+    const reportsById = new Map(others.map(other => [other.id, other]));
+    const report = this.toLostFoundReport(emergency);
+    const candidates = others.map(other => this.toLostFoundReport(other));
+
+    const matches = isLost
+      ? LostFoundMatcher.rankCandidates([report], candidates)
+      : LostFoundMatcher.rankCandidates(candidates, [report]);
+
+    return matches.map(match => ({
+      ...match,
+      report: reportsById.get(isLost ? match.foundReportId : match.lostReportId),
+    }));
+  }
+
+  private async recordCandidate(report: any, other: any, match: LostFoundMatch): Promise<void> {
+    const candidateMatches = [
+      ...(report.candidateMatches || []).filter((candidate: any) => candidate.emergencyId !== other.id),
+      { emergencyId: other.id, score: match.score, notifiedAt: new Date().toISOString() },
+    ];
+
+    await payload.update({
+      collection: 'emergencies',
+      id: report.id,
+      data: { candidateMatches },
+    });
+    report.candidateMatches = candidateMatches;
+
+    try {
+      await this.notification.sendLostFoundCandidate(getId(report.reporter), report, other, match.score);
+    } catch (error) {
+      payload.logger.warn(`Failed to notify reporter of emergency ${report.id} about a candidate match:`, error);
+    }
+  }
+
+  private toLostFoundReport(emergency: any): LostFoundReport {
+    return {
+      id: emergency.id,
+      type: emergency.type,
+      reporterId: getId(emergency.reporter),
+      dogInfo: emergency.dogInfo || {},
+      coordinates: emergency.location?.coordinates,
+      reportedAt: emergency.createdAt,
+    };
+  }
+
+  private async findDogByMicrochip(microchipNumber: string): Promise<any> {
+    const dogs = await payload.find({
+      collection: 'dogs',
+      where: {
+        microchipNumber: { equals: microchipNumber },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    return dogs.docs[0];
+  }
+
+  private async findOpenReports(types: string[], where: { microchipNumber?: string; reporter?: string }, limit = 20): Promise<any[]> {
+    const result = await payload.find({
+      collection: 'emergencies',
+      where: {
+        type: { in: types },
+        isResolved: { equals: false },
+        ...(where.microchipNumber && { 'dogInfo.microchipNumber': { equals: where.microchipNumber } }),
+        ...(where.reporter && { reporter: { equals: where.reporter } }),
+      },
+      sort: '-createdAt',
+      limit,
+      depth: 0,
+    });
+
+    return result.docs;
+  }
+
+  // The owner's open lost-dog report for this chip, or one that has no chip recorded
+  private async findOwnerLostReport(ownerId: string, microchipNumber: string): Promise<any | null> {
+    const reports = await this.findOpenReports(['lost_dog'], { reporter: ownerId });
+
+    return reports.find(report => report.dogInfo?.microchipNumber === microchipNumber)
+      || reports.find(report => !report.dogInfo?.microchipNumber)
+      || null;
+  }
+
+  // The dog the chip registry matched to the linked reports belongs to this user
+  private async ownsMatchedDog(user: any, reports: any[]): Promise<boolean> {
+    const dogId = reports.map(report => getId(report?.matchedDog)).find(Boolean);
+    if (!dogId) return false;
+
+    const dog = await payload.findByID({
+      collection: 'dogs',
+      id: dogId,
+      depth: 0,
+    });
+
+    return Boolean(dog?.owner) && getId(dog.owner) === user.id;
+  }
+
+  private async linkReports(lostReport: any, foundReport: any, dog?: any): Promise<void> {
+    for (const [report, other] of [[lostReport, foundReport], [foundReport, lostReport]]) {
+      if (getId(report.linkedEmergency) === other.id) continue;
+
+      await payload.update({
+        collection: 'emergencies',
+        id: report.id,
+        data: {
+          linkedEmergency: other.id,
+          ...(dog && { matchedDog: dog.id }),
+        },
+      });
+    }
+
+    payload.logger.info(`Linked lost report ${lostReport.id} with found report ${foundReport.id}`);
+  }
+
+  // Urgent enough to use every channel the owner has, whatever their preferences
+  private async notifyOwner(
+    ownerId: string,
+    dog: any,
+    context: {
+      foundReport?: any;
+      lostReport?: any;
+      scan?: { organization: string; phone?: string; address?: string; notes?: string };
+    }
+  ): Promise<void> {
+    const owner = await payload.findByID({
+      collection: 'users',
+      id: ownerId,
+      depth: 0,
+    });
+    if (!owner) return;
+
+    const where = context.scan?.organization || context.foundReport?.location?.address || '';
+    const contact = context.scan
+      ? { name: context.scan.organization, phone: context.scan.phone }
+      : { name: context.foundReport?.contactInfo?.name, phone: context.foundReport?.contactInfo?.phone };
+
+    const channels = [
+      this.notification.sendDogFound(owner.id, dog, {
+        where,
+        contact,
+        foundReportId: context.foundReport?.id,
+        lostReportId: context.lostReport?.id,
+      }),
+      owner.email && this.email.sendDogFound(owner, dog, { where, contact, lostReportId: context.lostReport?.id }),
+      owner.phone && this.sms.sendDogFound(owner, dog, { where, contact }),
+    ];
+
+    const results = await Promise.allSettled(channels.filter(Boolean));
+    results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .forEach(result => payload.logger.warn(`Failed to alert owner ${owner.id} of found dog:`, result.reason));
+  }
+
+  private async getOrganization(user: any): Promise<string> {
+    const collection = user.role === 'veterinarian' ? 'veterinarians' : user.role === 'shelter' ? 'shelters' : null;
+    if (collection) {
+      const profiles = await payload.find({
+        collection,
+        where: {
+          user: { equals: user.id },
+        },
+        limit: 1,
+        depth: 0,
+      });
+      const profile = profiles.docs[0];
+      if (profile) return profile.clinicName || profile.name;
+    }
+
+    return [user.firstName, user.lastName].filter(Boolean).join(' ');
+  }
+}
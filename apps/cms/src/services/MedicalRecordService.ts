@@ -0,0 +1,807 @@
+import payload from 'payload';
+import { ErrorUtils, MedicalRecordUtils, ValidationUtils } from '@doggo/utils';
+import type { EmergencyMedicalProfile, MedicalRecordSummary } from '@doggo/types';
+import type { NotificationService } from './NotificationService';
+
+interface MedicalRecordServiceDependencies {
+  notification: NotificationService;
+}
+
+export interface MedicalRecordEntryInput {
+  type: string;
+  title: string;
+  description?: string;
+  recordedAt?: string;
+  status?: 'active' | 'resolved';
+  endDate?: string;
+  details?: Record<string, any>;
+  documentId?: string;
+}
+
+export type MedicalRecordAccess = 'read' | 'write' | 'documents';
+
+export interface MedicalRecordGrantInput {
+  granteeEmail: string;
+  scopes: Array<'read_medical' | 'read_documents' | 'write_notes'>;
+  expiresAt: string;
+  note?: string;
+}
+
+export interface EmergencyAccessContext {
+  reason: string;
+  isEmergency: boolean; // Self-declared through the emergencyAccess middleware
+  emergencyId?: string; // Open found or injured report about the scanned dog
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Grant scope that allows each kind of access
+const GRANT_SCOPES: Record<MedicalRecordAccess, string> = {
+  read: 'read_medical',
+  write: 'write_notes',
+  documents: 'read_documents',
+};
+
+const BOOKING_TYPE_LABELS: Record<string, string> = {
+  general: 'Visita generale',
+  urgent: 'Visita urgente',
+  specialist: 'Visita specialistica',
+  telemedicine: 'Televisita',
+  surgery: 'Chirurgia',
+};
+
+// Reports about a dog the responder has in front of them
+const EMERGENCY_PROFILE_REPORT_TYPES = ['found_dog', 'injured_dog'];
+
+// A vet who has one of these bookings with the dog has actually seen it
+const VISIT_BOOKING_STATUSES = ['in_progress', 'completed'];
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class MedicalRecordService {
+  private notification: NotificationService;
+  private maxGrantDays: number;
+  private visitAccessDays: number;
+  private selfDeclaredEmergencyLimit: number;
+
+  constructor(services: MedicalRecordServiceDependencies) {
+    this.notification = services.notification;
+    this.maxGrantDays = parseInt(process.env.MEDICAL_RECORD_GRANT_MAX_DAYS || '365');
+    this.visitAccessDays = parseInt(process.env.MEDICAL_RECORD_VISIT_ACCESS_DAYS || '30');
+    this.selfDeclaredEmergencyLimit = parseInt(process.env.EMERGENCY_SELF_DECLARED_DAILY_LIMIT || '3');
+  }
+
+  /**
+   * Owners and admins can read a dog's record and documents; vets can read it
+   * during a visit and for a limited time after it; anything else, writing
+   * included, needs an active grant from the owner with the matching scope.
+   * Every access by someone other than the owner is written to the audit log.
+   */
+  async assertAccess(dogId: string, user: any, access: MedicalRecordAccess): Promise<{ dog: any; veterinarian?: any; grant?: any }> {
+    const dog = await payload.findByID({
+      collection: 'dogs',
+      id: dogId,
+      depth: 0,
+    });
+
+    if (!dog) {
+      throw ErrorUtils.createAppError('Dog not found', 404, 'DOG_NOT_FOUND');
+    }
+
+    if (user.role === 'admin') {
+      await this.logAccess(dogId, user, access, 'admin');
+      return { dog };
+    }
+
+    if (getId(dog.owner) === user.id && access !== 'write') {
+      return { dog };
+    }
+
+    const veterinarian = user.role === 'veterinarian' ? await this.getVeterinarianProfile(user.id) : undefined;
+    if (veterinarian && access === 'read' && await this.hasRecentVisit(veterinarian.id, dogId)) {
+      await this.logAccess(dogId, user, access, 'booking');
+      return { dog, veterinarian };
+    }
+
+    const grant = await this.getActiveGrant(dogId, user.id, GRANT_SCOPES[access]);
+    if (grant) {
+      await this.logAccess(dogId, user, access, 'grant', grant.id);
+      return { dog, veterinarian, grant };
+    }
+
+    throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  // Summary of what is current, plus the filtered timeline newest first
+  async getMedicalRecord(
+    dogId: string,
+    user: any,
+    filters: { type?: string; from?: string; to?: string; limit?: number } = {}
+  ): Promise<{ dog: any; summary: MedicalRecordSummary<any>; timeline: any[] }> {
+    const { dog } = await this.assertAccess(dogId, user, 'read');
+
+    const result = await payload.find({
+      collection: 'medical-record-entries',
+      where: {
+        dog: { equals: dogId },
+      },
+      sort: '-recordedAt',
+      limit: 1000,
+      depth: 1,
+    });
+
+    const timeline = result.docs.filter(entry => {
+      if (filters.type && entry.type !== filters.type) return false;
+      if (filters.from && new Date(entry.recordedAt) < new Date(filters.from)) return false;
+      if (filters.to && new Date(entry.recordedAt) > new Date(filters.to)) return false;
+      return true;
+    });
+
+    return {
+      dog: {
+        id: dog.id,
+        name: dog.name,
+        breed: dog.breed,
+        birthDate: dog.birthDate,
+        weight: dog.weight,
+        microchipNumber: dog.microchipNumber,
+      },
+      summary: MedicalRecordUtils.buildSummary(result.docs),
+      timeline: MedicalRecordUtils.sortTimeline(timeline).slice(0, filters.limit || 100),
+    };
+  }
+
+  async addEntry(dogId: string, user: any, input: MedicalRecordEntryInput): Promise<any> {
+    const { veterinarian, grant } = await this.assertAccess(dogId, user, 'write');
+
+    // Pet sitters and other non-vets the record is shared with can only leave notes
+    if (grant && !veterinarian && input.type !== 'note') {
+      throw ErrorUtils.createAppError('Only notes can be added with this grant', 403, 'NOTES_ONLY');
+    }
+
+    const entry = await payload.create({
+      collection: 'medical-record-entries',
+      data: {
+        dog: dogId,
+        type: input.type,
+        title: input.title,
+        description: input.description,
+        recordedAt: input.recordedAt || new Date().toISOString(),
+        status: input.status,
+        endDate: input.endDate,
+        details: input.details,
+        document: input.documentId,
+        veterinarian: veterinarian?.id,
+        createdBy: user.id,
+      },
+    });
+
+    if (entry.type === 'weight' && entry.details?.weightKg) {
+      await this.updateDogWeight(dogId, entry.details.weightKg, entry.recordedAt);
+    }
+
+    return entry;
+  }
+
+  // Resolve a problem, stop a medication or correct the notes of an entry
+  async updateEntry(
+    dogId: string,
+    entryId: string,
+    user: any,
+    changes: { status?: 'active' | 'resolved'; endDate?: string; description?: string }
+  ): Promise<any> {
+    const { grant } = await this.assertAccess(dogId, user, 'write');
+
+    const entry = await payload.findByID({
+      collection: 'medical-record-entries',
+      id: entryId,
+      depth: 0,
+    });
+
+    if (!entry || getId(entry.dog) !== dogId) {
+      throw ErrorUtils.createAppError('Medical record entry not found', 404, 'ENTRY_NOT_FOUND');
+    }
+
+    if (grant && getId(entry.createdBy) !== user.id) {
+      throw ErrorUtils.createAppError('Only your own entries can be changed with this grant', 403, 'ACCESS_DENIED');
+    }
+
+    const data: Record<string, any> = { ...changes };
+    if (changes.status === 'resolved' && !changes.endDate && !entry.endDate) {
+      data.endDate = new Date().toISOString();
+    }
+
+    return payload.update({
+      collection: 'medical-record-entries',
+      id: entryId,
+      data,
+    });
+  }
+
+  /**
+   * Add a completed visit to the dog's record: the visit itself, the
+   * diagnosis as an open problem and the weight measured. Runs once per booking.
+   */
+  async recordCompletedBooking(bookingId: string): Promise<void> {
+    const booking = await payload.findByID({
+      collection: 'bookings',
+      id: bookingId,
+      depth: 0,
+    });
+
+    if (!booking || booking.status !== 'completed') return;
+
+    const existing = await payload.find({
+      collection: 'medical-record-entries',
+      where: {
+        booking: { equals: bookingId },
+        type: { equals: 'visit' },
+      },
+      limit: 1,
+      depth: 0,
+    });
+    if (existing.docs.length > 0) return;
+
+    const dogId = getId(booking.dog);
+    const recordedAt = booking.checkedInAt || booking.scheduledAt;
+    const source = {
+      dog: dogId,
+      recordedAt,
+      booking: booking.id,
+      veterinarian: getId(booking.veterinarian),
+    };
+
+    await payload.create({
+      collection: 'medical-record-entries',
+      data: {
+        ...source,
+        type: 'visit',
+        title: booking.diagnosis
+          ? `${BOOKING_TYPE_LABELS[booking.type] || 'Visita'}: ${booking.diagnosis}`
+          : BOOKING_TYPE_LABELS[booking.type] || 'Visita',
+        description: [booking.symptoms && `Sintomi: ${booking.symptoms}`, booking.treatment && `Trattamento: ${booking.treatment}`]
+          .filter(Boolean)
+          .join('\n') || undefined,
+      },
+    });
+
+    if (booking.diagnosis) {
+      await payload.create({
+        collection: 'medical-record-entries',
+        data: {
+          ...source,
+          type: 'problem',
+          title: booking.diagnosis,
+          description: booking.treatment,
+          status: 'active',
+        },
+      });
+    }
+
+    if (booking.weight) {
+      await payload.create({
+        collection: 'medical-record-entries',
+        data: {
+          ...source,
+          type: 'weight',
+          title: 'Peso',
+          details: { weightKg: booking.weight },
+        },
+      });
+      await this.updateDogWeight(dogId, booking.weight, recordedAt);
+    }
+
+    payload.logger.info(`Booking ${booking.id} added to the medical record of dog ${dogId}`);
+  }
+
+  // Each prescription becomes an active medication in the record
+  async recordPrescription(prescription: any): Promise<any> {
+    return payload.create({
+      collection: 'medical-record-entries',
+      data: {
+        dog: getId(prescription.patient),
+        type: 'medication',
+        title: prescription.drugName,
+        description: prescription.instructions,
+        recordedAt: prescription.issueDate,
+        status: 'active',
+        details: {
+          dosage: prescription.dosage,
+          frequency: prescription.frequency,
+        },
+        booking: getId(prescription.booking),
+        prescription: prescription.id,
+        veterinarian: getId(prescription.veterinarian),
+      },
+    });
+  }
+
+  // Prescriptions written for the dog, shared with the medical record
+  async getPrescriptions(dogId: string, user: any): Promise<any[]> {
+    await this.assertAccess(dogId, user, 'read');
+
+    const result = await payload.find({
+      collection: 'prescriptions',
+      where: {
+        patient: { equals: dogId },
+      },
+      sort: '-issueDate',
+      limit: 100,
+      depth: 1,
+    });
+
+    return result.docs;
+  }
+
+  async getDocuments(dogId: string, user: any): Promise<any[]> {
+    await this.assertAccess(dogId, user, 'documents');
+
+    const result = await payload.find({
+      collection: 'documents',
+      where: {
+        dog: { equals: dogId },
+      },
+      sort: '-createdAt',
+      limit: 100,
+      depth: 0,
+    });
+
+    return result.docs;
+  }
+
+  // Owner shares the dog's record with another registered user, until the grant expires or is revoked
+  async createGrant(dogId: string, user: any, input: MedicalRecordGrantInput): Promise<any> {
+    const dog = await this.assertOwner(dogId, user);
+
+    const grantees = await payload.find({
+      collection: 'users',
+      where: {
+        email: { equals: input.granteeEmail.toLowerCase() },
+      },
+      limit: 1,
+      depth: 0,
+    });
+    const grantee = grantees.docs[0];
+
+    if (!grantee) {
+      throw ErrorUtils.createAppError('No user registered with this email', 404, 'USER_NOT_FOUND');
+    }
+
+    if (grantee.id === getId(dog.owner)) {
+      throw ErrorUtils.createAppError('The owner already has access to the record', 400, 'INVALID_GRANTEE');
+    }
+
+    const expiresAt = new Date(input.expiresAt);
+    const maxExpiresAt = new Date(Date.now() + this.maxGrantDays * 24 * 60 * 60 * 1000);
+    if (expiresAt <= new Date() || expiresAt > maxExpiresAt) {
+      throw ErrorUtils.createAppError(
+        `Grants must expire within ${this.maxGrantDays} days`,
+        400,
+        'INVALID_EXPIRATION'
+      );
+    }
+
+    const grant = await payload.create({
+      collection: 'medical-record-grants',
+      data: {
+        dog: dogId,
+        owner: getId(dog.owner),
+        grantee: grantee.id,
+        scopes: Array.from(new Set(input.scopes)),
+        expiresAt: expiresAt.toISOString(),
+        note: input.note,
+      },
+    });
+
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(user.id, 'medical_record_grant_created', 'dog', dogId, undefined, {
+      grantId: grant.id,
+      granteeId: grantee.id,
+      scopes: grant.scopes,
+      expiresAt: grant.expiresAt,
+    });
+
+    try {
+      await this.notification.sendMedicalRecordShared(grantee.id, dog, grant);
+    } catch (error) {
+      payload.logger.warn(`Failed to notify grantee of medical record grant ${grant.id}:`, error);
+    }
+
+    return grant;
+  }
+
+  async listGrants(dogId: string, user: any): Promise<any[]> {
+    await this.assertOwner(dogId, user);
+
+    const result = await payload.find({
+      collection: 'medical-record-grants',
+      where: {
+        dog: { equals: dogId },
+      },
+      sort: '-createdAt',
+      limit: 100,
+      depth: 1,
+    });
+
+    return result.docs.map(grant => ({
+      ...grant,
+      grantee: grant.grantee && {
+        id: grant.grantee.id,
+        firstName: grant.grantee.firstName,
+        lastName: grant.grantee.lastName,
+        email: grant.grantee.email,
+        role: grant.grantee.role,
+      },
+      isActive: !grant.revokedAt && new Date(grant.expiresAt) > new Date(),
+    }));
+  }
+
+  async revokeGrant(dogId: string, grantId: string, user: any): Promise<any> {
+    await this.assertOwner(dogId, user);
+
+    const grant = await payload.findByID({
+      collection: 'medical-record-grants',
+      id: grantId,
+      depth: 0,
+    });
+
+    if (!grant || getId(grant.dog) !== dogId) {
+      throw ErrorUtils.createAppError('Grant not found', 404, 'GRANT_NOT_FOUND');
+    }
+
+    if (grant.revokedAt) {
+      return grant;
+    }
+
+    const revoked = await payload.update({
+      collection: 'medical-record-grants',
+      id: grantId,
+      data: { revokedAt: new Date().toISOString() },
+    });
+
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(user.id, 'medical_record_grant_revoked', 'dog', dogId, undefined, {
+      grantId,
+      granteeId: getId(grant.grantee),
+    });
+
+    return revoked;
+  }
+
+  // Dogs other owners currently share with the user
+  async getReceivedGrants(user: any): Promise<any[]> {
+    const result = await payload.find({
+      collection: 'medical-record-grants',
+      where: {
+        grantee: { equals: user.id },
+        expiresAt: { greater_than: new Date().toISOString() },
+        revokedAt: { exists: false },
+      },
+      sort: 'expiresAt',
+      limit: 100,
+      depth: 1,
+    });
+
+    return result.docs.map(grant => ({
+      id: grant.id,
+      scopes: grant.scopes,
+      expiresAt: grant.expiresAt,
+      note: grant.note,
+      dog: grant.dog && { id: grant.dog.id, name: grant.dog.name, breed: grant.dog.breed },
+      owner: grant.owner && { id: grant.owner.id, firstName: grant.owner.firstName, lastName: grant.owner.lastName },
+    }));
+  }
+
+  // Who looked at the dog's record, documents or prescriptions, newest first
+  async getAccessLog(dogId: string, user: any, limit = 100): Promise<any[]> {
+    await this.assertOwner(dogId, user);
+
+    const { db } = await import('@doggo/database');
+    return db.auditLog.findMany({
+      where: {
+        resource: 'dog',
+        resourceId: dogId,
+        action: {
+          in: ['medical_record_accessed', 'emergency_profile_accessed', 'medical_record_grant_created', 'medical_record_grant_revoked'],
+        },
+      },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, role: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Break-glass access: a verified vet or shelter that scans a found dog's
+   * microchip gets what it needs to treat the dog and reach the owner. Needs an
+   * open report about this dog the responder is part of; a self-declared
+   * emergency without one is rate-limited and flagged for review. The owner is told at once.
+   */
+  async getEmergencyProfile(microchipNumber: string, user: any, context: EmergencyAccessContext): Promise<EmergencyMedicalProfile> {
+    if (!ValidationUtils.validateMicrochip(microchipNumber)) {
+      throw ErrorUtils.createAppError('Invalid microchip number', 400, 'INVALID_MICROCHIP');
+    }
+
+    const organization = await this.getVerifiedResponder(user);
+    const flaggedForReview = await this.assertEmergencyContext(user, microchipNumber, context);
+
+    const dogs = await payload.find({
+      collection: 'dogs',
+      where: {
+        microchipNumber: { equals: microchipNumber },
+      },
+      limit: 1,
+      depth: 1,
+    });
+    const dog = dogs.docs[0];
+
+    if (!dog) {
+      throw ErrorUtils.createAppError('No dog registered with this microchip', 404, 'MICROCHIP_NOT_FOUND');
+    }
+
+    const entries = await payload.find({
+      collection: 'medical-record-entries',
+      where: {
+        dog: { equals: dog.id },
+        type: { in: ['allergy', 'problem'] },
+      },
+      limit: 500,
+      depth: 0,
+    });
+    const summary = MedicalRecordUtils.buildSummary(entries.docs);
+    const owner = dog.owner && typeof dog.owner === 'object' ? dog.owner : null;
+    const accessedAt = new Date().toISOString();
+
+    const { db } = await import('@doggo/database');
+    await db.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'emergency_profile_accessed',
+        resource: 'dog',
+        resourceId: dog.id,
+        metadata: {
+          microchipNumber,
+          reason: context.reason,
+          emergencyId: context.emergencyId,
+          declaredEmergency: context.isEmergency,
+          flaggedForReview,
+          role: user.role,
+          organization,
+        },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    if (owner) {
+      try {
+        await this.notification.sendEmergencyAccess(owner.id, dog, { user, organization, reason: context.reason });
+      } catch (error) {
+        payload.logger.warn(`Failed to notify owner of emergency access to dog ${dog.id}:`, error);
+      }
+    }
+
+    return {
+      dog: {
+        id: dog.id,
+        name: dog.name,
+        breed: dog.breed,
+        size: dog.size,
+        gender: dog.gender,
+        birthDate: dog.birthDate,
+        color: dog.color,
+        weight: dog.weight,
+        bloodType: dog.bloodType,
+        isNeutered: dog.isNeutered,
+      },
+      allergies: summary.allergies.map(entry => ({
+        title: entry.title,
+        severity: entry.details?.severity,
+        reaction: entry.details?.reaction,
+      })),
+      chronicConditions: summary.activeProblems.map(entry => ({
+        title: entry.title,
+        description: entry.description,
+        since: entry.recordedAt,
+      })),
+      owner: owner && {
+        firstName: owner.firstName,
+        lastName: owner.lastName,
+        phone: owner.phone,
+        email: owner.email,
+      },
+      accessedAt,
+    };
+  }
+
+  /**
+   * An open found or injured dog report for this very chip, that the responder
+   * filed or offered help on, is enough. Anything else counts as a self-declared
+   * emergency: allowed a few times a day and flagged for review. Returns whether
+   * the access is flagged.
+   */
+  private async assertEmergencyContext(user: any, microchipNumber: string, context: EmergencyAccessContext): Promise<boolean> {
+    if (context.emergencyId && await this.isReportForChip(context.emergencyId, user, microchipNumber)) {
+      return false;
+    }
+
+    if (!context.isEmergency && !context.emergencyId) {
+      throw ErrorUtils.createAppError(
+        'Emergency access requires a declared emergency or an open emergency report',
+        400,
+        'EMERGENCY_REQUIRED'
+      );
+    }
+
+    const { db } = await import('@doggo/database');
+    const recent = await db.auditLog.count({
+      where: {
+        userId: user.id,
+        action: 'emergency_profile_accessed',
+        createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+        metadata: { path: ['flaggedForReview'], equals: true },
+      },
+    });
+
+    if (recent >= this.selfDeclaredEmergencyLimit) {
+      throw ErrorUtils.createAppError(
+        'Too many emergency accesses without a report for this dog',
+        429,
+        'EMERGENCY_ACCESS_LIMIT'
+      );
+    }
+
+    return true;
+  }
+
+  // Open found or injured report about this chip, filed or helped on by the user
+  private async isReportForChip(emergencyId: string, user: any, microchipNumber: string): Promise<boolean> {
+    const result = await payload.find({
+      collection: 'emergencies',
+      where: {
+        id: { equals: emergencyId },
+      },
+      limit: 1,
+      depth: 1,
+    });
+    const emergency = result.docs[0];
+    if (!emergency || emergency.isResolved || !EMERGENCY_PROFILE_REPORT_TYPES.includes(emergency.type)) {
+      return false;
+    }
+
+    const isLinked = getId(emergency.reporter) === user.id ||
+      (emergency.helpOffers || []).some((offer: any) => getId(offer.user) === user.id);
+    const chips = [emergency.dogInfo?.microchipNumber, emergency.matchedDog?.microchipNumber];
+
+    return isLinked && chips.includes(microchipNumber);
+  }
+
+  // Clinic or shelter name of a verified responder
+  private async getVerifiedResponder(user: any): Promise<string> {
+    if (user.role === 'veterinarian') {
+      const veterinarian = await this.getVeterinarianProfile(user.id);
+      if (veterinarian?.isVerified) return veterinarian.clinicName;
+    }
+
+    if (user.role === 'shelter') {
+      const shelters = await payload.find({
+        collection: 'shelters',
+        where: {
+          user: { equals: user.id },
+        },
+        limit: 1,
+        depth: 0,
+      });
+      if (shelters.docs[0]?.isVerified) return shelters.docs[0].name;
+    }
+
+    throw ErrorUtils.createAppError('Only verified veterinarians and shelters can use emergency access', 403, 'NOT_VERIFIED');
+  }
+
+  private async assertOwner(dogId: string, user: any): Promise<any> {
+    const dog = await payload.findByID({
+      collection: 'dogs',
+      id: dogId,
+      depth: 0,
+    });
+
+    if (!dog) {
+      throw ErrorUtils.createAppError('Dog not found', 404, 'DOG_NOT_FOUND');
+    }
+
+    if (getId(dog.owner) !== user.id && user.role !== 'admin') {
+      throw ErrorUtils.createAppError('Only the owner can manage access to the record', 403, 'ACCESS_DENIED');
+    }
+
+    return dog;
+  }
+
+  private async getActiveGrant(dogId: string, userId: string, scope: string): Promise<any> {
+    const result = await payload.find({
+      collection: 'medical-record-grants',
+      where: {
+        dog: { equals: dogId },
+        grantee: { equals: userId },
+        scopes: { in: [scope] },
+        expiresAt: { greater_than: new Date().toISOString() },
+        revokedAt: { exists: false },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    return result.docs[0];
+  }
+
+  private async logAccess(dogId: string, user: any, access: MedicalRecordAccess, via: 'admin' | 'booking' | 'grant', grantId?: string): Promise<void> {
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(user.id, 'medical_record_accessed', 'dog', dogId, undefined, {
+      access,
+      via,
+      grantId,
+      role: user.role,
+    });
+  }
+
+  private async getVeterinarianProfile(userId: string): Promise<any> {
+    const result = await payload.find({
+      collection: 'veterinarians',
+      where: {
+        user: { equals: userId },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    return result.docs[0];
+  }
+
+  // A visit under way, or one held within the last visitAccessDays
+  private async hasRecentVisit(veterinarianId: string, dogId: string): Promise<boolean> {
+    const since = new Date(Date.now() - this.visitAccessDays * 24 * 60 * 60 * 1000);
+    const bookings = await payload.find({
+      collection: 'bookings',
+      where: {
+        veterinarian: { equals: veterinarianId },
+        dog: { equals: dogId },
+        or: [
+          { status: { equals: 'in_progress' } },
+          {
+            status: { in: VISIT_BOOKING_STATUSES },
+            scheduledAt: { greater_than_equal: since.toISOString() },
+          },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    return bookings.docs.length > 0;
+  }
+
+  // The dog profile keeps the latest measurement, used e.g. for dosage checks
+  private async updateDogWeight(dogId: string, weightKg: number, measuredAt: string): Promise<void> {
+    const latest = await payload.find({
+      collection: 'medical-record-entries',
+      where: {
+        dog: { equals: dogId },
+        type: { equals: 'weight' },
+        recordedAt: { greater_than: measuredAt },
+      },
+      limit: 1,
+      depth: 0,
+    });
+    if (latest.docs.length > 0) return;
+
+    await payload.update({
+      collection: 'dogs',
+      id: dogId,
+      data: { weight: weightKg },
+    });
+  }
+}
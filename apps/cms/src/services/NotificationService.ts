@@ -2,6 +2,7 @@ import { Server as SocketIOServer } from 'socket.io';
 import { Redis } from 'ioredis';
 import admin from 'firebase-admin';
 import payload from 'payload';
+import type { VaccinationReminderLevel, VaccinationScheduleItem } from '@doggo/types';
 
 export class NotificationService {
   private io: SocketIOServer;
@@ -224,6 +225,255 @@ export class NotificationService {
     );
   }
 
+  async sendBookingRescheduled(userId: string, booking: any, previousDate: Date): Promise<void> {
+    const newDate = new Date(booking.scheduledAt);
+    await this.sendNotification(
+      userId,
+      'booking_rescheduled',
+      'Visita Spostata',
+      `La visita per ${booking.dog?.name || 'il tuo cane'} del ${previousDate.toLocaleDateString('it-IT')} è stata spostata al ${newDate.toLocaleDateString('it-IT')} alle ${newDate.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}`,
+      {
+        bookingId: booking.id,
+        previousScheduledAt: previousDate.toISOString(),
+        scheduledAt: newDate.toISOString(),
+      }
+    );
+  }
+
+  async sendBookingCancelled(userId: string, booking: any, refundAmount: number): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'booking_cancelled',
+      'Visita Cancellata',
+      `La visita per ${booking.dog?.name || 'il tuo cane'} del ${new Date(booking.scheduledAt).toLocaleDateString('it-IT')} è stata cancellata${refundAmount > 0 ? `. Riceverai un rimborso di ${refundAmount.toFixed(2)}€` : ''}`,
+      {
+        bookingId: booking.id,
+        status: 'cancelled',
+        refundAmount,
+      }
+    );
+  }
+
+  async sendBookingNoShow(userId: string, booking: any): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'booking_cancelled',
+      'Visita Mancata',
+      `Non risulti presente alla visita per ${booking.dog?.name || 'il tuo cane'} del ${new Date(booking.scheduledAt).toLocaleDateString('it-IT')}. Le mancate presentazioni possono comportare il pagamento anticipato delle prossime visite`,
+      {
+        bookingId: booking.id,
+        status: 'no_show',
+      }
+    );
+  }
+
+  async sendRescheduleProposal(userId: string, booking: any, slots: Date[]): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'reschedule_proposal',
+      'Proposta Nuovo Orario',
+      `${booking.veterinarian?.clinicName || 'Il veterinario'} propone ${slots.length} nuovi orari per la visita di ${booking.dog?.name || 'il tuo cane'}`,
+      {
+        bookingId: booking.id,
+        slots: slots.map(slot => slot.toISOString()),
+      }
+    );
+  }
+
+  async sendRescheduleProposalRejected(userId: string, booking: any): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'reschedule_proposal',
+      'Proposta Rifiutata',
+      `Il proprietario di ${booking.dog?.name || 'un paziente'} ha rifiutato gli orari proposti`,
+      {
+        bookingId: booking.id,
+      }
+    );
+  }
+
+  async sendBookingConflicts(veterinarian: any, bookings: any[], timeOff: any): Promise<void> {
+    await this.sendNotification(
+      veterinarian.user?.id || veterinarian.user,
+      'booking_conflict',
+      'Prenotazioni da Riprogrammare',
+      `${bookings.length} prenotazioni cadono durante la tua assenza dal ${new Date(timeOff.startDate).toLocaleDateString('it-IT')} al ${new Date(timeOff.endDate).toLocaleDateString('it-IT')}`,
+      {
+        timeOffId: timeOff.id,
+        bookingIds: bookings.map(booking => booking.id),
+      }
+    );
+  }
+
+  async sendWaitlistOffer(userId: string, entry: any, hold: any, veterinarian: any): Promise<void> {
+    const scheduledAt = new Date(hold.scheduledAt);
+    const offer = {
+      waitlistEntryId: entry.id,
+      holdId: hold.id,
+      veterinarianId: hold.veterinarianId,
+      scheduledAt: hold.scheduledAt,
+      duration: hold.duration,
+      type: hold.type,
+      expiresAt: hold.expiresAt,
+    };
+
+    // Dedicated event so open clients can show a countdown straight away
+    this.io.to(`user:${userId}`).emit('waitlist_offer', offer);
+
+    await this.sendNotification(
+      userId,
+      'waitlist_offer',
+      'Si è Liberato un Posto',
+      `${veterinarian?.clinicName || 'Il veterinario'} ha un posto libero il ${scheduledAt.toLocaleDateString('it-IT')} alle ${scheduledAt.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}. Conferma entro le ${new Date(hold.expiresAt).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}`,
+      offer
+    );
+  }
+
+  async sendFollowUpProposal(userId: string, booking: any, followUpBooking: any): Promise<void> {
+    const scheduledAt = new Date(followUpBooking.scheduledAt);
+    await this.sendNotification(
+      userId,
+      'follow_up',
+      'Controllo di Follow-up',
+      `Abbiamo riservato un controllo per ${booking.dog?.name || 'il tuo cane'} il ${scheduledAt.toLocaleDateString('it-IT')} alle ${scheduledAt.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}. Confermalo per non perdere l'orario`,
+      {
+        bookingId: followUpBooking.id,
+        followUpOf: booking.id,
+        scheduledAt: scheduledAt.toISOString(),
+        confirmBy: followUpBooking.holdExpiresAt,
+      }
+    );
+  }
+
+  async sendFollowUpInvitation(userId: string, booking: any): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'follow_up',
+      'Prenota il Controllo',
+      `${booking.veterinarian?.clinicName || 'Il veterinario'} ha richiesto un controllo per ${booking.dog?.name || 'il tuo cane'} intorno al ${new Date(booking.followUpDate).toLocaleDateString('it-IT')}`,
+      {
+        followUpOf: booking.id,
+        veterinarianId: booking.veterinarian?.id || booking.veterinarian,
+        followUpDate: booking.followUpDate,
+      }
+    );
+  }
+
+  async sendPrescriptionIssued(userId: string, prescription: any, dog: any): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'prescription_issued',
+      'Nuova Ricetta',
+      `È disponibile la ricetta di ${prescription.drugName} per ${dog?.name || 'il tuo cane'}, valida fino al ${new Date(prescription.validUntil).toLocaleDateString('it-IT')}`,
+      {
+        prescriptionId: prescription.id,
+        number: prescription.number,
+        bookingId: prescription.booking?.id || prescription.booking,
+      }
+    );
+  }
+
+  async sendPrescriptionDispensed(userId: string, prescription: any, pharmacy: any, quantity: number, isDispensed: boolean): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'prescription_dispensed',
+      isDispensed ? 'Ricetta Dispensata' : 'Ricetta Dispensata in Parte',
+      `${pharmacy.name} ha consegnato ${quantity} ${quantity === 1 ? 'confezione' : 'confezioni'} di ${prescription.drugName} (ricetta ${prescription.number})`,
+      {
+        prescriptionId: prescription.id,
+        number: prescription.number,
+        pharmacyId: pharmacy.id,
+        quantity,
+        isDispensed,
+      }
+    );
+  }
+
+  async sendMedicalRecordShared(userId: string, dog: any, grant: any): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'record_shared',
+      'Cartella Clinica Condivisa',
+      `Il proprietario di ${dog.name} ha condiviso con te la sua cartella clinica fino al ${new Date(grant.expiresAt).toLocaleDateString('it-IT')}`,
+      {
+        dogId: dog.id,
+        grantId: grant.id,
+        scopes: grant.scopes,
+      }
+    );
+  }
+
+  async sendDogFound(
+    userId: string,
+    dog: any,
+    found: { where: string; contact: { name?: string; phone?: string }; foundReportId?: string; lostReportId?: string }
+  ): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'dog_found',
+      `🐾 ${dog.name || 'Il tuo cane'} è stato trovato!`,
+      `Il microchip di ${dog.name || 'il tuo cane'} è stato letto${found.where ? ` (${found.where})` : ''}. Contatta ${found.contact.name || 'chi lo ha trovato'}${found.contact.phone ? ` al ${found.contact.phone}` : ''}`,
+      {
+        dogId: dog.id,
+        foundReportId: found.foundReportId,
+        lostReportId: found.lostReportId,
+        contact: found.contact,
+        // The app offers to close both reports once the owner has the dog back
+        actions: found.lostReportId ? ['resolve_linked'] : [],
+      }
+    );
+  }
+
+  async sendLostFoundCandidate(userId: string, report: any, candidate: any, score: number): Promise<void> {
+    const isLost = report.type === 'lost_dog';
+
+    await this.sendNotification(
+      userId,
+      'lost_found_candidate',
+      isLost ? '🔎 Un cane trovato potrebbe essere il tuo' : '🔎 Il cane che hai trovato potrebbe essere stato smarrito',
+      `${candidate.title} (${candidate.location?.address || 'posizione non indicata'}) somiglia alla tua segnalazione: compatibilità ${score}%`,
+      {
+        emergencyId: report.id,
+        candidateEmergencyId: candidate.id,
+        score,
+      }
+    );
+  }
+
+  async sendEmergencyAccess(userId: string, dog: any, access: { user: any; organization: string; reason: string }): Promise<void> {
+    await this.sendNotification(
+      userId,
+      'emergency_access',
+      `🚨 Accesso di Emergenza al Profilo di ${dog.name}`,
+      `${access.organization} ha letto il microchip di ${dog.name} e consultato il suo profilo sanitario di emergenza. Motivo: ${access.reason}`,
+      {
+        dogId: dog.id,
+        accessedBy: access.user.id,
+        organization: access.organization,
+        phone: access.user.phone,
+      }
+    );
+  }
+
+  async sendVaccinationReminder(userId: string, dog: any, items: VaccinationScheduleItem[], level: VaccinationReminderLevel): Promise<void> {
+    const names = items.map(item => item.name).join(', ');
+    const overdue = items.some(item => item.status === 'overdue');
+
+    await this.sendNotification(
+      userId,
+      'vaccination_reminder',
+      overdue ? `💉 Vaccinazioni Scadute per ${dog.name}` : `💉 Vaccinazioni in Scadenza per ${dog.name}`,
+      overdue
+        ? `${dog.name} deve recuperare: ${names}. Prenota una visita dal tuo veterinario`
+        : `${dog.name} ha in programma: ${names} entro il ${new Date(items[0].nextDueDate).toLocaleDateString('it-IT')}`,
+      {
+        dogId: dog.id,
+        vaccines: items.map(item => ({ code: item.code, nextDueDate: item.nextDueDate, status: item.status })),
+        level,
+      }
+    );
+  }
+
   async sendNewMatch(user: any, dog1: any, dog2: any, matchScore: number): Promise<void> {
     await this.sendNotification(
       user.id,
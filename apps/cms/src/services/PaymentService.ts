@@ -49,16 +49,18 @@ export class PaymentService {
   }
 
   async createBookingPayment(booking: any, user: any): Promise<Stripe.PaymentIntent> {
+    const isDeposit = booking.paymentOption === 'deposit';
     const metadata = {
       bookingId: booking.id,
       userId: user.id,
       dogId: booking.dog,
       veterinarianId: booking.veterinarian,
       type: 'booking',
+      paymentOption: isDeposit ? 'deposit' : 'full',
     };
 
     const paymentIntent = await this.createPaymentIntent(
-      booking.totalCost,
+      isDeposit ? booking.depositAmount : booking.totalCost,
       'eur',
       metadata
     );
@@ -75,6 +77,34 @@ export class PaymentService {
     return paymentIntent;
   }
 
+  // A recurring series is paid upfront with one charge; each occurrence keeps
+  // the intent ID so it can be refunded on its own
+  async createSeriesPayment(bookings: any[], user: any, seriesId: string): Promise<Stripe.PaymentIntent> {
+    const metadata = {
+      seriesId,
+      userId: user.id,
+      dogId: bookings[0].dog,
+      veterinarianId: bookings[0].veterinarian,
+      occurrences: String(bookings.length),
+      type: 'booking_series',
+    };
+
+    const totalCost = bookings.reduce((sum, booking) => sum + booking.totalCost, 0);
+    const paymentIntent = await this.createPaymentIntent(totalCost, 'eur', metadata);
+
+    await payload.update({
+      collection: 'bookings',
+      where: {
+        seriesId: { equals: seriesId },
+      },
+      data: {
+        paymentIntentId: paymentIntent.id,
+      },
+    });
+
+    return paymentIntent;
+  }
+
   async createDonationPayment(
     amount: number,
     shelterId: string,
@@ -154,19 +184,38 @@ export class PaymentService {
   }
 
   private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const { type, bookingId, donationId } = paymentIntent.metadata;
+    const { type, bookingId, seriesId, donationId, paymentOption } = paymentIntent.metadata;
 
     try {
       if (type === 'booking' && bookingId) {
-        // Update booking payment status
-        await payload.update({
+        // Payment completes the reservation: confirm the booking and stop it expiring
+        const confirmed = await payload.update({
           collection: 'bookings',
-          id: bookingId,
+          where: {
+            id: { equals: bookingId },
+            status: { equals: 'pending' },
+          },
           data: {
-            paymentStatus: 'paid',
+            paymentStatus: paymentOption === 'deposit' ? 'deposit_paid' : 'paid',
+            status: 'confirmed',
+            holdExpiresAt: null,
           },
         });
 
+        // The payment window may have closed and the slot gone to someone else:
+        // a late payment is refunded instead of reviving the booking
+        if (confirmed.docs.length === 0) {
+          const current = await payload.findByID({
+            collection: 'bookings',
+            id: bookingId,
+            depth: 0,
+          });
+          if (current?.status === 'cancelled' && this.isUnpaid(current)) {
+            await this.refundLatePayment(paymentIntent, [current]);
+          }
+          return;
+        }
+
         // Get booking details for notifications
         const booking = await payload.findByID({
           collection: 'bookings',
@@ -184,6 +233,63 @@ export class PaymentService {
         );
 
         payload.logger.info(`Booking payment succeeded: ${bookingId}`);
+      } else if (type === 'booking_series' && seriesId) {
+        const occurrences = await payload.find({
+          collection: 'bookings',
+          where: {
+            seriesId: { equals: seriesId },
+            paymentIntentId: { equals: paymentIntent.id },
+          },
+          limit: 500,
+          depth: 0,
+        });
+
+        // Occurrences that expired before the payment arrived are refunded
+        const expired = occurrences.docs.filter(booking => booking.status === 'cancelled' && this.isUnpaid(booking));
+        if (expired.length > 0) {
+          await this.refundLatePayment(paymentIntent, expired);
+        }
+
+        if (!occurrences.docs.some(booking => booking.status === 'pending')) {
+          return;
+        }
+
+        await payload.update({
+          collection: 'bookings',
+          where: {
+            seriesId: { equals: seriesId },
+            status: { equals: 'pending' },
+          },
+          data: {
+            paymentStatus: 'paid',
+            status: 'confirmed',
+            holdExpiresAt: null,
+          },
+        });
+
+        const bookings = await payload.find({
+          collection: 'bookings',
+          where: {
+            seriesId: { equals: seriesId },
+          },
+          populate: ['user', 'dog', 'veterinarian'],
+          sort: 'seriesIndex',
+          limit: 1,
+        });
+
+        // One confirmation for the series, with the first visit's details
+        if (bookings.docs.length > 0) {
+          const booking = bookings.docs[0];
+          const emailService = new (await import('./EmailService')).EmailService();
+          await emailService.sendBookingConfirmation(
+            booking,
+            booking.user,
+            booking.dog,
+            booking.veterinarian
+          );
+        }
+
+        payload.logger.info(`Booking series payment succeeded: ${seriesId}`);
       } else if (type === 'donation') {
         // Find donation by payment intent ID
         const donations = await payload.find({
@@ -224,7 +330,7 @@ export class PaymentService {
   }
 
   private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const { type, bookingId } = paymentIntent.metadata;
+    const { type, bookingId, seriesId } = paymentIntent.metadata;
 
     try {
       if (type === 'booking' && bookingId) {
@@ -237,6 +343,19 @@ export class PaymentService {
         });
 
         payload.logger.info(`Booking payment failed: ${bookingId}`);
+      } else if (type === 'booking_series' && seriesId) {
+        await payload.update({
+          collection: 'bookings',
+          where: {
+            seriesId: { equals: seriesId },
+            status: { equals: 'pending' },
+          },
+          data: {
+            paymentStatus: 'failed',
+          },
+        });
+
+        payload.logger.info(`Booking series payment failed: ${seriesId}`);
       } else if (type === 'donation') {
         const donations = await payload.find({
           collection: 'donations',
@@ -263,13 +382,17 @@ export class PaymentService {
   }
 
   private async handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const { type, bookingId } = paymentIntent.metadata;
+    const { type, bookingId, seriesId } = paymentIntent.metadata;
 
     try {
       if (type === 'booking' && bookingId) {
+        // Bookings that already expired keep their cancellation reason
         await payload.update({
           collection: 'bookings',
-          id: bookingId,
+          where: {
+            id: { equals: bookingId },
+            status: { equals: 'pending' },
+          },
           data: {
             paymentStatus: 'failed',
             status: 'cancelled',
@@ -278,18 +401,71 @@ export class PaymentService {
         });
 
         payload.logger.info(`Booking payment canceled: ${bookingId}`);
+      } else if (type === 'booking_series' && seriesId) {
+        await payload.update({
+          collection: 'bookings',
+          where: {
+            seriesId: { equals: seriesId },
+            status: { equals: 'pending' },
+          },
+          data: {
+            paymentStatus: 'failed',
+            status: 'cancelled',
+            cancelledReason: 'payment_failed',
+          },
+        });
+
+        payload.logger.info(`Booking series payment canceled: ${seriesId}`);
       }
     } catch (error) {
       payload.logger.error('Failed to handle payment canceled event:', error);
     }
   }
 
-  async refundPayment(paymentIntentId: string, amount?: number): Promise<Stripe.Refund> {
+  // Stop an unpaid booking's intent from being charged once its hold has expired
+  async cancelPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent | null> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.cancel(paymentIntentId);
+      payload.logger.info(`Payment intent canceled: ${paymentIntentId}`);
+      return paymentIntent;
+    } catch (error) {
+      // Already succeeded or canceled: a late success is refunded by the webhook
+      payload.logger.warn(`Failed to cancel payment intent ${paymentIntentId}:`, error);
+      return null;
+    }
+  }
+
+  private isUnpaid(booking: any): boolean {
+    return ['pending', 'failed'].includes(booking.paymentStatus);
+  }
+
+  // Refund what was paid for bookings that were cancelled before the payment arrived
+  private async refundLatePayment(paymentIntent: Stripe.PaymentIntent, bookings: any[]): Promise<void> {
+    const amount = bookings.reduce((sum, booking) => sum + (booking.totalCost || 0), 0);
+    const refundAll = bookings.length === 1 && !bookings[0].seriesId;
+
+    await this.refundPayment(paymentIntent.id, refundAll ? undefined : Math.min(amount, paymentIntent.amount_received / 100));
+
+    for (const booking of bookings) {
+      await payload.update({
+        collection: 'bookings',
+        id: booking.id,
+        data: {
+          paymentStatus: 'refunded',
+          refundAmount: refundAll ? paymentIntent.amount_received / 100 : booking.totalCost,
+        },
+      });
+    }
+
+    payload.logger.warn(`Late payment ${paymentIntent.id} refunded for cancelled bookings: ${bookings.map(booking => booking.id).join(', ')}`);
+  }
+
+  async refundPayment(paymentIntentId: string, amount?: number, idempotencyKey?: string): Promise<Stripe.Refund> {
     try {
       const refund = await this.stripe.refunds.create({
         payment_intent: paymentIntentId,
         amount: amount ? Math.round(amount * 100) : undefined, // Partial refund if amount specified
-      });
+      }, idempotencyKey ? { idempotencyKey } : undefined);
 
       payload.logger.info(`Refund created: ${refund.id} for payment ${paymentIntentId}`);
       return refund;
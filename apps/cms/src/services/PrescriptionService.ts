@@ -0,0 +1,622 @@
+import { Redis } from 'ioredis';
+import payload from 'payload';
+import { randomUUID, createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import QRCode from 'qrcode';
+import { DateUtils, ErrorUtils, PrescriptionUtils } from '@doggo/utils';
+import type {
+  FormularyDrug,
+  PrescriptionDispensation,
+  PrescriptionSafetyWarning,
+  PrescriptionSigningPayload,
+  PrescriptionVerification,
+} from '@doggo/types';
+import type { NotificationService } from './NotificationService';
+import type { MedicalRecordService } from './MedicalRecordService';
+
+interface PrescriptionServiceDependencies {
+  notification: NotificationService;
+  medicalRecord: MedicalRecordService;
+  redis: Redis;
+}
+
+export interface IssuePrescriptionParams {
+  bookingId: string;
+  drugName: string;
+  activeIngredient: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  quantity: number;
+  instructions: string;
+  warnings?: string;
+  doseMg?: number;
+  // Reasons the vet gives to go ahead despite formulary warnings, one per warning code
+  safetyOverrides?: Array<{ code: PrescriptionSafetyWarning['code']; reason: string }>;
+}
+
+// A prescription can be written during or after the visit it belongs to
+const PRESCRIBABLE_BOOKING_STATUSES = ['confirmed', 'in_progress', 'completed'];
+
+// Long enough for one dispensing write; released as soon as it is done
+const DISPENSE_LOCK_TTL_MS = 10000;
+
+// Only delete the lock if it still belongs to this request
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class PrescriptionService {
+  private notification: NotificationService;
+  private medicalRecord: MedicalRecordService;
+  private redis: Redis;
+  private validityDays: number;
+
+  constructor(services: PrescriptionServiceDependencies) {
+    this.notification = services.notification;
+    this.medicalRecord = services.medicalRecord;
+    this.redis = services.redis;
+    this.validityDays = parseInt(process.env.PRESCRIPTION_VALIDITY_DAYS || '30');
+  }
+
+  async getPrescription(prescriptionId: string): Promise<any> {
+    const prescription = await payload.findByID({
+      collection: 'prescriptions',
+      id: prescriptionId,
+      depth: 1,
+    });
+
+    if (!prescription) {
+      throw ErrorUtils.createAppError('Prescription not found', 404, 'PRESCRIPTION_NOT_FOUND');
+    }
+
+    return prescription;
+  }
+
+  /**
+   * Issue and sign a prescription (REV) for the dog seen in a booking. Only the
+   * verified veterinarian of the visit can prescribe; the signed data travels in
+   * the QR code so pharmacies can check it offline. Formulary warnings need a
+   * reason from the vet, and blocking ones stop the prescription.
+   */
+  async issuePrescription(actor: any, params: IssuePrescriptionParams): Promise<any> {
+    await this.assertPrescriptionsEnabled();
+
+    const booking = await this.getPrescribableBooking(params.bookingId, actor);
+    const veterinarian = booking.veterinarian;
+
+    const doseMg = params.doseMg ?? PrescriptionUtils.parseDoseMg(params.dosage) ?? undefined;
+    const safetyWarnings = await this.checkSafety(getId(booking.dog), { ...params, doseMg });
+
+    const blocks = safetyWarnings.filter(warning => warning.severity === 'block');
+    if (blocks.length > 0) {
+      throw ErrorUtils.createAppError('Prescription blocked by formulary safety checks', 422, 'PRESCRIPTION_BLOCKED', {
+        warnings: blocks,
+      });
+    }
+
+    const overrideReasons = new Map((params.safetyOverrides || []).map(override => [override.code, override.reason]));
+    const unconfirmed = safetyWarnings.filter(warning => !overrideReasons.get(warning.code));
+    if (unconfirmed.length > 0) {
+      throw ErrorUtils.createAppError('Confirm the safety warnings with a reason to issue the prescription', 409, 'SAFETY_OVERRIDE_REQUIRED', {
+        warnings: unconfirmed,
+      });
+    }
+
+    const signingKey = await this.getSigningKey(veterinarian.id);
+    const issueDate = new Date();
+
+    const signedData: PrescriptionSigningPayload = {
+      number: PrescriptionUtils.generateNumber(issueDate),
+      veterinarianId: veterinarian.id,
+      licenseNumber: veterinarian.licenseNumber,
+      patientId: getId(booking.dog),
+      ownerId: getId(booking.user),
+      bookingId: booking.id,
+      drugName: params.drugName,
+      activeIngredient: params.activeIngredient,
+      dosage: params.dosage,
+      frequency: params.frequency,
+      duration: params.duration,
+      quantity: params.quantity,
+      instructions: params.instructions,
+      warnings: params.warnings || undefined,
+      doseMg,
+      issueDate: issueDate.toISOString(),
+      validUntil: new Date(issueDate.getTime() + this.validityDays * 24 * 60 * 60 * 1000).toISOString(),
+    };
+
+    const signature = PrescriptionUtils.sign(signedData, this.decryptPrivateKey(signingKey.encryptedPrivateKey));
+
+    const prescription = await payload.create({
+      collection: 'prescriptions',
+      data: {
+        number: signedData.number,
+        veterinarian: signedData.veterinarianId,
+        patient: signedData.patientId,
+        owner: signedData.ownerId,
+        booking: signedData.bookingId,
+        drugName: signedData.drugName,
+        activeIngredient: signedData.activeIngredient,
+        dosage: signedData.dosage,
+        frequency: signedData.frequency,
+        duration: signedData.duration,
+        quantity: signedData.quantity,
+        instructions: signedData.instructions,
+        warnings: signedData.warnings,
+        doseMg: signedData.doseMg,
+        safetyWarnings: safetyWarnings.map(warning => ({ ...warning, overrideReason: overrideReasons.get(warning.code) })),
+        issueDate: signedData.issueDate,
+        validUntil: signedData.validUntil,
+        qrCode: PrescriptionUtils.buildQrPayload(signedData, signature, signingKey.publicKey),
+        digitalSignature: signature,
+        signingKeyFingerprint: signingKey.fingerprint,
+        isDispensed: false,
+      },
+    });
+
+    const { db } = await import('@doggo/database');
+    await db.createAuditLog(
+      actor.id,
+      'prescription_issued',
+      'prescription',
+      prescription.id,
+      undefined,
+      {
+        number: prescription.number,
+        bookingId: booking.id,
+        drugName: prescription.drugName,
+        signingKeyFingerprint: signingKey.fingerprint,
+        overriddenWarnings: safetyWarnings.map(warning => warning.code),
+      }
+    );
+
+    try {
+      await this.medicalRecord.recordPrescription(prescription);
+    } catch (error) {
+      payload.logger.error(`Failed to add prescription ${prescription.id} to the medical record:`, error);
+    }
+
+    try {
+      await this.notification.sendPrescriptionIssued(signedData.ownerId, prescription, booking.dog);
+    } catch (error) {
+      payload.logger.warn(`Failed to notify prescription ${prescription.id}:`, error);
+    }
+
+    payload.logger.info(`Prescription ${prescription.number} issued by veterinarian ${veterinarian.id} for booking ${booking.id}`);
+
+    return prescription;
+  }
+
+  // The formulary checks issuing would run, so the vet can review them before signing
+  async previewSafety(actor: any, params: IssuePrescriptionParams): Promise<PrescriptionSafetyWarning[]> {
+    const booking = await this.getPrescribableBooking(params.bookingId, actor);
+    const doseMg = params.doseMg ?? PrescriptionUtils.parseDoseMg(params.dosage) ?? undefined;
+
+    return this.checkSafety(getId(booking.dog), { ...params, doseMg });
+  }
+
+  /**
+   * Check a scanned QR code against the signature and the key recorded when
+   * the prescription was issued.
+   */
+  async verifyPrescription(qrCode: string): Promise<PrescriptionVerification & {
+    prescriptionId?: string;
+    isDispensed?: boolean;
+    dispensedAt?: string;
+  }> {
+    const parsed = PrescriptionUtils.parseQrPayload(qrCode);
+    if (!parsed) {
+      return { valid: false, reason: 'MALFORMED' };
+    }
+
+    const result = await payload.find({
+      collection: 'prescriptions',
+      where: {
+        number: { equals: parsed.prescription.number },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    const prescription = result.docs[0];
+    const verification = PrescriptionUtils.verifyQrPayload(qrCode, {
+      trustedFingerprints: prescription ? [prescription.signingKeyFingerprint] : [],
+    });
+
+    if (!prescription) {
+      return verification;
+    }
+
+    return {
+      ...verification,
+      prescriptionId: prescription.id,
+      isDispensed: prescription.isDispensed,
+      dispensedAt: prescription.dispensedAt,
+    };
+  }
+
+  /**
+   * What a pharmacy sees after scanning: the signature check, the drug and
+   * how many packs can still be dispensed.
+   */
+  async getPrescriptionForPharmacy(qrCode: string): Promise<{ verification: PrescriptionVerification; prescription?: any }> {
+    const verification = await this.verifyPrescription(qrCode);
+
+    // A forged or tampered code only gets the verification result
+    const isAuthentic = verification.valid || verification.reason === 'EXPIRED';
+    if (!verification.prescriptionId || !isAuthentic) {
+      return { verification };
+    }
+
+    const prescription = await this.getPrescription(verification.prescriptionId);
+    return { verification, prescription: this.toPharmacyView(prescription) };
+  }
+
+  /**
+   * Record packs handed over by a pharmacy. Without a quantity the remaining
+   * packs are dispensed; a lock per prescription stops two pharmacies from
+   * dispensing the same packs at once.
+   */
+  async dispensePrescription(
+    qrCode: string,
+    pharmacy: any,
+    params: { quantity?: number; pharmacistName?: string } = {}
+  ): Promise<any> {
+    const verification = await this.verifyPrescription(qrCode);
+
+    if (!verification.prescriptionId) {
+      throw ErrorUtils.createAppError('Prescription not found', 404, 'PRESCRIPTION_NOT_FOUND');
+    }
+
+    if (!verification.valid) {
+      const code = verification.reason === 'EXPIRED' ? 'PRESCRIPTION_EXPIRED' : 'PRESCRIPTION_INVALID';
+      throw ErrorUtils.createAppError('Prescription cannot be dispensed', 400, code, { reason: verification.reason });
+    }
+
+    const lockKey = `prescription_dispense:${verification.prescriptionId}`;
+    const lockToken = randomUUID();
+    const acquired = await this.redis.set(lockKey, lockToken, 'PX', DISPENSE_LOCK_TTL_MS, 'NX');
+    if (!acquired) {
+      throw ErrorUtils.createAppError('Prescription is being dispensed elsewhere, try again', 409, 'DISPENSE_IN_PROGRESS');
+    }
+
+    try {
+      // Read again under the lock: another pharmacy may have just dispensed it
+      const prescription = await this.getPrescription(verification.prescriptionId);
+      const dispensedQuantity = prescription.dispensedQuantity || 0;
+      const remaining = prescription.quantity - dispensedQuantity;
+
+      if (prescription.isDispensed || remaining <= 0) {
+        throw ErrorUtils.createAppError('Prescription has already been dispensed', 409, 'ALREADY_DISPENSED', {
+          dispensedAt: prescription.dispensedAt,
+        });
+      }
+
+      const quantity = params.quantity ?? remaining;
+      if (quantity > remaining) {
+        throw ErrorUtils.createAppError('Quantity exceeds the packs left on the prescription', 400, 'QUANTITY_EXCEEDS_REMAINING', {
+          remaining,
+        });
+      }
+
+      const now = new Date().toISOString();
+      const dispensation: PrescriptionDispensation = {
+        pharmacyId: pharmacy.id,
+        quantity,
+        pharmacistName: params.pharmacistName,
+        dispensedAt: now,
+      };
+      const isDispensed = quantity === remaining;
+
+      const updatedPrescription = await payload.update({
+        collection: 'prescriptions',
+        id: prescription.id,
+        data: {
+          dispensedQuantity: dispensedQuantity + quantity,
+          dispensations: [...(Array.isArray(prescription.dispensations) ? prescription.dispensations : []), dispensation],
+          isDispensed,
+          ...(isDispensed && { dispensedAt: now, pharmacy: pharmacy.id }),
+        },
+      });
+
+      const { db } = await import('@doggo/database');
+      await db.createAuditLog(
+        null,
+        'prescription_dispensed',
+        'prescription',
+        prescription.id,
+        { dispensedQuantity: { from: dispensedQuantity, to: dispensedQuantity + quantity } },
+        { pharmacyId: pharmacy.id, pharmacyCode: pharmacy.code, pharmacistName: params.pharmacistName, number: prescription.number }
+      );
+
+      await this.notifyDispensed(prescription, pharmacy, quantity, isDispensed);
+
+      payload.logger.info(`Prescription ${prescription.number}: ${quantity} pack(s) dispensed by pharmacy ${pharmacy.code}`);
+
+      return this.toPharmacyView({ ...prescription, ...updatedPrescription });
+    } finally {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockToken);
+    }
+  }
+
+  // Pharmacies see the therapy, not the owner's personal data
+  private toPharmacyView(prescription: any) {
+    const dispensedQuantity = prescription.dispensedQuantity || 0;
+    return {
+      id: prescription.id,
+      number: prescription.number,
+      veterinarian: {
+        clinicName: prescription.veterinarian?.clinicName,
+        licenseNumber: prescription.veterinarian?.licenseNumber,
+      },
+      patient: {
+        name: prescription.patient?.name,
+        breed: prescription.patient?.breed,
+      },
+      drugName: prescription.drugName,
+      activeIngredient: prescription.activeIngredient,
+      dosage: prescription.dosage,
+      frequency: prescription.frequency,
+      duration: prescription.duration,
+      instructions: prescription.instructions,
+      warnings: prescription.warnings,
+      issueDate: prescription.issueDate,
+      validUntil: prescription.validUntil,
+      quantity: prescription.quantity,
+      dispensedQuantity,
+      remainingQuantity: Math.max(0, prescription.quantity - dispensedQuantity),
+      isDispensed: prescription.isDispensed,
+      dispensedAt: prescription.dispensedAt,
+    };
+  }
+
+  private async notifyDispensed(prescription: any, pharmacy: any, quantity: number, isDispensed: boolean): Promise<void> {
+    const recipients = [getId(prescription.owner), getId(prescription.veterinarian?.user)].filter(Boolean);
+
+    for (const userId of recipients) {
+      try {
+        await this.notification.sendPrescriptionDispensed(userId, prescription, pharmacy, quantity, isDispensed);
+      } catch (error) {
+        payload.logger.warn(`Failed to notify dispensing of prescription ${prescription.id}:`, error);
+      }
+    }
+  }
+
+  // Printable copy with the QR code, for the owner to take to the pharmacy
+  async generatePdf(prescriptionId: string, user: any): Promise<{ filename: string; content: Buffer }> {
+    const prescription = await this.getPrescription(prescriptionId);
+
+    const isOwner = getId(prescription.owner) === user.id;
+    const isPrescriber = getId(prescription.veterinarian?.user) === user.id;
+    if (!isOwner && !isPrescriber && user.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([595.28, 841.89]); // A4
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const { height } = page.getSize();
+
+    let y = height - 60;
+    const line = (label: string, value?: string) => {
+      if (!value) return;
+      page.drawText(label, { x: 50, y, size: 10, font: bold });
+      page.drawText(value, { x: 180, y, size: 10, font, maxWidth: 365, lineHeight: 13 });
+      y -= 18 * Math.max(1, Math.ceil(font.widthOfTextAtSize(value, 10) / 365));
+    };
+
+    page.drawText('Ricetta Elettronica Veterinaria', { x: 50, y, size: 18, font: bold });
+    y -= 24;
+    page.drawText(prescription.number, { x: 50, y, size: 12, font, color: rgb(0.3, 0.3, 0.3) });
+    y -= 36;
+
+    const veterinarian = prescription.veterinarian;
+    line('Veterinario', veterinarian?.clinicName);
+    line('N. Iscrizione Albo', veterinarian?.licenseNumber);
+    line('Paziente', prescription.patient?.name);
+    line('Proprietario', [prescription.owner?.firstName, prescription.owner?.lastName].filter(Boolean).join(' '));
+    y -= 12;
+    line('Farmaco', prescription.drugName);
+    line('Principio Attivo', prescription.activeIngredient);
+    line('Dosaggio', prescription.dosage);
+    line('Frequenza', prescription.frequency);
+    line('Durata', prescription.duration);
+    line('Confezioni', String(prescription.quantity));
+    line('Istruzioni', prescription.instructions);
+    line('Avvertenze', prescription.warnings);
+    y -= 12;
+    line('Emessa il', DateUtils.format(prescription.issueDate));
+    line('Valida fino al', DateUtils.format(prescription.validUntil));
+
+    const qrImage = await pdf.embedPng(await QRCode.toBuffer(prescription.qrCode, { errorCorrectionLevel: 'M', margin: 1 }));
+    page.drawImage(qrImage, { x: 50, y: 60, width: 200, height: 200 });
+    page.drawText(`Firma digitale: ${prescription.signingKeyFingerprint.slice(0, 16)}`, {
+      x: 270,
+      y: 70,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+
+    return {
+      filename: `${prescription.number}.pdf`,
+      content: Buffer.from(await pdf.save()),
+    };
+  }
+
+  // Only the verified veterinarian of a confirmed or completed visit can prescribe
+  private async getPrescribableBooking(bookingId: string, actor: any): Promise<any> {
+    const booking = await payload.findByID({
+      collection: 'bookings',
+      id: bookingId,
+      depth: 1,
+    });
+
+    if (!booking) {
+      throw ErrorUtils.createAppError('Booking not found', 404, 'BOOKING_NOT_FOUND');
+    }
+
+    const veterinarian = booking.veterinarian;
+    if (actor.role !== 'veterinarian' || getId(veterinarian?.user) !== actor.id) {
+      throw ErrorUtils.createAppError('Only the booking veterinarian can prescribe', 403, 'ACCESS_DENIED');
+    }
+
+    if (!veterinarian.isVerified) {
+      throw ErrorUtils.createAppError('Only verified veterinarians can issue prescriptions', 403, 'VETERINARIAN_NOT_VERIFIED');
+    }
+
+    if (!PRESCRIBABLE_BOOKING_STATUSES.includes(booking.status)) {
+      throw ErrorUtils.createAppError('Prescriptions can only be issued for confirmed or completed visits', 400, 'INVALID_STATUS');
+    }
+
+    return booking;
+  }
+
+  // Dose against the dog's weight and age, interactions with its current prescriptions and noted allergies
+  private async checkSafety(
+    dogId: string,
+    params: { activeIngredient: string; drugName: string; doseMg?: number }
+  ): Promise<PrescriptionSafetyWarning[]> {
+    const [dog, formulary, activePrescriptions] = await Promise.all([
+      payload.findByID({ collection: 'dogs', id: dogId, depth: 0 }),
+      this.getFormulary(),
+      payload.find({
+        collection: 'prescriptions',
+        where: {
+          patient: { equals: dogId },
+          validUntil: { greater_than: new Date().toISOString() },
+        },
+        limit: 100,
+        depth: 0,
+      }),
+    ]);
+
+    return PrescriptionUtils.checkSafety({
+      activeIngredient: params.activeIngredient,
+      drugName: params.drugName,
+      doseMg: params.doseMg,
+      dog: {
+        weight: dog?.weight,
+        birthDate: dog?.birthDate,
+        medicalNotes: dog?.medicalNotes,
+      },
+      activePrescriptions: activePrescriptions.docs.map(prescription => ({
+        number: prescription.number,
+        drugName: prescription.drugName,
+        activeIngredient: prescription.activeIngredient,
+      })),
+      formulary,
+    });
+  }
+
+  // CMS rows keep list values as { name } / { keyword } objects
+  private async getFormulary(): Promise<FormularyDrug[]> {
+    const result = await payload.find({
+      collection: 'formulary-drugs',
+      where: {
+        isActive: { equals: true },
+      },
+      limit: 1000,
+      depth: 0,
+    });
+
+    return result.docs.map(doc => ({
+      id: doc.id,
+      name: doc.name,
+      activeIngredient: doc.activeIngredient,
+      aliases: (doc.aliases || []).map(alias => alias.name),
+      doseRange: doc.doseRange?.minMgPerKg != null && doc.doseRange?.maxMgPerKg != null
+        ? { minMgPerKg: doc.doseRange.minMgPerKg, maxMgPerKg: doc.doseRange.maxMgPerKg }
+        : undefined,
+      minAgeMonths: doc.minAgeMonths ?? undefined,
+      allergyKeywords: (doc.allergyKeywords || []).map(row => row.keyword),
+      interactions: (doc.interactions || []).map(row => ({
+        activeIngredient: row.activeIngredient,
+        severity: row.severity,
+        note: row.note || undefined,
+      })),
+    }));
+  }
+
+  // Per-veterinarian key pair, created on the first prescription
+  private async getSigningKey(veterinarianId: string): Promise<{
+    publicKey: string;
+    encryptedPrivateKey: string;
+    fingerprint: string;
+  }> {
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id: veterinarianId,
+      depth: 0,
+    });
+
+    if (veterinarian?.signingKey?.publicKey) {
+      return veterinarian.signingKey;
+    }
+
+    const keyPair = PrescriptionUtils.generateKeyPair();
+    const signingKey = {
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey: this.encryptPrivateKey(keyPair.privateKey),
+      fingerprint: keyPair.fingerprint,
+      createdAt: new Date().toISOString(),
+    };
+
+    await payload.update({
+      collection: 'veterinarians',
+      id: veterinarianId,
+      data: { signingKey },
+    });
+
+    payload.logger.info(`Prescription signing key ${keyPair.fingerprint} created for veterinarian ${veterinarianId}`);
+
+    return signingKey;
+  }
+
+  private async assertPrescriptionsEnabled(): Promise<void> {
+    let enabled = true;
+    try {
+      const settings = await payload.findGlobal({ slug: 'site-settings' });
+      enabled = settings?.features?.enablePrescriptions !== false;
+    } catch (error) {
+      // Settings unavailable: keep the default
+    }
+
+    if (!enabled) {
+      throw ErrorUtils.createAppError('Digital prescriptions are disabled', 503, 'FEATURE_DISABLED');
+    }
+  }
+
+  // Private keys are stored with AES-256-GCM under PRESCRIPTION_SIGNING_SECRET
+  private getEncryptionKey(): Buffer {
+    const secret = process.env.PRESCRIPTION_SIGNING_SECRET;
+    if (!secret) {
+      throw ErrorUtils.createAppError('Prescription signing is not configured', 500, 'SIGNING_NOT_CONFIGURED');
+    }
+    return createHash('sha256').update(secret).digest();
+  }
+
+  private encryptPrivateKey(privateKey: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+  }
+
+  private decryptPrivateKey(encryptedPrivateKey: string): string {
+    const [iv, authTag, encrypted] = encryptedPrivateKey.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+}
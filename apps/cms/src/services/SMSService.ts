@@ -1,5 +1,6 @@
 import twilio from 'twilio';
 import payload from 'payload';
+import type { VaccinationScheduleItem } from '@doggo/types';
 
 export class SMSService {
   private client: twilio.Twilio;
@@ -84,6 +85,47 @@ export class SMSService {
     );
   }
 
+  async sendBookingRescheduled(booking: any, user: any, veterinarian: any): Promise<void> {
+    await this.sendTemplatedSMS(
+      user.phone,
+      'booking_rescheduled',
+      {
+        dogName: booking.dog?.name || '',
+        clinicName: veterinarian.clinicName,
+        date: new Date(booking.scheduledAt).toLocaleDateString('it-IT'),
+        time: new Date(booking.scheduledAt).toLocaleTimeString('it-IT', {
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+      }
+    );
+  }
+
+  async sendVaccinationReminder(user: any, dog: any, items: VaccinationScheduleItem[]): Promise<void> {
+    await this.sendTemplatedSMS(
+      user.phone,
+      'vaccination_reminder',
+      {
+        dogName: dog.name,
+        vaccines: items.map(item => item.name).join(', '),
+        url: `${process.env.NEXTAUTH_URL}/dogs/${dog.id}/vaccinations`,
+      }
+    );
+  }
+
+  async sendDogFound(user: any, dog: any, found: { where: string; contact: { name?: string; phone?: string } }): Promise<void> {
+    await this.sendTemplatedSMS(
+      user.phone,
+      'dog_found',
+      {
+        dogName: dog.name || 'il tuo cane',
+        where: found.where || '',
+        contactName: found.contact.name || '',
+        contactPhone: found.contact.phone || '',
+      }
+    );
+  }
+
   async sendEmergencyAlert(user: any, emergency: any, distance: number): Promise<void> {
     await this.sendTemplatedSMS(
       user.phone,
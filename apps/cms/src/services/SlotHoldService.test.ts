@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { SlotHoldService } from './SlotHoldService';
+
+vi.mock('payload', () => ({
+  default: {
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  },
+}));
+
+const VETERINARIAN_ID = 'vet-1';
+const SLOT = new Date('2030-03-04T10:00:00.000Z');
+
+describe('SlotHoldService', () => {
+  let redis: Redis;
+  let service: SlotHoldService;
+
+  beforeEach(async () => {
+    redis = new RedisMock() as unknown as Redis;
+    await redis.flushall();
+    service = new SlotHoldService(redis);
+  });
+
+  const hold = (userId: string, scheduledAt: Date = SLOT, duration = 30) =>
+    service.acquireHold({ veterinarianId: VETERINARIAN_ID, userId, scheduledAt, duration, type: 'general' });
+
+  it('lets only one of many concurrent requests hold the same slot', async () => {
+    const results = await Promise.all(Array.from({ length: 20 }, (_, i) => hold(`user-${i}`)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('rejects a concurrent hold that overlaps part of the slot', async () => {
+    const [long, overlapping] = await Promise.all([
+      hold('user-a', SLOT, 60),
+      hold('user-b', new Date(SLOT.getTime() + 30 * 60000), 30),
+    ]);
+
+    expect([long, overlapping].filter(Boolean)).toHaveLength(1);
+  });
+
+  it('allows adjacent slots to be held at the same time', async () => {
+    const [first, second] = await Promise.all([
+      hold('user-a', SLOT, 30),
+      hold('user-b', new Date(SLOT.getTime() + 30 * 60000), 30),
+    ]);
+
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+  });
+
+  it('rejects a hold that starts inside the buffer after another', async () => {
+    const withBuffer = (userId: string, scheduledAt: Date) =>
+      service.acquireHold({ veterinarianId: VETERINARIAN_ID, userId, scheduledAt, duration: 30, bufferMinutes: 10 });
+
+    expect(await withBuffer('user-a', SLOT)).not.toBeNull();
+    expect(await withBuffer('user-b', new Date(SLOT.getTime() + 35 * 60000))).toBeNull();
+    expect(await withBuffer('user-c', new Date(SLOT.getTime() + 40 * 60000))).not.toBeNull();
+  });
+
+  it('keeps other veterinarians independent', async () => {
+    const [first, second] = await Promise.all([
+      hold('user-a'),
+      service.acquireHold({ veterinarianId: 'vet-2', userId: 'user-b', scheduledAt: SLOT, duration: 30 }),
+    ]);
+
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+  });
+
+  it('lets only one of two vets of the same clinic hold the last room', async () => {
+    const [first, second] = await Promise.all([
+      hold('user-a'),
+      service.acquireHold({ veterinarianId: 'vet-2', userId: 'user-b', scheduledAt: SLOT, duration: 30 }),
+    ]);
+
+    const contested = await Promise.all([
+      service.holdResources(first!.id, ['operating-room']),
+      service.holdResources(second!.id, ['operating-room']),
+    ]);
+
+    expect(contested.filter(held => held.length === 0)).toHaveLength(1);
+    expect(contested.flat()).toEqual(['operating-room']);
+  });
+
+  it('frees held rooms along with the slot', async () => {
+    const first = await hold('user-a');
+    await service.holdResources(first!.id, ['operating-room']);
+    const second = await service.acquireHold({ veterinarianId: 'vet-2', userId: 'user-b', scheduledAt: SLOT, duration: 30 });
+
+    expect(await service.holdResources(second!.id, ['operating-room'])).toEqual(['operating-room']);
+
+    await service.releaseHold(first!.id);
+
+    expect(await service.holdResources(second!.id, ['operating-room'])).toEqual([]);
+  });
+
+  it('frees the slot once the hold is released', async () => {
+    const first = await hold('user-a');
+    expect(await hold('user-b')).toBeNull();
+
+    await service.releaseHold(first!.id);
+
+    expect(await hold('user-b')).not.toBeNull();
+  });
+
+  it('hides held slots from other users but not from the holder', async () => {
+    const first = await hold('user-a');
+    const date = new Date(SLOT);
+    const slot = `${String(SLOT.getHours()).padStart(2, '0')}:${String(SLOT.getMinutes()).padStart(2, '0')}`;
+
+    expect(await service.filterHeldSlots(VETERINARIAN_ID, date, [slot], 30)).toEqual([]);
+    expect(await service.filterHeldSlots(VETERINARIAN_ID, date, [slot], 30, first!.id)).toEqual([slot]);
+  });
+});
@@ -0,0 +1,198 @@
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import payload from 'payload';
+
+export interface SlotHold {
+  id: string;
+  veterinarianId: string;
+  userId: string;
+  scheduledAt: string;
+  duration: number;
+  bufferMinutes?: number; // The vet's gap after a visit, locked along with it
+  type?: string;
+  waitlistEntryId?: string;
+  resourceIds?: string[]; // Clinic rooms and equipment held along with the slot
+  expiresAt: string;
+}
+
+// Atomically claim every block of the slot, or none if any block is held by someone else
+const ACQUIRE_SCRIPT = `
+for i, key in ipairs(KEYS) do
+  local holder = redis.call('GET', key)
+  if holder and holder ~= ARGV[1] then
+    return 0
+  end
+end
+for i, key in ipairs(KEYS) do
+  redis.call('SET', key, ARGV[1], 'PX', ARGV[2])
+end
+return 1
+`;
+
+// Only delete blocks that still belong to this hold
+const RELEASE_SCRIPT = `
+local released = 0
+for i, key in ipairs(KEYS) do
+  if redis.call('GET', key) == ARGV[1] then
+    redis.call('DEL', key)
+    released = released + 1
+  end
+end
+return released
+`;
+
+export class SlotHoldService {
+  private redis: Redis;
+  private ttlSeconds: number;
+
+  // Slots are locked in fixed blocks so overlapping holds of different lengths collide
+  static readonly BLOCK_MINUTES = 5;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+    this.ttlSeconds = parseInt(process.env.SLOT_HOLD_TTL_SECONDS || '600'); // 10 minutes
+  }
+
+  static getBlockKeys(veterinarianId: string, scheduledAt: Date, duration: number): string[] {
+    return SlotHoldService.blockKeys(`slot_lock:${veterinarianId}`, scheduledAt, duration);
+  }
+
+  // Rooms and equipment are shared by the clinic's vets, so they are locked on their own
+  static getResourceBlockKeys(resourceId: string, scheduledAt: Date, duration: number): string[] {
+    return SlotHoldService.blockKeys(`resource_lock:${resourceId}`, scheduledAt, duration);
+  }
+
+  private static blockKeys(prefix: string, scheduledAt: Date, duration: number): string[] {
+    const blockMs = SlotHoldService.BLOCK_MINUTES * 60000;
+    const start = Math.floor(scheduledAt.getTime() / blockMs);
+    const end = Math.ceil((scheduledAt.getTime() + duration * 60000) / blockMs);
+
+    const keys: string[] = [];
+    for (let block = start; block < end; block++) {
+      keys.push(`${prefix}:${block}`);
+    }
+    return keys;
+  }
+
+  async acquireHold(params: {
+    veterinarianId: string;
+    userId: string;
+    scheduledAt: Date;
+    duration: number;
+    bufferMinutes?: number;
+    type?: string;
+    waitlistEntryId?: string;
+    ttlSeconds?: number;
+  }): Promise<SlotHold | null> {
+    const ttlSeconds = params.ttlSeconds || this.ttlSeconds;
+    const bufferMinutes = params.bufferMinutes || 0;
+    const hold: SlotHold = {
+      id: randomUUID(),
+      veterinarianId: params.veterinarianId,
+      userId: params.userId,
+      scheduledAt: params.scheduledAt.toISOString(),
+      duration: params.duration,
+      bufferMinutes,
+      type: params.type,
+      waitlistEntryId: params.waitlistEntryId,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    };
+
+    // Holds closer than the buffer collide, as the bookings could not both be kept
+    const keys = SlotHoldService.getBlockKeys(params.veterinarianId, params.scheduledAt, params.duration + bufferMinutes);
+    const acquired = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      keys.length,
+      ...keys,
+      hold.id,
+      ttlSeconds * 1000
+    );
+
+    if (acquired !== 1) {
+      return null;
+    }
+
+    await this.redis.set(`slot_hold:${hold.id}`, JSON.stringify(hold), 'EX', ttlSeconds);
+    payload.logger.info(`Slot hold ${hold.id} acquired for veterinarian ${params.veterinarianId} at ${hold.scheduledAt}`);
+
+    return hold;
+  }
+
+  /**
+   * Add clinic resources to a hold, all or none. Returns the resources
+   * another hold already has at that time, empty when they were acquired.
+   */
+  async holdResources(holdId: string, resourceIds: string[]): Promise<string[]> {
+    if (resourceIds.length === 0) return [];
+
+    const hold = await this.getHold(holdId);
+    if (!hold) return resourceIds;
+
+    const scheduledAt = new Date(hold.scheduledAt);
+    const ttlMs = Math.max(new Date(hold.expiresAt).getTime() - Date.now(), 1000);
+    const keysByResource = resourceIds.map(resourceId => SlotHoldService.getResourceBlockKeys(resourceId, scheduledAt, hold.duration));
+    const keys = keysByResource.flat();
+
+    const acquired = await this.redis.eval(ACQUIRE_SCRIPT, keys.length, ...keys, holdId, ttlMs);
+
+    if (acquired !== 1) {
+      const holders = await this.redis.mget(...keys);
+      const heldKeys = new Set(keys.filter((_, index) => holders[index] && holders[index] !== holdId));
+      return resourceIds.filter((_, index) => keysByResource[index].some(key => heldKeys.has(key)));
+    }
+
+    hold.resourceIds = Array.from(new Set([...(hold.resourceIds || []), ...resourceIds]));
+    await this.redis.set(`slot_hold:${holdId}`, JSON.stringify(hold), 'PX', ttlMs);
+
+    return [];
+  }
+
+  async getHold(holdId: string): Promise<SlotHold | null> {
+    const data = await this.redis.get(`slot_hold:${holdId}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async releaseHold(holdId: string): Promise<void> {
+    const hold = await this.getHold(holdId);
+    if (!hold) return;
+
+    const scheduledAt = new Date(hold.scheduledAt);
+    const keys = [
+      ...SlotHoldService.getBlockKeys(hold.veterinarianId, scheduledAt, hold.duration + (hold.bufferMinutes || 0)),
+      ...(hold.resourceIds || []).flatMap(resourceId => SlotHoldService.getResourceBlockKeys(resourceId, scheduledAt, hold.duration)),
+    ];
+    await this.redis.eval(RELEASE_SCRIPT, keys.length, ...keys, holdId);
+    await this.redis.del(`slot_hold:${holdId}`);
+
+    payload.logger.info(`Slot hold ${holdId} released`);
+  }
+
+  /**
+   * Remove slots that overlap a hold owned by another user.
+   * `exceptHoldId` lets the holder keep seeing their own slot.
+   */
+  async filterHeldSlots(
+    veterinarianId: string,
+    date: Date,
+    slots: string[],
+    duration: number,
+    exceptHoldId?: string
+  ): Promise<string[]> {
+    if (slots.length === 0) return slots;
+
+    const slotKeys = slots.map(slot => {
+      const [hours, minutes] = slot.split(':').map(Number);
+      const slotStart = new Date(date);
+      slotStart.setHours(hours, minutes, 0, 0);
+      return SlotHoldService.getBlockKeys(veterinarianId, slotStart, duration);
+    });
+
+    const uniqueKeys = Array.from(new Set(slotKeys.flat()));
+    const holders = await this.redis.mget(...uniqueKeys);
+    const heldKeys = new Set(
+      uniqueKeys.filter((_, index) => holders[index] && holders[index] !== exceptHoldId)
+    );
+
+    return slots.filter((_, index) => !slotKeys[index].some(key => heldKeys.has(key)));
+  }
+}
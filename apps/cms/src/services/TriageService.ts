@@ -0,0 +1,299 @@
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import payload from 'payload';
+import { ErrorUtils, TriageSystem } from '@doggo/utils';
+import type {
+  EmergencyVeterinarian,
+  LocationPoint,
+  TriageDogProfile,
+  TriageQuestion,
+  TriageQuestionnaire,
+  TriageResponse,
+  TriageResult,
+  TriageSession,
+} from '@doggo/types';
+
+export class TriageService {
+  private redis: Redis;
+  private sessionTtlSeconds: number;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+    this.sessionTtlSeconds = parseInt(process.env.TRIAGE_SESSION_TTL_SECONDS || '3600'); // 1 hour
+  }
+
+  /**
+   * The question bank new triage is scored with: the active version edited
+   * in the CMS, or the built-in one until an admin publishes a version.
+   */
+  async getActiveQuestionnaire(): Promise<TriageQuestionnaire> {
+    const active = await payload.find({
+      collection: 'triage-questionnaires',
+      where: {
+        isActive: { equals: true },
+      },
+      sort: '-version',
+      limit: 1,
+      depth: 0,
+    });
+
+    return active.docs.length > 0
+      ? this.toQuestionnaire(active.docs[0])
+      : TriageSystem.getDefaultQuestionnaire();
+  }
+
+  // A past version, to explain the score of a booking triaged with it
+  async getQuestionnaire(version: number): Promise<TriageQuestionnaire> {
+    if (version === TriageSystem.DEFAULT_VERSION) {
+      return TriageSystem.getDefaultQuestionnaire();
+    }
+
+    const result = await payload.find({
+      collection: 'triage-questionnaires',
+      where: {
+        version: { equals: version },
+        publishedAt: { exists: true },
+      },
+      limit: 1,
+      depth: 0,
+    });
+
+    if (result.docs.length === 0) {
+      throw ErrorUtils.createAppError('Triage questionnaire version not found', 404, 'TRIAGE_QUESTIONNAIRE_NOT_FOUND');
+    }
+
+    return this.toQuestionnaire(result.docs[0]);
+  }
+
+  async calculateTriageScore(responses: TriageResponse[], version?: number, dog?: TriageDogProfile): Promise<TriageResult> {
+    const questionnaire = version
+      ? await this.getQuestionnaire(version)
+      : await this.getActiveQuestionnaire();
+
+    return TriageSystem.calculateTriageScore(responses, questionnaire, dog);
+  }
+
+  // Score a complete set of answers at once, keeping the path to store on the booking
+  async scoreResponses(responses: TriageResponse[], dog?: TriageDogProfile): Promise<{
+    result: TriageResult;
+    path: Array<{ questionId: string; question?: string; answer: TriageResponse['answer'] }>;
+  }> {
+    const questionnaire = await this.getActiveQuestionnaire();
+    return {
+      result: TriageSystem.calculateTriageScore(responses, questionnaire, dog),
+      path: this.toPath(responses, questionnaire),
+    };
+  }
+
+  // The owner's dog, reduced to what the risk modifiers look at
+  async getDogProfile(dogId: string, user: any): Promise<TriageDogProfile> {
+    const dog = await payload.findByID({
+      collection: 'dogs',
+      id: dogId,
+      depth: 0,
+    });
+
+    if (!dog) {
+      throw ErrorUtils.createAppError('Dog not found', 404, 'DOG_NOT_FOUND');
+    }
+
+    if (dog.owner !== user.id && user.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    return this.toDogProfile(dog);
+  }
+
+  toDogProfile(dog: any): TriageDogProfile {
+    return {
+      birthDate: dog.birthDate,
+      breed: dog.breed,
+      size: dog.size,
+      medicalNotes: dog.medicalNotes,
+    };
+  }
+
+  // Nearest vets accepting emergencies that are open right now
+  async findEmergencyVeterinarians(location: LocationPoint, radiusKm?: number): Promise<EmergencyVeterinarian[]> {
+    const { db } = await import('@doggo/database');
+    const veterinarians = await db.findOpenEmergencyVeterinarians(location.latitude, location.longitude, radiusKm);
+
+    return veterinarians.slice(0, 5).map(veterinarian => ({
+      id: veterinarian.id,
+      name: `${veterinarian.user.firstName} ${veterinarian.user.lastName}`,
+      clinicName: veterinarian.clinic?.name || veterinarian.clinicName,
+      clinicAddress: veterinarian.clinicAddress,
+      phone: veterinarian.user.phone || undefined,
+      emergencyFee: veterinarian.emergencyFee,
+      distance: Math.round(veterinarian.distance * 10) / 10,
+    }));
+  }
+
+  /**
+   * Start an adaptive triage: questions are asked one at a time, follow-ups
+   * only when an earlier answer calls for them.
+   */
+  async startSession(user: any, params: { dogId?: string; location?: LocationPoint } = {}): Promise<TriageSession> {
+    const questionnaire = await this.getActiveQuestionnaire();
+    const dog = params.dogId ? await this.getDogProfile(params.dogId, user) : undefined;
+    const evaluation = TriageSystem.evaluateSession([], questionnaire, dog);
+
+    const session: TriageSession = {
+      id: randomUUID(),
+      userId: user.id,
+      dogId: params.dogId,
+      dog,
+      location: params.location,
+      questionnaireVersion: questionnaire.version,
+      status: evaluation.status,
+      responses: [],
+      nextQuestion: evaluation.nextQuestion,
+      result: evaluation.result,
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + this.sessionTtlSeconds * 1000).toISOString(),
+    };
+
+    await this.saveSession(session);
+    return session;
+  }
+
+  async getSession(sessionId: string, user: any): Promise<TriageSession> {
+    const data = await this.redis.get(`triage_session:${sessionId}`);
+    if (!data) {
+      throw ErrorUtils.createAppError('Triage session not found or expired', 404, 'TRIAGE_SESSION_NOT_FOUND');
+    }
+
+    const session: TriageSession = JSON.parse(data);
+    if (session.userId !== user.id && user.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    return session;
+  }
+
+  // Record the answer to the current question and move on, or finish the session
+  async answerQuestion(sessionId: string, user: any, response: TriageResponse): Promise<TriageSession> {
+    const session = await this.getSession(sessionId, user);
+
+    if (session.status !== 'in_progress') {
+      throw ErrorUtils.createAppError('Triage session is already finished', 400, 'TRIAGE_SESSION_FINISHED');
+    }
+
+    const question = session.nextQuestion;
+    if (!question || question.id !== response.questionId) {
+      throw ErrorUtils.createAppError('Answer the current question first', 400, 'UNEXPECTED_QUESTION', {
+        expectedQuestionId: question?.id,
+      });
+    }
+
+    if (!TriageSystem.isValidAnswer(question, response.answer)) {
+      throw ErrorUtils.createAppError('Invalid answer for this question', 400, 'INVALID_ANSWER', {
+        questionId: question.id,
+        options: question.options,
+      });
+    }
+
+    const questionnaire = await this.getQuestionnaire(session.questionnaireVersion);
+    const responses = [...session.responses, { questionId: question.id, answer: response.answer }];
+    const evaluation = TriageSystem.evaluateSession(responses, questionnaire, session.dog);
+
+    const updatedSession: TriageSession = {
+      ...session,
+      responses,
+      status: evaluation.status,
+      nextQuestion: evaluation.nextQuestion,
+      result: evaluation.result,
+    };
+
+    if (evaluation.status === 'emergency' && session.location) {
+      updatedSession.emergencyVeterinarians = await this.findEmergencyVeterinarians(session.location);
+    }
+
+    await this.saveSession(updatedSession);
+    return updatedSession;
+  }
+
+  /**
+   * Result and answer path of a finished session, in the shape stored on
+   * the booking it leads to. A session started for another dog is refused;
+   * one started without a dog is re-scored for the dog being booked.
+   */
+  async getSessionOutcome(sessionId: string, user: any, dog?: any): Promise<{
+    result: TriageResult;
+    path: Array<{ questionId: string; question?: string; answer: TriageResponse['answer'] }>;
+  }> {
+    const session = await this.getSession(sessionId, user);
+
+    if (session.status === 'in_progress' || !session.result) {
+      throw ErrorUtils.createAppError('Triage session is not finished yet', 400, 'TRIAGE_SESSION_IN_PROGRESS');
+    }
+
+    if (dog && session.dogId && session.dogId !== dog.id) {
+      throw ErrorUtils.createAppError('Triage session was completed for another dog', 400, 'TRIAGE_DOG_MISMATCH');
+    }
+
+    const questionnaire = await this.getQuestionnaire(session.questionnaireVersion);
+    return {
+      result: dog && !session.dogId
+        ? TriageSystem.calculateTriageScore(session.responses, questionnaire, this.toDogProfile(dog))
+        : session.result,
+      path: this.toPath(session.responses, questionnaire),
+    };
+  }
+
+  // Answers in order, with the wording that was shown to the owner
+  toPath(responses: TriageResponse[], questionnaire: TriageQuestionnaire) {
+    return responses.map(response => ({
+      questionId: response.questionId,
+      question: questionnaire.questions.find(question => question.id === response.questionId)?.question,
+      answer: response.answer,
+    }));
+  }
+
+  private async saveSession(session: TriageSession): Promise<void> {
+    const ttlSeconds = Math.max(1, Math.ceil((new Date(session.expiresAt).getTime() - Date.now()) / 1000));
+    await this.redis.set(`triage_session:${session.id}`, JSON.stringify(session), 'EX', ttlSeconds);
+  }
+
+  // CMS rows use `key` for the question ID and keep scoring options next to the question
+  private toQuestionnaire(doc: any): TriageQuestionnaire {
+    const questions: TriageQuestion[] = (doc.questions || []).map(row => {
+      const question: TriageQuestion = {
+        id: row.key,
+        question: row.question,
+        type: row.type,
+        weight: row.weight,
+        category: row.category,
+      };
+
+      if (row.type === 'boolean') {
+        question.scoring = { inverted: !!row.inverted };
+      } else if (row.type === 'multiple') {
+        const options = row.options || [];
+        question.options = options.map(option => option.label);
+        question.scoring = { optionWeights: options.map(option => option.weight) };
+      } else if (row.type === 'scale') {
+        question.scoring = { scale: { min: row.scaleMin ?? 0, max: row.scaleMax ?? 10 } };
+      }
+
+      if (row.showIf?.question) {
+        question.showIf = {
+          questionId: row.showIf.question,
+          answers: row.showIf.answers || undefined,
+          min: row.showIf.min ?? undefined,
+        };
+      }
+
+      if (row.redFlag?.answers?.length || row.redFlag?.min != null) {
+        question.redFlag = {
+          answers: row.redFlag.answers || undefined,
+          min: row.redFlag.min ?? undefined,
+        };
+      }
+
+      return question;
+    });
+
+    return { version: doc.version, questions };
+  }
+}
@@ -0,0 +1,301 @@
+import payload from 'payload';
+import { createPrivateKey, createPublicKey } from 'crypto';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import QRCode from 'qrcode';
+import { CryptoUtils, DateUtils, ErrorUtils, VaccinationUtils } from '@doggo/utils';
+import type {
+  VaccinationCertificatePayload,
+  VaccinationCertificateVerification,
+  VaccinationReminderLevel,
+  VaccinationScheduleItem,
+} from '@doggo/types';
+import type { EmailService } from './EmailService';
+import type { SMSService } from './SMSService';
+import type { NotificationService } from './NotificationService';
+import type { MedicalRecordService } from './MedicalRecordService';
+
+interface VaccinationServiceDependencies {
+  email: EmailService;
+  sms: SMSService;
+  notification: NotificationService;
+  medicalRecord: MedicalRecordService;
+}
+
+// Reminder state kept on the dog, per vaccine code
+type ReminderState = Record<string, { dueDate: string; level: VaccinationReminderLevel; sentAt: string }>;
+
+const REMINDER_BATCH_SIZE = 100;
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class VaccinationService {
+  private email: EmailService;
+  private sms: SMSService;
+  private notification: NotificationService;
+  private medicalRecord: MedicalRecordService;
+  private includeNonCore: boolean;
+
+  constructor(services: VaccinationServiceDependencies) {
+    this.email = services.email;
+    this.sms = services.sms;
+    this.notification = services.notification;
+    this.medicalRecord = services.medicalRecord;
+    this.includeNonCore = process.env.VACCINATION_INCLUDE_NON_CORE === 'true';
+  }
+
+  // Due and overdue vaccinations of a dog, computed from its birth date and recorded doses
+  async getSchedule(dogId: string, user: any): Promise<{ dog: any; schedule: VaccinationScheduleItem[]; doses: any[] }> {
+    const { dog } = await this.medicalRecord.assertAccess(dogId, user, 'read');
+    const doses = await this.getDoses([dogId]);
+
+    return {
+      dog: {
+        id: dog.id,
+        name: dog.name,
+        birthDate: dog.birthDate,
+      },
+      schedule: this.computeSchedule(dog, doses),
+      doses,
+    };
+  }
+
+  /**
+   * Escalate reminders for every active dog: a push notification two weeks
+   * before the due date, an email on the day and an SMS two weeks later.
+   * Each level is sent once per due date; recording the dose moves the due date.
+   */
+  async sendReminders(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+    let page = 1;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const dogs = await payload.find({
+        collection: 'dogs',
+        where: {
+          isActive: { equals: true },
+        },
+        limit: REMINDER_BATCH_SIZE,
+        page,
+        depth: 1,
+      });
+
+      const doses = await this.getDoses(dogs.docs.map(dog => dog.id));
+
+      for (const dog of dogs.docs) {
+        try {
+          const dogDoses = doses.filter(dose => getId(dose.dog) === dog.id);
+          if (await this.remindOwner(dog, this.computeSchedule(dog, dogDoses, now), now)) {
+            sent++;
+          }
+        } catch (error) {
+          payload.logger.warn(`Failed to send vaccination reminder for dog ${dog.id}:`, error);
+        }
+      }
+
+      hasNextPage = dogs.hasNextPage;
+      page++;
+    }
+
+    return sent;
+  }
+
+  // Certificate of the recorded doses, signed with the platform key and verifiable from its QR code
+  async generateCertificate(dogId: string, user: any): Promise<{ filename: string; content: Buffer }> {
+    const { dog } = await this.medicalRecord.assertAccess(dogId, user, 'read');
+    const signingKey = this.getSigningKey();
+
+    const [owner, doses] = await Promise.all([
+      dog.owner ? payload.findByID({ collection: 'users', id: getId(dog.owner), depth: 0 }) : null,
+      this.getDoses([dogId]),
+    ]);
+
+    if (doses.length === 0) {
+      throw ErrorUtils.createAppError('No vaccinations recorded for this dog', 400, 'NO_VACCINATIONS');
+    }
+
+    const certificate: VaccinationCertificatePayload = {
+      number: VaccinationUtils.generateCertificateNumber(),
+      dogId: dog.id,
+      dogName: dog.name,
+      breed: dog.breed,
+      birthDate: new Date(dog.birthDate).toISOString(),
+      microchipNumber: dog.microchipNumber || undefined,
+      ownerName: [owner?.firstName, owner?.lastName].filter(Boolean).join(' '),
+      vaccinations: doses.map(dose => {
+        const protocol = VaccinationUtils.findProtocol(dose.details?.vaccineCode || '') || VaccinationUtils.findProtocol(dose.title);
+        return {
+          code: protocol?.code || dose.details?.vaccineCode || dose.title,
+          name: protocol?.name || dose.title,
+          administeredAt: new Date(dose.recordedAt).toISOString(),
+          batchNumber: dose.details?.batchNumber || undefined,
+          veterinarian: dose.veterinarian?.clinicName || undefined,
+          nextDueDate: dose.details?.nextDueDate ? new Date(dose.details.nextDueDate).toISOString() : undefined,
+        };
+      }),
+      issuedAt: new Date().toISOString(),
+    };
+
+    const signature = CryptoUtils.signCanonical(certificate, signingKey.privateKey);
+    const qrCode = VaccinationUtils.buildCertificateQrPayload(certificate, signature, signingKey.publicKey);
+
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([595.28, 841.89]); // A4
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const { height } = page.getSize();
+
+    let y = height - 60;
+    const line = (label: string, value?: string) => {
+      if (!value) return;
+      page.drawText(label, { x: 50, y, size: 10, font: bold });
+      page.drawText(value, { x: 180, y, size: 10, font, maxWidth: 365 });
+      y -= 18;
+    };
+
+    page.drawText('Certificato di Vaccinazione', { x: 50, y, size: 18, font: bold });
+    y -= 24;
+    page.drawText(certificate.number, { x: 50, y, size: 12, font, color: rgb(0.3, 0.3, 0.3) });
+    y -= 36;
+
+    line('Cane', certificate.dogName);
+    line('Razza', certificate.breed);
+    line('Data di Nascita', DateUtils.format(certificate.birthDate));
+    line('Microchip', certificate.microchipNumber);
+    line('Proprietario', certificate.ownerName);
+    y -= 12;
+
+    const columns = [50, 230, 310, 400];
+    ['Vaccino', 'Data', 'Lotto', 'Veterinario'].forEach((title, i) => {
+      page.drawText(title, { x: columns[i], y, size: 10, font: bold });
+    });
+    y -= 16;
+
+    // Leave room for the QR code at the bottom of the page
+    for (const vaccination of certificate.vaccinations) {
+      if (y < 280) break;
+      [
+        vaccination.name,
+        DateUtils.format(vaccination.administeredAt),
+        vaccination.batchNumber || '-',
+        vaccination.veterinarian || '-',
+      ].forEach((value, i) => {
+        page.drawText(value, { x: columns[i], y, size: 9, font, maxWidth: (columns[i + 1] || 545) - columns[i] - 8 });
+      });
+      y -= 16;
+    }
+
+    const qrImage = await pdf.embedPng(await QRCode.toBuffer(qrCode, { errorCorrectionLevel: 'L', margin: 1 }));
+    page.drawImage(qrImage, { x: 50, y: 60, width: 200, height: 200 });
+    page.drawText(`Emesso il ${DateUtils.format(certificate.issuedAt)}`, { x: 270, y: 84, size: 8, font });
+    page.drawText(`Firma digitale: ${signingKey.fingerprint.slice(0, 16)}`, {
+      x: 270,
+      y: 70,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+
+    return {
+      filename: `${certificate.number}.pdf`,
+      content: Buffer.from(await pdf.save()),
+    };
+  }
+
+  verifyCertificate(qrCode: string): VaccinationCertificateVerification {
+    return VaccinationUtils.verifyCertificateQrPayload(qrCode, {
+      trustedFingerprints: [this.getSigningKey().fingerprint],
+    });
+  }
+
+  // Send the highest new level reached by any vaccine; returns whether anything went out
+  private async remindOwner(dog: any, schedule: VaccinationScheduleItem[], now: Date): Promise<boolean> {
+    const owner = dog.owner;
+    if (!owner || typeof owner !== 'object') return false;
+
+    const state: ReminderState = dog.vaccinationReminders || {};
+    const due = schedule
+      .map(item => ({ item, level: VaccinationUtils.getReminderLevel(item) }))
+      .filter(({ item, level }) => {
+        const previous = state[item.code];
+        return level > 0 && !(previous?.dueDate === item.nextDueDate && previous.level >= level);
+      });
+
+    if (due.length === 0) return false;
+
+    const level = Math.max(...due.map(entry => entry.level)) as VaccinationReminderLevel;
+    const { channels } = VaccinationUtils.REMINDER_LEVELS.find(entry => entry.level === level)!;
+    const items = due.map(entry => entry.item);
+
+    if (channels.includes('push')) {
+      await this.notification.sendVaccinationReminder(owner.id, dog, items, level);
+    }
+
+    if (channels.includes('email') && owner.email && owner.preferences?.notifications?.email !== false) {
+      await this.email.sendVaccinationReminder(owner, dog, items);
+    }
+
+    if (channels.includes('sms') && owner.phone && owner.preferences?.notifications?.sms !== false) {
+      await this.sms.sendVaccinationReminder(owner, dog, items);
+    }
+
+    const nextState: ReminderState = { ...state };
+    for (const entry of due) {
+      nextState[entry.item.code] = { dueDate: entry.item.nextDueDate, level: entry.level, sentAt: now.toISOString() };
+    }
+
+    await payload.update({
+      collection: 'dogs',
+      id: dog.id,
+      data: { vaccinationReminders: nextState },
+    });
+
+    return true;
+  }
+
+  private computeSchedule(dog: any, doses: any[], now: Date = new Date()): VaccinationScheduleItem[] {
+    return VaccinationUtils.computeSchedule(
+      dog.birthDate,
+      doses.map(dose => ({
+        vaccineCode: dose.details?.vaccineCode,
+        title: dose.title,
+        administeredAt: dose.recordedAt,
+        nextDueDate: dose.details?.nextDueDate,
+      })),
+      { now, includeNonCore: this.includeNonCore }
+    );
+  }
+
+  // Vaccination entries of the medical record, oldest first
+  private async getDoses(dogIds: string[]): Promise<any[]> {
+    if (dogIds.length === 0) return [];
+
+    const result = await payload.find({
+      collection: 'medical-record-entries',
+      where: {
+        dog: { in: dogIds },
+        type: { equals: 'vaccination' },
+      },
+      sort: 'recordedAt',
+      limit: 5000,
+      depth: 1,
+    });
+
+    return result.docs;
+  }
+
+  // Platform Ed25519 key, base64 PKCS#8 DER in CERTIFICATE_SIGNING_KEY
+  private getSigningKey(): { privateKey: string; publicKey: string; fingerprint: string } {
+    const privateKey = process.env.CERTIFICATE_SIGNING_KEY;
+    if (!privateKey) {
+      throw ErrorUtils.createAppError('Certificate signing is not configured', 500, 'SIGNING_NOT_CONFIGURED');
+    }
+
+    const publicKey = createPublicKey(createPrivateKey({ key: Buffer.from(privateKey, 'base64'), format: 'der', type: 'pkcs8' }))
+      .export({ type: 'spki', format: 'der' })
+      .toString('base64');
+
+    return { privateKey, publicKey, fingerprint: CryptoUtils.getKeyFingerprint(publicKey) };
+  }
+}
@@ -419,9 +419,34 @@ export class VideoCallService {
       },
     });
 
+    await this.checkInOwner(callSession.booking, participant.user_id || participant.id);
+
     payload.logger.info(`Participant joined room ${room.name}: ${participant.user_id}`);
   }
 
+  // The owner joining the call counts as arriving for the visit, so it is not marked a no-show
+  private async checkInOwner(bookingRef: any, participantUserId: string): Promise<void> {
+    const bookingId = bookingRef && typeof bookingRef === 'object' ? bookingRef.id : bookingRef;
+    if (!bookingId) return;
+
+    const booking = await payload.findByID({
+      collection: 'bookings',
+      id: bookingId,
+      depth: 0,
+    });
+
+    if (!booking || booking.checkedInAt || booking.user !== participantUserId) return;
+    if (!['confirmed', 'in_progress'].includes(booking.status)) return;
+
+    await payload.update({
+      collection: 'bookings',
+      id: booking.id,
+      data: { checkedInAt: new Date().toISOString() },
+    });
+
+    payload.logger.info(`Booking ${booking.id} checked in: owner joined the video call`);
+  }
+
   private async handleParticipantLeft(eventPayload: any): Promise<void> {
     const { room, participant } = eventPayload;
 
@@ -0,0 +1,302 @@
+import payload from 'payload';
+import { ErrorUtils, SchedulingUtils } from '@doggo/utils';
+import type { NotificationService } from './NotificationService';
+import type { SlotHoldService } from './SlotHoldService';
+
+interface WaitlistServiceDependencies {
+  notification: NotificationService;
+  slotHold: SlotHoldService;
+}
+
+// Relationship fields come back either as IDs or populated documents
+const getId = (value: any): string => (value && typeof value === 'object' ? value.id : value);
+
+export class WaitlistService {
+  private notification: NotificationService;
+  private slotHold: SlotHoldService;
+  private offerTtlSeconds: number;
+
+  constructor(services: WaitlistServiceDependencies) {
+    this.notification = services.notification;
+    this.slotHold = services.slotHold;
+    this.offerTtlSeconds = parseInt(process.env.WAITLIST_OFFER_TTL_SECONDS || '900'); // 15 minutes
+  }
+
+  async getEntry(entryId: string): Promise<any> {
+    const entry = await payload.findByID({
+      collection: 'waitlist-entries',
+      id: entryId,
+    });
+
+    if (!entry) {
+      throw ErrorUtils.createAppError('Waitlist entry not found', 404, 'WAITLIST_ENTRY_NOT_FOUND');
+    }
+
+    return entry;
+  }
+
+  async joinWaitlist(
+    user: any,
+    params: {
+      veterinarianId: string;
+      dogId: string;
+      dateFrom: Date;
+      dateTo: Date;
+      type?: string;
+      urgencyScore?: number;
+    }
+  ): Promise<any> {
+    const existing = await payload.find({
+      collection: 'waitlist-entries',
+      where: {
+        user: { equals: user.id },
+        dog: { equals: params.dogId },
+        veterinarian: { equals: params.veterinarianId },
+        status: { in: ['waiting', 'offered'] },
+      },
+      limit: 1,
+    });
+
+    if (existing.docs.length > 0) {
+      throw ErrorUtils.createAppError('Already on the waitlist for this veterinarian', 409, 'ALREADY_WAITLISTED', {
+        waitlistEntryId: existing.docs[0].id,
+      });
+    }
+
+    const entry = await payload.create({
+      collection: 'waitlist-entries',
+      data: {
+        user: user.id,
+        dog: params.dogId,
+        veterinarian: params.veterinarianId,
+        type: params.type,
+        dateFrom: params.dateFrom.toISOString(),
+        dateTo: params.dateTo.toISOString(),
+        urgencyScore: params.urgencyScore,
+        status: 'waiting',
+        declinedSlots: [],
+      },
+    });
+
+    payload.logger.info(`User ${user.id} joined waitlist of veterinarian ${params.veterinarianId}`);
+
+    return entry;
+  }
+
+  async leaveWaitlist(entryId: string, user: any): Promise<any> {
+    const entry = await this.getEntry(entryId);
+
+    if (getId(entry.user) !== user.id && user.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    if (!['waiting', 'offered'].includes(entry.status)) {
+      throw ErrorUtils.createAppError('Waitlist entry is no longer active', 400, 'INVALID_STATUS');
+    }
+
+    const offer = entry.status === 'offered' ? entry.offer : null;
+    if (offer?.holdId) {
+      await this.slotHold.releaseHold(offer.holdId);
+    }
+
+    const updatedEntry = await payload.update({
+      collection: 'waitlist-entries',
+      id: entry.id,
+      data: {
+        status: 'cancelled',
+        offer: null,
+      },
+    });
+
+    // Someone else may still want the slot this user was holding
+    if (offer?.scheduledAt) {
+      await this.offerFreedSlot(getId(entry.veterinarian), new Date(offer.scheduledAt), entry.type);
+    }
+
+    return updatedEntry;
+  }
+
+  /**
+   * Offer a slot that has just become free to the highest-priority waiting
+   * owner. The slot is held for them for a limited time; if they let it pass
+   * the offer moves on to the next person in line.
+   */
+  async offerFreedSlot(veterinarianId: string, scheduledAt: Date, bookingType?: string): Promise<any | null> {
+    if (scheduledAt <= new Date()) return null;
+
+    const dayStart = new Date(scheduledAt);
+    dayStart.setHours(0, 0, 0, 0);
+
+    const waiting = await payload.find({
+      collection: 'waitlist-entries',
+      where: {
+        veterinarian: { equals: veterinarianId },
+        status: { equals: 'waiting' },
+        dateFrom: { less_than_equal: scheduledAt.toISOString() },
+        dateTo: { greater_than_equal: dayStart.toISOString() },
+      },
+      sort: 'createdAt',
+      limit: 200,
+      depth: 0,
+    });
+
+    const candidates = SchedulingUtils.rankWaitlist(waiting.docs as any[], {
+      scheduledAt,
+      type: bookingType,
+    });
+
+    if (candidates.length === 0) return null;
+
+    const veterinarian = await payload.findByID({
+      collection: 'veterinarians',
+      id: veterinarianId,
+    });
+
+    if (!veterinarian?.isAcceptingPatients) return null;
+
+    const { db } = await import('@doggo/database');
+    const timeString = scheduledAt.toTimeString().substr(0, 5);
+
+    for (const entry of candidates) {
+      const type = entry.type || bookingType || 'general';
+      const duration = SchedulingUtils.getSlotDuration(type, veterinarian.slotSettings);
+
+      // A longer visit type may not fit in the gap that was freed
+      const availableSlots = await db.getVeterinarianAvailability(veterinarianId, scheduledAt, {
+        bookingType: type,
+        duration,
+      });
+      if (!availableSlots.includes(timeString)) continue;
+
+      const hold = await this.slotHold.acquireHold({
+        veterinarianId,
+        userId: getId(entry.user),
+        scheduledAt,
+        duration,
+        bufferMinutes: veterinarian.slotSettings?.bufferMinutes,
+        type,
+        waitlistEntryId: entry.id,
+        ttlSeconds: this.offerTtlSeconds,
+      });
+
+      // Someone is already booking this time directly
+      if (!hold) return null;
+
+      const updatedEntry = await payload.update({
+        collection: 'waitlist-entries',
+        id: entry.id,
+        data: {
+          status: 'offered',
+          offer: {
+            holdId: hold.id,
+            scheduledAt: hold.scheduledAt,
+            duration: hold.duration,
+            expiresAt: hold.expiresAt,
+          },
+        },
+      });
+
+      await this.notification.sendWaitlistOffer(getId(entry.user), updatedEntry, hold, veterinarian)
+        .catch(error => payload.logger.warn(`Failed to notify waitlist offer ${entry.id}:`, error));
+
+      payload.logger.info(`Offered slot ${hold.scheduledAt} of veterinarian ${veterinarianId} to waitlist entry ${entry.id}`);
+
+      return updatedEntry;
+    }
+
+    return null;
+  }
+
+  async declineOffer(entryId: string, user: any): Promise<any> {
+    const entry = await this.getEntry(entryId);
+
+    if (getId(entry.user) !== user.id && user.role !== 'admin') {
+      throw ErrorUtils.createAppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    if (entry.status !== 'offered') {
+      throw ErrorUtils.createAppError('No pending offer for this waitlist entry', 400, 'INVALID_STATUS');
+    }
+
+    return this.passOffer(entry);
+  }
+
+  async markBooked(entryId: string, bookingId: string): Promise<void> {
+    await payload.update({
+      collection: 'waitlist-entries',
+      id: entryId,
+      data: {
+        status: 'booked',
+        booking: bookingId,
+        offer: null,
+      },
+    });
+  }
+
+  /**
+   * Move lapsed offers on to the next person and close entries whose
+   * date range is over. Called by the scheduler every minute.
+   */
+  async processExpiredOffers(): Promise<number> {
+    const now = new Date().toISOString();
+
+    const lapsed = await payload.find({
+      collection: 'waitlist-entries',
+      where: {
+        status: { equals: 'offered' },
+        'offer.expiresAt': { less_than: now },
+      },
+      limit: 100,
+      depth: 0,
+    });
+
+    for (const entry of lapsed.docs) {
+      await this.passOffer(entry);
+    }
+
+    const outdated = await payload.find({
+      collection: 'waitlist-entries',
+      where: {
+        status: { equals: 'waiting' },
+        dateTo: { less_than: now },
+      },
+      limit: 100,
+      depth: 0,
+    });
+
+    for (const entry of outdated.docs) {
+      await payload.update({
+        collection: 'waitlist-entries',
+        id: entry.id,
+        data: { status: 'expired' },
+      });
+    }
+
+    return lapsed.docs.length;
+  }
+
+  // The entry goes back in line but will not be offered the same slot again
+  private async passOffer(entry: any): Promise<any> {
+    const offer = entry.offer;
+    if (offer?.holdId) {
+      await this.slotHold.releaseHold(offer.holdId);
+    }
+
+    const declinedSlots = Array.isArray(entry.declinedSlots) ? entry.declinedSlots : [];
+    const updatedEntry = await payload.update({
+      collection: 'waitlist-entries',
+      id: entry.id,
+      data: {
+        status: 'waiting',
+        offer: null,
+        declinedSlots: offer?.scheduledAt ? [...declinedSlots, offer.scheduledAt] : declinedSlots,
+      },
+    });
+
+    if (offer?.scheduledAt) {
+      await this.offerFreedSlot(getId(entry.veterinarian), new Date(offer.scheduledAt), entry.type);
+    }
+
+    return updatedEntry;
+  }
+}
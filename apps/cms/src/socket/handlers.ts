@@ -2,13 +2,18 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Redis } from 'ioredis';
 import { CryptoUtils } from '@doggo/utils';
 import payload from 'payload';
+import type { BookingService } from '../services/BookingService';
+
+interface SocketServices {
+  booking: BookingService;
+}
 
 interface AuthenticatedSocket extends Socket {
   user?: any;
   rooms?: Set<string>;
 }
 
-export function setupSocketHandlers(io: SocketIOServer, redis: Redis) {
+export function setupSocketHandlers(io: SocketIOServer, redis: Redis, services: SocketServices) {
   // Authentication middleware for socket connections
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
@@ -343,14 +348,22 @@ export function setupSocketHandlers(io: SocketIOServer, redis: Redis) {
           return;
         }
 
-        const booking = await payload.update({
-          collection: 'bookings',
-          id: data.bookingId,
-          data: {
-            status: data.status,
-            ...(data.notes && { consultationNotes: data.notes }),
-          },
-        });
+        // Cancellations and no-shows go through the booking service for refunds, audit and waitlist offers
+        if (data.status === 'cancelled' || data.status === 'no_show') {
+          await services.booking.cancelBooking(data.bookingId, socket.user, {
+            notes: data.notes,
+            isNoShow: data.status === 'no_show',
+          });
+        } else {
+          await payload.update({
+            collection: 'bookings',
+            id: data.bookingId,
+            data: {
+              status: data.status,
+              ...(data.notes && { consultationNotes: data.notes }),
+            },
+          });
+        }
 
         // Notify all participants in booking room
         io.to(`booking:${data.bookingId}`).emit('booking_updated', {
@@ -360,6 +373,10 @@ export function setupSocketHandlers(io: SocketIOServer, redis: Redis) {
           updatedAt: new Date(),
         });
       } catch (error) {
+        if (error.isOperational) {
+          socket.emit('error', { message: error.message, code: error.code });
+          return;
+        }
         payload.logger.error('Booking status change error:', error);
         socket.emit('error', { message: 'Failed to update booking status' });
       }
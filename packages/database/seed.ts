@@ -142,6 +142,90 @@ async function seedEmailTemplates() {
       variables: ['clinicName', 'date', 'time', 'dogName', 'bookingType'],
       category: 'transactional'
     },
+    {
+      name: 'booking_rescheduled',
+      subject: 'Visita spostata - {{clinicName}}',
+      htmlContent: `
+        <h1>Visita Spostata</h1>
+        <p>Ciao {{firstName}},</p>
+        <p>La visita per {{dogName}} del {{previousDate}} alle {{previousTime}} è stata spostata:</p>
+        <div style="background: #F3F4F6; padding: 16px; border-radius: 8px; margin: 16px 0;">
+          <p><strong>Veterinario:</strong> {{clinicName}}</p>
+          <p><strong>Nuova data:</strong> {{date}}</p>
+          <p><strong>Nuovo orario:</strong> {{time}}</p>
+          <p><strong>Tipo visita:</strong> {{bookingType}}</p>
+        </div>
+      `,
+      textContent: 'La visita per {{dogName}} presso {{clinicName}} è stata spostata al {{date}} alle {{time}}',
+      variables: ['firstName', 'dogName', 'clinicName', 'previousDate', 'previousTime', 'date', 'time', 'bookingType'],
+      category: 'transactional'
+    },
+    {
+      name: 'booking_cancelled',
+      subject: 'Visita cancellata - {{clinicName}}',
+      htmlContent: `
+        <h1>Visita Cancellata</h1>
+        <p>Ciao {{firstName}},</p>
+        <p>La visita per {{dogName}} è stata cancellata:</p>
+        <div style="background: #F3F4F6; padding: 16px; border-radius: 8px; margin: 16px 0;">
+          <p><strong>Veterinario:</strong> {{clinicName}}</p>
+          <p><strong>Data:</strong> {{date}}</p>
+          <p><strong>Orario:</strong> {{time}}</p>
+          <p><strong>Tipo visita:</strong> {{bookingType}}</p>
+          <p><strong>Rimborso:</strong> {{refundAmount}}</p>
+        </div>
+      `,
+      textContent: 'La visita per {{dogName}} presso {{clinicName}} del {{date}} alle {{time}} è stata cancellata. Rimborso: {{refundAmount}}',
+      variables: ['firstName', 'dogName', 'clinicName', 'date', 'time', 'bookingType', 'refundAmount'],
+      category: 'transactional'
+    },
+    {
+      name: 'reschedule_proposal',
+      subject: 'Nuovi orari proposti da {{clinicName}}',
+      htmlContent: `
+        <h1>Proposta Nuovo Orario</h1>
+        <p>Ciao {{firstName}},</p>
+        <p>{{clinicName}} propone di spostare la visita di {{dogName}} in uno dei seguenti orari:</p>
+        <p><strong>{{slots}}</strong></p>
+        <a href="{{bookingUrl}}" style="background: #3B82F6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Scegli un orario</a>
+      `,
+      textContent: '{{clinicName}} propone nuovi orari per la visita di {{dogName}}: {{slots}}. Rispondi qui: {{bookingUrl}}',
+      variables: ['firstName', 'dogName', 'clinicName', 'slots', 'bookingUrl'],
+      category: 'transactional'
+    },
+    {
+      name: 'follow_up_proposal',
+      subject: 'Controllo di follow-up per {{dogName}} - {{clinicName}}',
+      htmlContent: `
+        <h1>Controllo di Follow-up</h1>
+        <p>Ciao {{firstName}},</p>
+        <p>{{clinicName}} ha richiesto un controllo per {{dogName}}. Abbiamo riservato per te il primo orario disponibile:</p>
+        <div style="background: #F3F4F6; padding: 16px; border-radius: 8px; margin: 16px 0;">
+          <p><strong>Data:</strong> {{date}}</p>
+          <p><strong>Orario:</strong> {{time}}</p>
+          <p><strong>Note del veterinario:</strong> {{followUpNotes}}</p>
+        </div>
+        <p>Conferma entro il {{confirmBy}}, altrimenti l'orario verrà liberato.</p>
+        <a href="{{bookingUrl}}" style="background: #3B82F6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Conferma il controllo</a>
+      `,
+      textContent: '{{clinicName}} ha riservato un controllo per {{dogName}} il {{date}} alle {{time}}. Conferma entro il {{confirmBy}}: {{bookingUrl}}',
+      variables: ['firstName', 'dogName', 'clinicName', 'date', 'time', 'followUpNotes', 'confirmBy', 'bookingUrl'],
+      category: 'transactional'
+    },
+    {
+      name: 'follow_up_invitation',
+      subject: 'È ora del controllo di {{dogName}}',
+      htmlContent: `
+        <h1>Controllo di Follow-up</h1>
+        <p>Ciao {{firstName}},</p>
+        <p>{{clinicName}} ha richiesto un controllo per {{dogName}} intorno al {{followUpDate}}.</p>
+        <p><strong>Note del veterinario:</strong> {{followUpNotes}}</p>
+        <a href="{{bookingUrl}}" style="background: #3B82F6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Prenota il controllo</a>
+      `,
+      textContent: '{{clinicName}} ha richiesto un controllo per {{dogName}} intorno al {{followUpDate}}. Prenota qui: {{bookingUrl}}',
+      variables: ['firstName', 'dogName', 'clinicName', 'followUpDate', 'followUpNotes', 'bookingUrl'],
+      category: 'transactional'
+    },
     {
       name: 'emergency_alert',
       subject: '🚨 Allerta Emergenza nelle vicinanze',
@@ -180,6 +264,11 @@ async function seedSmsTemplates() {
       content: 'Ricorda: visita per {{dogName}} domani alle {{time}} presso {{clinicName}}. Info: {{phone}}',
       variables: ['dogName', 'time', 'clinicName', 'phone']
     },
+    {
+      name: 'booking_rescheduled',
+      content: 'La visita per {{dogName}} presso {{clinicName}} è stata spostata al {{date}} alle {{time}}',
+      variables: ['dogName', 'clinicName', 'date', 'time']
+    },
     {
       name: 'emergency_alert',
       content: '🚨 {{emergencyType}} segnalato a {{distance}}km. Dettagli: {{url}}',
@@ -330,6 +419,7 @@ async function seedVeterinarians() {
         consultationFee: Math.floor(Math.random() * 30) + 40, // 40-70 EUR
         emergencyFee: Math.floor(Math.random() * 50) + 80, // 80-130 EUR
         telemedicineFee: Math.floor(Math.random() * 20) + 25, // 25-45 EUR
+        surgeryFee: Math.floor(Math.random() * 150) + 150, // 150-300 EUR
         isVerified: true,
         rating: Number((Math.random() * 2 + 3).toFixed(1)), // 3.0-5.0
         totalReviews: Math.floor(Math.random() * 100) + 5,
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
-import type { User, Dog, Veterinarian, Booking } from '@doggo/types';
+import { GeoUtils, SchedulingUtils } from '@doggo/utils';
+import type { User, Dog, Veterinarian, Booking, VeterinarianSlotSettings } from '@doggo/types';
 
 // Extend PrismaClient with custom methods
 class ExtendedPrismaClient extends PrismaClient {
@@ -71,9 +72,9 @@ class ExtendedPrismaClient extends PrismaClient {
   }
 
   // Veterinarian utilities
-  async findNearbyVeterinarians(latitude: number, longitude: number, radiusKm: number = 50): Promise<Veterinarian[]> {
+  async findNearbyVeterinarians(latitude: number, longitude: number, radiusKm: number = 50) {
     // Note: This is a simplified version. In production, use PostGIS functions
-    return this.veterinarian.findMany({
+    const veterinarians = await this.veterinarian.findMany({
       where: {
         isVerified: true,
         isAcceptingPatients: true
@@ -85,25 +86,120 @@ class ExtendedPrismaClient extends PrismaClient {
             lastName: true,
             phone: true
           }
+        },
+        clinic: {
+          select: {
+            id: true,
+            name: true,
+            workingHours: true
+          }
         }
       },
       orderBy: { rating: 'desc' }
-    }) as Promise<Veterinarian[]>;
+    });
+
+    return veterinarians
+      .map(veterinarian => {
+        const coordinates = (veterinarian.clinicAddress as any)?.coordinates;
+        if (!coordinates) return null;
+        const distance = GeoUtils.calculateDistance({ latitude, longitude }, coordinates);
+        return distance <= radiusKm ? { ...veterinarian, distance } : null;
+      })
+      .filter((veterinarian): veterinarian is NonNullable<typeof veterinarian> => veterinarian !== null)
+      .sort((a, b) => a.distance - b.distance);
   }
 
-  async getVeterinarianAvailability(veterinarianId: string, date: Date): Promise<string[]> {
+  /**
+   * Nearby vets an owner can rush to right now: they charge an emergency fee
+   * and they (and their clinic) are open at this moment. Nearest first.
+   */
+  async findOpenEmergencyVeterinarians(latitude: number, longitude: number, radiusKm: number = 30, at: Date = new Date()) {
+    const veterinarians = await this.findNearbyVeterinarians(latitude, longitude, radiusKm);
+    const holiday = SchedulingUtils.getPublicHoliday(at);
+
+    const open = veterinarians.filter(veterinarian =>
+      veterinarian.emergencyFee > 0 &&
+      !(veterinarian.observesPublicHolidays && holiday) &&
+      SchedulingUtils.isOpenAt(veterinarian.workingHours as any[], at, veterinarian.clinic?.workingHours as any[] | null)
+    );
+
+    // Leave out vets who are away right now
+    const away = await this.veterinarianTimeOff.findMany({
+      where: {
+        veterinarianId: { in: open.map(veterinarian => veterinarian.id) },
+        startDate: { lte: at },
+        endDate: { gte: at }
+      },
+      select: { veterinarianId: true }
+    });
+    const awayIds = new Set(away.map(timeOff => timeOff.veterinarianId));
+
+    return open.filter(veterinarian => !awayIds.has(veterinarian.id));
+  }
+
+  // Clinics within the radius with their bookable vets, nearest first
+  async findNearbyClinics(latitude: number, longitude: number, radiusKm: number = 50) {
+    const clinics = await this.clinic.findMany({
+      where: {
+        isActive: true,
+        veterinarians: {
+          some: { isVerified: true, isAcceptingPatients: true }
+        }
+      },
+      include: {
+        veterinarians: {
+          where: { isVerified: true, isAcceptingPatients: true },
+          include: {
+            user: {
+              select: {
+                firstName: true,
+                lastName: true
+              }
+            }
+          },
+          orderBy: { rating: 'desc' }
+        }
+      }
+    });
+
+    return clinics
+      .map(clinic => {
+        const coordinates = (clinic.address as any)?.coordinates;
+        if (!coordinates) return null;
+        const distance = GeoUtils.calculateDistance({ latitude, longitude }, coordinates);
+        return distance <= radiusKm ? { ...clinic, distance } : null;
+      })
+      .filter((clinic): clinic is NonNullable<typeof clinic> => clinic !== null)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  async getVeterinarianAvailability(
+    veterinarianId: string,
+    date: Date,
+    options: { bookingType?: string; service?: string; duration?: number; excludeBookingId?: string } = {}
+  ): Promise<string[]> {
     const dayOfWeek = date.getDay();
     
     const veterinarian = await this.veterinarian.findUnique({
       where: { id: veterinarianId },
-      select: { workingHours: true }
+      select: {
+        workingHours: true,
+        slotSettings: true,
+        observesPublicHolidays: true,
+        clinic: { select: { id: true, workingHours: true, resourceRequirements: true } }
+      }
     });
 
     if (!veterinarian) return [];
 
+    if (veterinarian.observesPublicHolidays && SchedulingUtils.getPublicHoliday(date)) return [];
+
     const workingHours = veterinarian.workingHours as any[];
-    const daySchedule = workingHours.find(wh => wh.dayOfWeek === dayOfWeek && wh.isAvailable);
-    
+    const vetDay = workingHours.find(wh => wh.dayOfWeek === dayOfWeek && wh.isAvailable);
+
+    // Vets working at a clinic can only see patients while it is open
+    const daySchedule = vetDay && SchedulingUtils.intersectWorkingHours(vetDay, veterinarian.clinic?.workingHours as any[] | null);
+
     if (!daySchedule) return [];
 
     // Get existing bookings for the date
@@ -112,6 +208,10 @@ class ExtendedPrismaClient extends PrismaClient {
     const endOfDay = new Date(date);
     endOfDay.setHours(23, 59, 59, 999);
 
+    // Vacations, conferences and closures block part or all of the day
+    const timeOff = await this.getVeterinarianTimeOff(veterinarianId, startOfDay, endOfDay);
+    const blocked = SchedulingUtils.getBlockedPeriods(date, timeOff);
+
     const bookings = await this.booking.findMany({
       where: {
         veterinarianId,
@@ -119,44 +219,132 @@ class ExtendedPrismaClient extends PrismaClient {
           gte: startOfDay,
           lte: endOfDay
         },
-        status: { not: 'CANCELLED' }
+        status: { not: 'CANCELLED' },
+        // Ignore the booking being rescheduled so it can move into its own time
+        ...(options.excludeBookingId && { id: { not: options.excludeBookingId } })
       },
       select: { scheduledAt: true, duration: true }
     });
 
-    // Generate available slots
-    const availableSlots: string[] = [];
-    const startTime = daySchedule.startTime;
-    const endTime = daySchedule.endTime;
-    
-    const [startHour, startMinute] = startTime.split(':').map(Number);
-    const [endHour, endMinute] = endTime.split(':').map(Number);
-    
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
-    
-    // 30-minute slots
-    for (let minutes = startMinutes; minutes < endMinutes; minutes += 30) {
-      const hour = Math.floor(minutes / 60);
-      const minute = minutes % 60;
-      const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      
-      // Check if slot is available (not booked)
-      const slotDateTime = new Date(date);
-      slotDateTime.setHours(hour, minute, 0, 0);
-      
-      const isBooked = bookings.some(booking => {
-        const bookingStart = new Date(booking.scheduledAt);
-        const bookingEnd = new Date(bookingStart.getTime() + booking.duration * 60000);
-        return slotDateTime >= bookingStart && slotDateTime < bookingEnd;
-      });
-      
-      if (!isBooked) {
-        availableSlots.push(timeString);
-      }
-    }
+    // Slots must fit the full duration of the requested booking type
+    const slotSettings = veterinarian.slotSettings as VeterinarianSlotSettings | null;
+    const duration = options.duration || SchedulingUtils.getSlotDuration(options.bookingType, slotSettings);
+
+    const slots = SchedulingUtils.generateSlots(daySchedule, bookings, duration, slotSettings, blocked);
+
+    // Surgeries and exams also need a free room or machine at the clinic
+    const requiredTypes = SchedulingUtils.getRequiredResourceTypes(
+      veterinarian.clinic?.resourceRequirements as any[] | null,
+      [options.bookingType, options.service]
+    );
+    if (!veterinarian.clinic || requiredTypes.length === 0) return slots;
+
+    const { resources, reservations } = await this.getClinicResourceUsage(
+      veterinarian.clinic.id, requiredTypes, startOfDay, endOfDay, options.excludeBookingId
+    );
+
+    return SchedulingUtils.filterSlotsByResources(date, slots, duration, requiredTypes, resources, reservations);
+  }
+
+  /**
+   * Pick the rooms and equipment a booking needs. Returns the resource IDs
+   * (empty when the visit needs none) or null when they are not all free.
+   * `excludeResourceIds` skips resources another booking is holding right now.
+   */
+  async allocateBookingResources(
+    veterinarianId: string,
+    scheduledAt: Date,
+    duration: number,
+    options: { bookingType?: string; service?: string; excludeBookingId?: string; excludeResourceIds?: string[] } = {}
+  ): Promise<string[] | null> {
+    const veterinarian = await this.veterinarian.findUnique({
+      where: { id: veterinarianId },
+      select: { clinic: { select: { id: true, resourceRequirements: true } } }
+    });
+
+    const requiredTypes = SchedulingUtils.getRequiredResourceTypes(
+      veterinarian?.clinic?.resourceRequirements as any[] | null,
+      [options.bookingType, options.service]
+    );
+    if (!veterinarian?.clinic || requiredTypes.length === 0) return [];
+
+    const startOfDay = new Date(scheduledAt);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(scheduledAt);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const { resources, reservations } = await this.getClinicResourceUsage(
+      veterinarian.clinic.id, requiredTypes, startOfDay, endOfDay, options.excludeBookingId
+    );
+
+    const available = resources.filter(resource => !options.excludeResourceIds?.includes(resource.id));
 
-    return availableSlots;
+    return SchedulingUtils.allocateResources(scheduledAt, duration, requiredTypes, available, reservations);
+  }
+
+  // Active resources of the given types and the bookings already using them that day
+  private async getClinicResourceUsage(
+    clinicId: string,
+    resourceTypes: string[],
+    from: Date,
+    to: Date,
+    excludeBookingId?: string
+  ) {
+    const resources = await this.clinicResource.findMany({
+      where: {
+        clinicId,
+        isActive: true,
+        type: { in: resourceTypes.map(type => type.toUpperCase() as any) }
+      },
+      select: { id: true, type: true }
+    });
+
+    const bookings = await this.booking.findMany({
+      where: {
+        status: { not: 'CANCELLED' },
+        scheduledAt: { gte: from, lte: to },
+        resources: { some: { id: { in: resources.map(resource => resource.id) } } },
+        ...(excludeBookingId && { id: { not: excludeBookingId } })
+      },
+      select: { scheduledAt: true, duration: true, resources: { select: { id: true } } }
+    });
+
+    return {
+      resources,
+      reservations: bookings.map(booking => ({
+        scheduledAt: booking.scheduledAt,
+        duration: booking.duration,
+        resourceIds: booking.resources.map(resource => resource.id)
+      }))
+    };
+  }
+
+  async getVeterinarianTimeOff(veterinarianId: string, from: Date, to: Date) {
+    return this.veterinarianTimeOff.findMany({
+      where: {
+        veterinarianId,
+        startDate: { lte: to },
+        endDate: { gte: from }
+      },
+      orderBy: { startDate: 'asc' }
+    });
+  }
+
+  async getBookingsRequiringReschedule(veterinarianId: string): Promise<Booking[]> {
+    return this.booking.findMany({
+      where: {
+        veterinarianId,
+        requiresReschedule: true,
+        status: { in: ['PENDING', 'CONFIRMED'] }
+      },
+      include: {
+        dog: true,
+        user: {
+          select: { firstName: true, lastName: true, email: true, phone: true }
+        }
+      },
+      orderBy: { scheduledAt: 'asc' }
+    }) as Promise<Booking[]>;
   }
 
   // Booking utilities
@@ -187,12 +375,21 @@ class ExtendedPrismaClient extends PrismaClient {
     }) as Promise<Booking>;
   }
 
-  async getUpcomingBookings(userId: string): Promise<Booking[]> {
+  /**
+   * `includeCancelled` keeps cancelled visits so calendar feeds can mark them
+   * as cancelled; `asVeterinarian` adds the visits the user treats as a vet.
+   */
+  async getUpcomingBookings(
+    userId: string,
+    options: { includeCancelled?: boolean; asVeterinarian?: boolean } = {}
+  ): Promise<Booking[]> {
     return this.booking.findMany({
       where: {
-        userId,
+        ...(options.asVeterinarian
+          ? { OR: [{ userId }, { veterinarian: { userId } }] }
+          : { userId }),
         scheduledAt: { gte: new Date() },
-        status: { in: ['PENDING', 'CONFIRMED'] }
+        status: { in: options.includeCancelled ? ['PENDING', 'CONFIRMED', 'CANCELLED'] : ['PENDING', 'CONFIRMED'] }
       },
       include: {
         dog: true,
@@ -204,6 +401,39 @@ class ExtendedPrismaClient extends PrismaClient {
     }) as Promise<Booking[]>;
   }
 
+  async getUpcomingFollowUps(userId: string) {
+    return this.booking.findMany({
+      where: {
+        userId,
+        followUpRequired: true,
+        followUpDate: { gte: new Date() }
+      },
+      include: {
+        dog: true,
+        veterinarian: true
+      },
+      orderBy: { followUpDate: 'asc' }
+    });
+  }
+
+  async getUpcomingEventParticipations(userId: string) {
+    return this.eventParticipation.findMany({
+      where: {
+        userId,
+        event: { endDate: { gte: new Date() } }
+      },
+      include: { event: true },
+      orderBy: { event: { startDate: 'asc' } }
+    });
+  }
+
+  async findUserByCalendarFeedToken(token: string) {
+    return this.user.findUnique({
+      where: { calendarFeedToken: token },
+      select: { id: true, firstName: true, role: true, isActive: true }
+    });
+  }
+
   // Emergency utilities
   async findNearbyEmergencies(latitude: number, longitude: number, radiusKm: number = 25) {
     // In production, use PostGIS ST_DWithin
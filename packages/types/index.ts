@@ -24,6 +24,47 @@ export enum BookingType {
   URGENT = 'urgent',
   SPECIALIST = 'specialist',
   TELEMEDICINE = 'telemedicine',
+  SURGERY = 'surgery',
+}
+
+export enum ResourceType {
+  CONSULTATION_ROOM = 'consultation_room',
+  OPERATING_ROOM = 'operating_room',
+  XRAY = 'xray',
+  ULTRASOUND = 'ultrasound',
+  LABORATORY = 'laboratory',
+  RECOVERY_ROOM = 'recovery_room',
+  OTHER = 'other',
+}
+
+export enum PaymentOption {
+  FULL = 'full',
+  DEPOSIT = 'deposit',
+  AT_VISIT = 'at_visit',
+}
+
+export enum FollowUpStatus {
+  PROPOSED = 'proposed',
+  INVITED = 'invited',
+  SCHEDULED = 'scheduled',
+  COMPLETED = 'completed',
+  DECLINED = 'declined',
+}
+
+export enum TimeOffType {
+  VACATION = 'vacation',
+  CONFERENCE = 'conference',
+  SICK_LEAVE = 'sick_leave',
+  CLOSURE = 'closure',
+  OTHER = 'other',
+}
+
+export enum WaitlistStatus {
+  WAITING = 'waiting',
+  OFFERED = 'offered',
+  BOOKED = 'booked',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
 }
 
 export enum EmergencyType {
@@ -43,6 +84,29 @@ export enum DocumentType {
   INSURANCE = 'insurance',
 }
 
+export enum MedicalRecordEntryType {
+  PROBLEM = 'problem',
+  ALLERGY = 'allergy',
+  MEDICATION = 'medication',
+  VACCINATION = 'vaccination',
+  SURGERY = 'surgery',
+  WEIGHT = 'weight',
+  LAB_RESULT = 'lab_result',
+  VISIT = 'visit',
+  NOTE = 'note',
+}
+
+export enum MedicalRecordEntryStatus {
+  ACTIVE = 'active',
+  RESOLVED = 'resolved',
+}
+
+export enum MedicalRecordGrantScope {
+  READ_MEDICAL = 'read_medical', // Medical record and prescriptions
+  READ_DOCUMENTS = 'read_documents',
+  WRITE_NOTES = 'write_notes',
+}
+
 export enum DogSize {
   TINY = 'tiny',      // <5kg
   SMALL = 'small',    // 5-15kg
@@ -98,6 +162,14 @@ export const userSchema = z.object({
     country: z.string().default('IT'),
     coordinates: coordinatesSchema.optional(),
   }).optional(),
+  reliability: z.object({
+    completed: z.number().int().min(0).default(0),
+    noShows: z.number().int().min(0).default(0),
+    recentNoShows: z.number().int().min(0).default(0), // Within the reliability window, used by no-show policies
+    lastNoShowAt: z.date().optional(),
+    score: z.number().min(0).max(100),
+    updatedAt: z.date(),
+  }).optional(),
   preferences: z.object({
     language: z.enum(['it', 'en']).default('it'),
     notifications: z.object({
@@ -127,6 +199,7 @@ export const dogSchema = z.object({
   weight: z.number().positive('Peso deve essere positivo'),
   color: z.string(),
   microchipNumber: z.string().optional(),
+  bloodType: z.enum(['dea_1_positive', 'dea_1_negative']).optional(),
   isNeutered: z.boolean().default(false),
   activityLevel: z.nativeEnum(ActivityLevel),
   temperament: z.array(z.string()),
@@ -139,29 +212,101 @@ export const dogSchema = z.object({
 });
 
 // Veterinarian schemas
+export const cancellationPolicySchema = z.object({
+  // Refund applied when the owner cancels at least `hoursBefore` hours ahead (highest matching tier wins)
+  tiers: z.array(z.object({
+    hoursBefore: z.number().min(0),
+    refundPercentage: z.number().min(0).max(100),
+  })).min(1),
+  noShowRefundPercentage: z.number().min(0).max(100).default(0),
+  veterinarianCancellationRefundPercentage: z.number().min(0).max(100).default(100),
+});
+
+export const noShowPolicySchema = z.object({
+  allowPayAtVisit: z.boolean().default(false),
+  // Owners with at least this many recent no-shows lose the pay-at-visit option
+  threshold: z.number().int().min(1).default(2),
+  requirement: z.enum(['deposit', 'prepayment']).default('deposit'),
+  depositPercentage: z.number().min(1).max(100).default(30),
+});
+
+export const workingHoursSchema = z.array(z.object({
+  dayOfWeek: z.number().min(0).max(6), // 0 = Sunday
+  startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
+  isAvailable: z.boolean().default(true),
+}));
+
+const clinicAddressSchema = z.object({
+  street: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zipCode: z.string(),
+  country: z.string().default('IT'),
+  coordinates: coordinatesSchema,
+});
+
+// Clinic schemas
+export const clinicSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1, 'Nome clinica richiesto'),
+  description: z.string().optional(),
+  address: clinicAddressSchema,
+  contactInfo: z.object({
+    phone: phoneSchema.optional(),
+    email: emailSchema.optional(),
+    website: z.string().url().optional(),
+  }).optional(),
+  workingHours: workingHoursSchema.optional(), // Opening hours; vets are only bookable while the clinic is open
+  // Resources each booking type or service needs, e.g. surgery -> operating_room
+  resourceRequirements: z.array(z.object({
+    service: z.string(),
+    resourceTypes: z.array(z.nativeEnum(ResourceType)).min(1),
+  })).default([]),
+  adminIds: z.array(z.string().uuid()),
+  isVerified: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const clinicResourceSchema = z.object({
+  id: z.string().uuid(),
+  clinicId: z.string().uuid(),
+  name: z.string().min(1),
+  type: z.nativeEnum(ResourceType),
+  isActive: z.boolean().default(true),
+  notes: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 export const veterinarianSchema = z.object({
   id: z.string().uuid(),
   userId: z.string().uuid(),
+  clinicId: z.string().uuid().optional(),
   licenseNumber: z.string(),
   specializations: z.array(z.string()),
   clinicName: z.string(),
-  clinicAddress: z.object({
-    street: z.string(),
-    city: z.string(),
-    state: z.string(),
-    zipCode: z.string(),
-    country: z.string().default('IT'),
-    coordinates: coordinatesSchema,
-  }),
-  workingHours: z.array(z.object({
-    dayOfWeek: z.number().min(0).max(6), // 0 = Sunday
-    startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
-    endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
-    isAvailable: z.boolean().default(true),
-  })),
+  clinicAddress: clinicAddressSchema,
+  workingHours: workingHoursSchema,
+  slotSettings: z.object({
+    durations: z.record(z.nativeEnum(BookingType), z.number().min(5).max(480)).optional(),
+    slotInterval: z.number().min(5).max(120).default(30),
+    bufferMinutes: z.number().min(0).max(120).default(0),
+    lunchBreak: z.object({
+      startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
+      endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
+    }).optional(),
+    maxBookingsPerDay: z.number().min(1).optional(),
+  }).optional(),
+  observesPublicHolidays: z.boolean().default(true),
+  cancellationPolicy: cancellationPolicySchema.optional(),
+  noShowPolicy: noShowPolicySchema.optional(),
   consultationFee: z.number().positive(),
   emergencyFee: z.number().positive(),
   telemedicineFee: z.number().positive(),
+  surgeryFee: z.number().positive().optional(),
   isVerified: z.boolean().default(false),
   rating: z.number().min(0).max(5).default(0),
   totalReviews: z.number().default(0),
@@ -170,29 +315,124 @@ export const veterinarianSchema = z.object({
   updatedAt: z.date(),
 });
 
+export const veterinarianTimeOffSchema = z.object({
+  id: z.string().uuid(),
+  veterinarianId: z.string().uuid(),
+  type: z.nativeEnum(TimeOffType),
+  startDate: z.date(),
+  endDate: z.date(),
+  reason: z.string().max(500).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+}).refine(data => data.endDate > data.startDate, {
+  message: 'La data di fine deve essere successiva alla data di inizio',
+  path: ['endDate'],
+});
+
 // Booking schemas
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['weekly', 'biweekly', 'monthly']),
+  count: z.number().int().min(2).max(52).optional(),
+  until: z.date().optional(),
+  preferredTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+}).refine(data => !!data.count !== !!data.until, {
+  message: 'Specificare il numero di visite oppure la data di fine',
+});
+
 export const bookingSchema = z.object({
   id: z.string().uuid(),
   userId: z.string().uuid(),
   dogId: z.string().uuid(),
   veterinarianId: z.string().uuid(),
+  clinicId: z.string().uuid().optional(),
   type: z.nativeEnum(BookingType),
+  service: z.string().optional(),
+  resourceIds: z.array(z.string().uuid()).default([]), // Rooms and equipment reserved for the visit
   status: z.nativeEnum(BookingStatus),
   scheduledAt: z.date(),
   duration: z.number().positive().default(30), // minutes
   symptoms: z.string().optional(),
   urgencyScore: z.number().min(1).max(10).optional(),
   triageNotes: z.string().optional(),
+  triageVersion: z.number().int().positive().optional(), // Triage questionnaire version urgencyScore was computed with
+  urgencyOverrides: z.array(z.object({
+    from: z.number().min(1).max(10).nullable(),
+    to: z.number().min(1).max(10),
+    reason: z.string(),
+    overriddenBy: z.string().uuid(),
+    overriddenAt: z.date(),
+  })).optional(), // Vet corrections of the triage urgency, oldest first
+  triagePath: z.array(z.object({
+    questionId: z.string(),
+    question: z.string().optional(),
+    answer: z.union([z.string(), z.number(), z.boolean()]),
+  })).optional(), // Triage answers in the order they were given
   consultationNotes: z.string().optional(),
+  weight: z.number().positive().optional(), // kg, measured at the visit; added to the dog's weight history
   prescription: z.string().optional(),
   followUpRequired: z.boolean().default(false),
   followUpDate: z.date().optional(),
+  followUpNotes: z.string().optional(),
+  followUpStatus: z.nativeEnum(FollowUpStatus).optional(),
+  followUpOfId: z.string().uuid().optional(),
+  followUpLastReminderAt: z.date().optional(),
   totalCost: z.number().positive(),
-  paymentStatus: z.enum(['pending', 'paid', 'refunded']).default('pending'),
+  paymentStatus: z.enum(['pending', 'paid', 'refunded', 'partially_refunded', 'deposit_paid', 'failed']).default('pending'),
   paymentIntentId: z.string().optional(),
+  paymentOption: z.nativeEnum(PaymentOption).default(PaymentOption.FULL),
+  depositAmount: z.number().min(0).optional(),
+  refundAmount: z.number().min(0).optional(),
+  refundId: z.string().optional(),
+  holdExpiresAt: z.date().optional(),
+  checkedInAt: z.date().optional(),
   cancelledReason: z.string().optional(),
+  requiresReschedule: z.boolean().default(false), // set when the vet adds conflicting time-off
+  rescheduleReason: z.string().optional(),
+  rescheduleHistory: z.array(z.object({
+    previousScheduledAt: z.date(),
+    newScheduledAt: z.date(),
+    rescheduledBy: z.string().uuid(),
+    reason: z.string().optional(),
+    rescheduledAt: z.date(),
+  })).default([]),
+  rescheduleProposal: z.object({
+    status: z.enum(['pending', 'accepted', 'rejected']),
+    proposedBy: z.string().uuid(),
+    message: z.string().optional(),
+    slots: z.array(z.object({ scheduledAt: z.date() })),
+    proposedAt: z.date(),
+    respondedAt: z.date().optional(),
+  }).optional(),
+  seriesId: z.string().uuid().optional(),
+  seriesIndex: z.number().int().min(0).optional(),
+  recurrence: recurrenceSchema.optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const waitlistEntrySchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  dogId: z.string().uuid(),
+  veterinarianId: z.string().uuid(),
+  type: z.nativeEnum(BookingType).optional(),
+  dateFrom: z.date(),
+  dateTo: z.date(),
+  urgencyScore: z.number().min(1).max(10).optional(),
+  status: z.nativeEnum(WaitlistStatus).default(WaitlistStatus.WAITING),
+  offer: z.object({
+    holdId: z.string().uuid(),
+    scheduledAt: z.date(),
+    duration: z.number().positive(),
+    expiresAt: z.date(),
+  }).optional(),
+  declinedSlots: z.array(z.date()).default([]),
+  bookingId: z.string().uuid().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
+}).refine(data => data.dateTo >= data.dateFrom, {
+  message: 'La data di fine deve essere successiva alla data di inizio',
+  path: ['dateTo'],
 });
 
 // Document schemas
@@ -216,6 +456,57 @@ export const documentSchema = z.object({
   updatedAt: z.date(),
 });
 
+// Medical record schemas
+export const labResultSchema = z.object({
+  test: z.string().min(1),
+  value: z.string(),
+  unit: z.string().optional(),
+  referenceRange: z.string().optional(),
+  isAbnormal: z.boolean().default(false),
+});
+
+export const medicalRecordEntrySchema = z.object({
+  id: z.string().uuid(),
+  dogId: z.string().uuid(),
+  type: z.nativeEnum(MedicalRecordEntryType),
+  title: z.string().min(1, 'Titolo richiesto'),
+  description: z.string().optional(),
+  recordedAt: z.date(),
+  status: z.nativeEnum(MedicalRecordEntryStatus).optional(), // Problems, allergies and medications
+  endDate: z.date().optional(),
+  details: z.object({
+    severity: z.enum(['mild', 'moderate', 'severe']).optional(),
+    reaction: z.string().optional(),
+    dosage: z.string().optional(),
+    frequency: z.string().optional(),
+    vaccineCode: z.string().optional(),
+    batchNumber: z.string().optional(),
+    nextDueDate: z.date().optional(),
+    weightKg: z.number().positive().optional(),
+    labResults: z.array(labResultSchema).optional(),
+  }).optional(),
+  bookingId: z.string().uuid().optional(),
+  prescriptionId: z.string().uuid().optional(),
+  documentId: z.string().uuid().optional(),
+  veterinarianId: z.string().uuid().optional(),
+  createdById: z.string().uuid().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const medicalRecordGrantSchema = z.object({
+  id: z.string().uuid(),
+  dogId: z.string().uuid(),
+  ownerId: z.string().uuid(),
+  granteeId: z.string().uuid(),
+  scopes: z.array(z.nativeEnum(MedicalRecordGrantScope)).min(1, 'Seleziona almeno un permesso'),
+  expiresAt: z.date(),
+  revokedAt: z.date().optional(),
+  note: z.string().max(500).optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 // Emergency schemas
 export const emergencySchema = z.object({
   id: z.string().uuid(),
@@ -246,6 +537,13 @@ export const emergencySchema = z.object({
   resolvedAt: z.date().optional(),
   resolvedBy: z.string().uuid().optional(),
   priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+  matchedDogId: z.string().uuid().optional(), // Registered dog found through the microchip
+  linkedEmergencyId: z.string().uuid().optional(), // Paired lost/found report
+  candidateMatches: z.array(z.object({
+    emergencyId: z.string().uuid(),
+    score: z.number().min(0).max(100),
+    notifiedAt: z.string(),
+  })).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -304,6 +602,18 @@ export const notificationSchema = z.object({
     'booking_confirmed',
     'booking_reminder',
     'booking_cancelled',
+    'booking_conflict',
+    'booking_rescheduled',
+    'reschedule_proposal',
+    'waitlist_offer',
+    'follow_up',
+    'prescription_issued',
+    'prescription_dispensed',
+    'vaccination_reminder',
+    'record_shared',
+    'emergency_access',
+    'dog_found',
+    'lost_found_candidate',
     'new_message',
     'new_match',
     'emergency_alert',
@@ -323,14 +633,26 @@ export const notificationSchema = z.object({
 // ===========================================
 export type User = z.infer<typeof userSchema>;
 export type Dog = z.infer<typeof dogSchema>;
+export type Clinic = z.infer<typeof clinicSchema>;
+export type ClinicResource = z.infer<typeof clinicResourceSchema>;
 export type Veterinarian = z.infer<typeof veterinarianSchema>;
+export type VeterinarianTimeOff = z.infer<typeof veterinarianTimeOffSchema>;
 export type Booking = z.infer<typeof bookingSchema>;
+export type WaitlistEntry = z.infer<typeof waitlistEntrySchema>;
 export type Document = z.infer<typeof documentSchema>;
+export type MedicalRecordEntry = z.infer<typeof medicalRecordEntrySchema>;
+export type MedicalRecordGrant = z.infer<typeof medicalRecordGrantSchema>;
+export type LabResult = z.infer<typeof labResultSchema>;
 export type Emergency = z.infer<typeof emergencySchema>;
 export type Match = z.infer<typeof matchSchema>;
 export type Chat = z.infer<typeof chatSchema>;
 export type Message = z.infer<typeof messageSchema>;
 export type Notification = z.infer<typeof notificationSchema>;
+export type VeterinarianSlotSettings = NonNullable<Veterinarian['slotSettings']>;
+export type CancellationPolicy = z.infer<typeof cancellationPolicySchema>;
+export type NoShowPolicy = z.infer<typeof noShowPolicySchema>;
+export type OwnerReliability = NonNullable<User['reliability']>;
+export type Recurrence = z.infer<typeof recurrenceSchema>;
 
 // API Response types
 export interface ApiResponse<T = any> {
@@ -409,6 +731,18 @@ export interface DogSearchFilters {
 }
 
 // Triage system types
+export interface TriageScoringRule {
+  inverted?: boolean; // boolean: "no" is the worrying answer (e.g. "is the dog conscious?")
+  optionWeights?: number[]; // multiple: share of the weight (0-1) for each option, in order
+  scale?: { min: number; max: number }; // scale: answers mapped linearly from 0 to the full weight
+}
+
+// Matches an answer that is one of `answers`, or a scale answer of at least `min`
+export interface TriageAnswerMatch {
+  answers?: Array<string | number | boolean>;
+  min?: number;
+}
+
 export interface TriageQuestion {
   id: string;
   question: string;
@@ -416,6 +750,14 @@ export interface TriageQuestion {
   options?: string[];
   weight: number;
   category: 'symptoms' | 'behavior' | 'history' | 'urgency';
+  scoring?: TriageScoringRule;
+  showIf?: TriageAnswerMatch & { questionId: string }; // Follow-up, only asked after a matching earlier answer
+  redFlag?: TriageAnswerMatch; // Answers that end the triage with "go to emergency now"
+}
+
+export interface TriageQuestionnaire {
+  version: number;
+  questions: TriageQuestion[];
 }
 
 export interface TriageResponse {
@@ -423,21 +765,180 @@ export interface TriageResponse {
   answer: string | number | boolean;
 }
 
+// Where and how soon the dog should be seen, e.g. "in-person visit within 48h"
+export interface TriageRecommendation {
+  channel: 'telemedicine' | 'in_person' | 'emergency';
+  bookingType: 'general' | 'urgent' | 'specialist' | 'telemedicine' | 'surgery';
+  withinHours: number; // 0 means now
+  label: string;
+}
+
+// What triage needs to know about the dog to weigh its answers
+export interface TriageDogProfile {
+  birthDate?: Date | string;
+  breed?: string;
+  size?: string;
+  medicalNotes?: string;
+}
+
+// Risk factor of a dog that makes some answers more urgent, e.g. vomiting in a young puppy
+export interface TriageRiskModifier {
+  id: string;
+  label: string;
+  multipliers: Record<string, number>; // question ID -> factor applied to its points
+}
+
+export interface TriageModifierEffect {
+  id: string;
+  label: string;
+  questionIds: string[]; // Answers the modifier made more urgent
+  scoreChange: number; // Points added to the 0-100 score
+}
+
 export interface TriageResult {
+  questionnaireVersion?: number; // Version of the question bank the score was computed with
   score: number;
   urgencyLevel: 'low' | 'medium' | 'high' | 'critical';
   recommendations: string[];
   suggestedActions: string[];
   veterinarianRequired: boolean;
   emergencyServices: boolean;
+  recommendation: TriageRecommendation;
+  redFlag?: TriageResponse; // Answer that ended the triage early
+  modifiers?: TriageModifierEffect[]; // Dog risk factors that raised the score
+}
+
+export interface EmergencyVeterinarian {
+  id: string;
+  name: string;
+  clinicName: string;
+  clinicAddress: any;
+  phone?: string;
+  emergencyFee: number;
+  distance: number; // km
+}
+
+export interface TriageSession {
+  id: string;
+  userId: string;
+  dogId?: string;
+  questionnaireVersion: number;
+  status: 'in_progress' | 'completed' | 'emergency';
+  responses: TriageResponse[]; // In the order they were answered
+  nextQuestion: TriageQuestion | null;
+  result: TriageResult | null;
+  dog?: TriageDogProfile; // Snapshot of the dog being triaged, for risk modifiers
+  location?: LocationPoint; // Used to suggest open emergency vets if the outcome is an emergency
+  emergencyVeterinarians?: EmergencyVeterinarian[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Medical record types
+// Current picture of the dog's health, derived from the record entries
+export interface MedicalRecordSummary<T = MedicalRecordEntry> {
+  activeProblems: T[];
+  allergies: T[];
+  activeMedications: T[];
+  vaccinations: T[]; // Latest dose of each vaccine
+  surgeries: T[];
+  weightHistory: Array<{ date: string; weightKg: number }>;
+  latestWeightKg?: number;
+  recentLabResults: T[];
+}
+
+// Minimal profile shown to a verified vet or shelter that scans a found dog's microchip
+export interface EmergencyMedicalProfile {
+  dog: {
+    id: string;
+    name: string;
+    breed: string;
+    size: string;
+    gender: string;
+    birthDate: string;
+    color: string;
+    weight?: number;
+    bloodType?: string;
+    isNeutered: boolean;
+  };
+  allergies: Array<{ title: string; severity?: string; reaction?: string }>;
+  chronicConditions: Array<{ title: string; description?: string; since: string }>;
+  owner: {
+    firstName: string;
+    lastName: string;
+    phone?: string;
+    email?: string;
+  } | null;
+  accessedAt: string;
+}
+
+// Vaccination types
+export type VaccineCategory = 'core' | 'non_core';
+
+export interface VaccineProtocol {
+  code: string; // Matched against the vaccineCode of vaccination entries
+  name: string;
+  category: VaccineCategory;
+  aliases: string[];
+  startAgeWeeks: number; // Earliest age for the first puppy dose
+  intervalWeeks: number; // Between doses of the primary series
+  primaryDoses: number; // Minimum doses in the primary series
+  finalDoseMinAgeWeeks: number; // The series is complete only with a dose given at or after this age
+  firstBoosterMonths: number; // After the primary series
+  boosterIntervalMonths: number; // Between later boosters
+}
+
+export type VaccinationStatus = 'up_to_date' | 'due_soon' | 'overdue';
+
+export interface VaccinationScheduleItem {
+  code: string;
+  name: string;
+  category: VaccineCategory;
+  status: VaccinationStatus;
+  dosesGiven: number;
+  primarySeriesComplete: boolean;
+  lastDoseAt?: string;
+  nextDueDate: string;
+  daysUntilDue: number; // Negative when overdue
+}
+
+// 1 = push before the due date, 2 = push and email on it, 3 = push, email and SMS once overdue
+export type VaccinationReminderLevel = 0 | 1 | 2 | 3;
+
+export interface VaccinationCertificatePayload {
+  number: string;
+  dogId: string;
+  dogName: string;
+  breed: string;
+  birthDate: string;
+  microchipNumber?: string;
+  ownerName: string;
+  vaccinations: Array<{
+    code: string;
+    name: string;
+    administeredAt: string;
+    batchNumber?: string;
+    veterinarian?: string;
+    nextDueDate?: string;
+  }>;
+  issuedAt: string;
+}
+
+export interface VaccinationCertificateVerification {
+  valid: boolean;
+  reason?: 'MALFORMED' | 'INVALID_SIGNATURE' | 'UNTRUSTED_KEY';
+  certificate?: VaccinationCertificatePayload;
+  fingerprint?: string;
 }
 
 // Prescription (REV) types
 export interface Prescription {
   id: string;
+  number: string;
   veterinarianId: string;
   patientId: string; // dogId
   ownerId: string;
+  bookingId?: string;
   drugName: string;
   activeIngredient: string;
   dosage: string;
@@ -446,22 +947,37 @@ export interface Prescription {
   quantity: number;
   instructions: string;
   warnings?: string;
+  doseMg?: number;
+  safetyWarnings?: PrescriptionSafetyWarning[];
   issueDate: Date;
   validUntil: Date;
   qrCode: string;
   digitalSignature: string;
+  signingKeyFingerprint: string;
   isDispensed: boolean;
+  dispensedQuantity: number;
+  dispensations?: PrescriptionDispensation[];
   dispensedAt?: Date;
   pharmacyId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One pickup at a pharmacy; a prescription can be dispensed in several
+export interface PrescriptionDispensation {
+  pharmacyId: string;
+  quantity: number;
+  pharmacistName?: string;
+  dispensedAt: string;
+}
+
 export const prescriptionSchema = z.object({
   id: z.string().uuid(),
+  number: z.string(),
   veterinarianId: z.string().uuid(),
   patientId: z.string().uuid(),
   ownerId: z.string().uuid(),
+  bookingId: z.string().uuid().optional(),
   drugName: z.string().min(1, 'Nome farmaco richiesto'),
   activeIngredient: z.string().min(1, 'Principio attivo richiesto'),
   dosage: z.string().min(1, 'Dosaggio richiesto'),
@@ -470,17 +986,92 @@ export const prescriptionSchema = z.object({
   quantity: z.number().positive('Quantità deve essere positiva'),
   instructions: z.string().min(1, 'Istruzioni richieste'),
   warnings: z.string().optional(),
+  doseMg: z.number().positive().optional(),
   issueDate: z.date(),
   validUntil: z.date(),
   qrCode: z.string(),
   digitalSignature: z.string(),
+  signingKeyFingerprint: z.string(),
   isDispensed: z.boolean().default(false),
+  dispensedQuantity: z.number().int().min(0).default(0),
   dispensedAt: z.date().optional(),
   pharmacyId: z.string().uuid().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+// Veterinary formulary entry, maintained in the CMS
+export interface FormularyInteraction {
+  activeIngredient: string;
+  severity: PrescriptionSafetySeverity;
+  note?: string;
+}
+
+export interface FormularyDrug {
+  id?: string;
+  name: string;
+  activeIngredient: string;
+  aliases?: string[]; // Brand names and other spellings of the active ingredient
+  doseRange?: { minMgPerKg: number; maxMgPerKg: number }; // Per administration
+  minAgeMonths?: number;
+  allergyKeywords?: string[]; // Drug classes to look for next to "allergia" in the dog's medical notes
+  interactions: FormularyInteraction[];
+}
+
+// Warnings block the prescription until the vet gives a reason; blocks cannot be overridden
+export type PrescriptionSafetySeverity = 'warning' | 'block';
+
+export interface PrescriptionSafetyWarning {
+  code:
+    | 'NOT_IN_FORMULARY'
+    | 'WEIGHT_UNKNOWN'
+    | 'DOSE_UNKNOWN'
+    | 'DOSE_BELOW_RANGE'
+    | 'DOSE_ABOVE_RANGE'
+    | 'TOO_YOUNG'
+    | 'INTERACTION'
+    | 'ALLERGY';
+  severity: PrescriptionSafetySeverity;
+  message: string;
+  details?: Record<string, any>;
+  overrideReason?: string;
+}
+
+// Exactly what the veterinarian signs; dates are ISO strings so the bytes are stable
+export interface PrescriptionSigningPayload {
+  number: string;
+  veterinarianId: string;
+  licenseNumber: string;
+  patientId: string;
+  ownerId: string;
+  bookingId: string;
+  drugName: string;
+  activeIngredient: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  quantity: number;
+  instructions: string;
+  warnings?: string;
+  doseMg?: number;
+  issueDate: string;
+  validUntil: string;
+}
+
+// Content of the QR code: enough for a pharmacy to check the signature offline
+export interface PrescriptionQrPayload {
+  prescription: PrescriptionSigningPayload;
+  signature: string;
+  publicKey: string; // Base64 DER (SPKI) Ed25519 key of the prescribing veterinarian
+}
+
+export interface PrescriptionVerification {
+  valid: boolean;
+  reason?: 'MALFORMED' | 'INVALID_SIGNATURE' | 'UNTRUSTED_KEY' | 'EXPIRED';
+  prescription?: PrescriptionSigningPayload;
+  fingerprint?: string;
+}
+
 // Video call types
 export interface VideoCallSession {
   id: string;
@@ -699,6 +1290,49 @@ export interface Event {
   updatedAt: Date;
 }
 
+// Lost & found matching types
+export interface LostFoundReport {
+  id: string;
+  type: string; // lost_dog, or a found_dog / injured_dog / abandoned_dog report
+  reporterId?: string;
+  dogInfo: {
+    breed?: string;
+    size?: string;
+    color?: string;
+    gender?: string;
+    age?: number;
+    distinguishingFeatures?: string;
+  };
+  coordinates?: LocationPoint;
+  reportedAt: Date | string;
+}
+
+export type LostFoundCriterion = 'breed' | 'size' | 'color' | 'gender' | 'age' | 'features' | 'distance' | 'time';
+
+export interface LostFoundMatch {
+  lostReportId: string;
+  foundReportId: string;
+  score: number; // 0-100
+  distanceKm?: number;
+  daysApart: number;
+  breakdown: Record<LostFoundCriterion, number>; // 0-1 per criterion, 0.5 when unknown on either side
+}
+
+// Calendar export types (iCalendar / RFC 5545)
+export interface CalendarEvent {
+  uid: string; // Must stay the same across updates so calendars replace the old entry
+  start: Date;
+  end?: Date;
+  allDay?: boolean;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number; // Bumped on every reschedule or cancellation
+  lastModified?: Date;
+}
+
 // Analytics and reporting types
 export interface VeterinarianAnalytics {
   totalBookings: number;
@@ -749,6 +1383,7 @@ export type WebSocketEventType =
   | 'typing_start'
   | 'typing_stop'
   | 'booking_status_change'
+  | 'waitlist_offer'
   | 'emergency_alert'
   | 'match_notification'
   | 'system_notification';
@@ -940,16 +1575,35 @@ export default {
   UserRole,
   BookingStatus,
   BookingType,
+  ResourceType,
+  PaymentOption,
+  FollowUpStatus,
+  TimeOffType,
+  WaitlistStatus,
   EmergencyType,
   DocumentType,
+  MedicalRecordEntryType,
+  MedicalRecordEntryStatus,
+  MedicalRecordGrantScope,
   DogSize,
   ActivityLevel,
   MatchStatus,
   userSchema,
   dogSchema,
+  workingHoursSchema,
+  clinicSchema,
+  clinicResourceSchema,
   veterinarianSchema,
+  veterinarianTimeOffSchema,
+  cancellationPolicySchema,
+  noShowPolicySchema,
+  recurrenceSchema,
   bookingSchema,
+  waitlistEntrySchema,
   documentSchema,
+  labResultSchema,
+  medicalRecordEntrySchema,
+  medicalRecordGrantSchema,
   emergencySchema,
   matchSchema,
   chatSchema,
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { LostFoundReport } from '@doggo/types';
+import { LostFoundMatcher } from './index';
+
+const MILAN = { latitude: 45.4642, longitude: 9.19 };
+
+const lost: LostFoundReport = {
+  id: 'lost-1',
+  type: 'lost_dog',
+  reporterId: 'owner-1',
+  dogInfo: {
+    breed: 'Labrador Retriever',
+    size: 'large',
+    color: 'nero',
+    gender: 'male',
+    age: 4,
+    distinguishingFeatures: 'collare rosso, macchia bianca sul petto',
+  },
+  coordinates: MILAN,
+  reportedAt: '2030-03-04T10:00:00.000Z',
+};
+
+const found = (overrides: Partial<LostFoundReport> = {}, dogInfo: LostFoundReport['dogInfo'] = {}): LostFoundReport => ({
+  id: 'found-1',
+  type: 'found_dog',
+  reporterId: 'finder-1',
+  coordinates: { latitude: 45.4842, longitude: 9.2 },
+  reportedAt: '2030-03-05T08:00:00.000Z',
+  ...overrides,
+  dogInfo: {
+    breed: 'labrador',
+    size: 'LARGE',
+    color: 'nero',
+    gender: 'male',
+    age: 5,
+    distinguishingFeatures: 'macchia bianca sul petto',
+    ...dogInfo,
+  },
+});
+
+describe('LostFoundMatcher.score', () => {
+  it('scores a likely pair above the threshold', () => {
+    const match = LostFoundMatcher.score(lost, found());
+
+    expect(match).not.toBeNull();
+    expect(match!.score).toBeGreaterThanOrEqual(LostFoundMatcher.MIN_SCORE);
+    expect(match!.daysApart).toBe(1);
+    expect(match!.breakdown.size).toBe(1);
+  });
+
+  it('rules out a dog of the other gender', () => {
+    expect(LostFoundMatcher.score(lost, found({}, { gender: 'female' }))).toBeNull();
+  });
+
+  it('rules out sizes two classes apart but not one', () => {
+    expect(LostFoundMatcher.score(lost, found({}, { size: 'small' }))).toBeNull();
+    expect(LostFoundMatcher.score(lost, found({}, { size: 'medium' }))).not.toBeNull();
+  });
+
+  it('rules out a dog found too far away', () => {
+    const farAway = { latitude: MILAN.latitude + 0.6, longitude: MILAN.longitude }; // About 67 km north
+
+    expect(LostFoundMatcher.score(lost, found({ coordinates: farAway }))).toBeNull();
+  });
+
+  it('rules out reports too many days apart, before or after the loss', () => {
+    expect(LostFoundMatcher.score(lost, found({ reportedAt: '2030-05-10T10:00:00.000Z' }))).toBeNull();
+    expect(LostFoundMatcher.score(lost, found({ reportedAt: '2029-12-20T10:00:00.000Z' }))).toBeNull();
+  });
+
+  it('gives unknown criteria a neutral score instead of ruling the dog out', () => {
+    const match = LostFoundMatcher.score(lost, found({ coordinates: undefined }, { gender: undefined, size: undefined }));
+
+    expect(match).not.toBeNull();
+    expect(match!.breakdown).toMatchObject({ gender: 0.5, size: 0.5, distance: 0.5 });
+  });
+});
+
+describe('LostFoundMatcher.rankCandidates', () => {
+  it('orders candidates best first and drops those below the threshold', () => {
+    const best = found({ id: 'found-best' });
+    const fair = found({ id: 'found-fair', coordinates: { latitude: 45.7, longitude: 9.19 } }, { color: 'nero focato', age: 7 });
+    const poor = found({ id: 'found-poor' }, { breed: 'barboncino', color: 'bianco', age: 12, distinguishingFeatures: 'orecchie lunghe' });
+
+    const matches = LostFoundMatcher.rankCandidates([lost], [poor, fair, best]);
+
+    expect(matches.map(match => match.foundReportId)).toEqual(['found-best', 'found-fair']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('skips pairs reported by the same person and applies the limit', () => {
+    const ownReport = found({ id: 'found-own', reporterId: 'owner-1' });
+    const other = found({ id: 'found-other' });
+
+    expect(LostFoundMatcher.rankCandidates([lost], [ownReport, other]).map(match => match.foundReportId)).toEqual(['found-other']);
+    expect(LostFoundMatcher.rankCandidates([lost], [other, found({ id: 'found-2' })], { limit: 1 })).toHaveLength(1);
+  });
+});
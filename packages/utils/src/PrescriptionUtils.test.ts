@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { PrescriptionSigningPayload } from '@doggo/types';
+import { PrescriptionUtils } from './index';
+
+const NOW = new Date('2030-03-04T10:00:00.000Z');
+
+const prescription: PrescriptionSigningPayload = {
+  number: 'REV-20300304-0A1B2C3D',
+  veterinarianId: 'vet-1',
+  licenseNumber: 'MI-1234',
+  patientId: 'dog-1',
+  ownerId: 'owner-1',
+  bookingId: 'booking-1',
+  drugName: 'Rimadyl',
+  activeIngredient: 'carprofen',
+  dosage: '50 mg',
+  frequency: 'ogni 12 ore',
+  duration: '7 giorni',
+  quantity: 14,
+  instructions: 'Somministrare dopo il pasto',
+  doseMg: 50,
+  issueDate: '2030-03-01T09:00:00.000Z',
+  validUntil: '2030-03-31T23:59:59.000Z',
+};
+
+describe('PrescriptionUtils', () => {
+  const keys = PrescriptionUtils.generateKeyPair();
+  const signature = PrescriptionUtils.sign(prescription, keys.privateKey);
+  const qrCode = PrescriptionUtils.buildQrPayload(prescription, signature, keys.publicKey);
+
+  it('accepts a QR code signed by a trusted key', () => {
+    const result = PrescriptionUtils.verifyQrPayload(qrCode, { trustedFingerprints: [keys.fingerprint], now: NOW });
+
+    expect(result).toEqual({ valid: true, prescription, fingerprint: keys.fingerprint });
+  });
+
+  it('rejects a QR code whose prescription was changed after signing', () => {
+    const tampered = PrescriptionUtils.buildQrPayload({ ...prescription, quantity: 140 }, signature, keys.publicKey);
+
+    const result = PrescriptionUtils.verifyQrPayload(tampered, { trustedFingerprints: [keys.fingerprint], now: NOW });
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('INVALID_SIGNATURE');
+  });
+
+  it('rejects a QR code re-signed with a key not registered for the vet', () => {
+    const forger = PrescriptionUtils.generateKeyPair();
+    const forged = PrescriptionUtils.buildQrPayload(
+      prescription,
+      PrescriptionUtils.sign(prescription, forger.privateKey),
+      forger.publicKey
+    );
+
+    const result = PrescriptionUtils.verifyQrPayload(forged, { trustedFingerprints: [keys.fingerprint], now: NOW });
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('UNTRUSTED_KEY');
+    expect(result.fingerprint).toBe(forger.fingerprint);
+  });
+
+  it('rejects an expired prescription', () => {
+    const result = PrescriptionUtils.verifyQrPayload(qrCode, {
+      trustedFingerprints: [keys.fingerprint],
+      now: new Date('2030-04-01T00:00:00.000Z'),
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('EXPIRED');
+  });
+
+  it('rejects a QR code that is not a prescription', () => {
+    expect(PrescriptionUtils.verifyQrPayload('https://example.com')).toEqual({ valid: false, reason: 'MALFORMED' });
+  });
+
+  it('verifies a signature regardless of the order of the fields', () => {
+    const reordered = Object.fromEntries(Object.entries(prescription).reverse()) as PrescriptionSigningPayload;
+
+    expect(PrescriptionUtils.verify(reordered, signature, keys.publicKey)).toBe(true);
+    expect(PrescriptionUtils.verify({ ...prescription, dosage: '500 mg' }, signature, keys.publicKey)).toBe(false);
+  });
+});
@@ -1,4 +1,13 @@
 import bcrypt from 'bcryptjs';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  sign as signData,
+  verify as verifySignature,
+} from 'crypto';
 import jwt from 'jsonwebtoken';
 import { nanoid } from 'nanoid';
 import slugify from 'slugify';
@@ -9,7 +18,33 @@ import type {
   TriageResponse, 
   TriageResult, 
   TriageQuestion,
+  TriageQuestionnaire,
+  TriageAnswerMatch,
+  TriageRecommendation,
+  TriageDogProfile,
+  TriageRiskModifier,
+  TriageModifierEffect,
+  PrescriptionSigningPayload,
+  PrescriptionQrPayload,
+  PrescriptionVerification,
+  PrescriptionSafetyWarning,
+  PrescriptionSafetySeverity,
+  FormularyDrug,
+  MedicalRecordSummary,
+  VaccineProtocol,
+  VaccinationScheduleItem,
+  VaccinationReminderLevel,
+  VaccinationCertificatePayload,
+  VaccinationCertificateVerification,
+  LostFoundReport,
+  LostFoundCriterion,
+  LostFoundMatch,
   FoodCalculation,
+  VeterinarianSlotSettings,
+  CancellationPolicy,
+  NoShowPolicy,
+  OwnerReliability,
+  CalendarEvent,
   ActivityLevel,
   DogSize,
   ApiResponse 
@@ -40,6 +75,40 @@ export class CryptoUtils {
     return nanoid(size);
   }
 
+  // Deterministic hash for API keys, so they can be looked up without storing them
+  static hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  // Sorted keys and no empty fields, so the same document always signs to the same bytes
+  static canonicalize(document: Record<string, any>): string {
+    const canonical = Object.keys(document)
+      .sort()
+      .filter(key => document[key] !== undefined && document[key] !== null && document[key] !== '')
+      .reduce((acc, key) => ({ ...acc, [key]: document[key] }), {});
+
+    return JSON.stringify(canonical);
+  }
+
+  // Ed25519 signature over the canonical form; keys are base64 DER (PKCS#8 / SPKI)
+  static signCanonical(document: Record<string, any>, privateKey: string): string {
+    const key = createPrivateKey({ key: Buffer.from(privateKey, 'base64'), format: 'der', type: 'pkcs8' });
+    return signData(null, Buffer.from(this.canonicalize(document)), key).toString('base64');
+  }
+
+  static verifyCanonical(document: Record<string, any>, signature: string, publicKey: string): boolean {
+    try {
+      const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+      return verifySignature(null, Buffer.from(this.canonicalize(document)), key, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  static getKeyFingerprint(publicKey: string): string {
+    return createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex');
+  }
+
   static generateSlug(text: string): string {
     return slugify(text, {
       lower: true,
@@ -90,276 +159,1781 @@ export class DateUtils {
       }
     }
 
-    return result.toDate();
-  }
+    return result.toDate();
+  }
+
+  static calculateAge(birthDate: Date): { years: number; months: number } {
+    const now = dayjs();
+    const birth = dayjs(birthDate);
+    const years = now.diff(birth, 'year');
+    const months = now.diff(birth.add(years, 'year'), 'month');
+    return { years, months };
+  }
+}
+
+// ===========================================
+// SCHEDULING UTILITIES
+// ===========================================
+
+export class SchedulingUtils {
+  // Fallback slot lengths (minutes) when a veterinarian has not configured them
+  static readonly DEFAULT_DURATIONS: Record<string, number> = {
+    general: 30,
+    urgent: 30,
+    specialist: 30,
+    telemedicine: 30,
+    surgery: 60
+  };
+
+  static readonly DEFAULT_SLOT_INTERVAL = 30;
+
+  // Upper bound for a recurring series: one year of weekly check-ups
+  static readonly MAX_SERIES_OCCURRENCES = 52;
+
+  static timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  static minutesToTime(minutes: number): string {
+    const hour = Math.floor(minutes / 60);
+    const minute = minutes % 60;
+    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Resolve the appointment length for a booking type.
+   * Accepts both Prisma (GENERAL) and API (general) spellings.
+   */
+  static getSlotDuration(bookingType?: string, settings?: Partial<VeterinarianSlotSettings> | null): number {
+    const type = (bookingType || 'general').toLowerCase();
+    const configured = settings?.durations?.[type as keyof NonNullable<VeterinarianSlotSettings['durations']>];
+    return configured || this.DEFAULT_DURATIONS[type] || this.DEFAULT_DURATIONS.general;
+  }
+
+  /**
+   * Generate the start times (HH:mm) of every slot that can hold an appointment
+   * of `duration` minutes inside the given working day.
+   * Existing bookings are padded with the configured buffer; the lunch break and
+   * any `blocked` periods (minutes from midnight, e.g. partial-day time-off) are
+   * treated as busy time.
+   */
+  static generateSlots(
+    daySchedule: { startTime: string; endTime: string },
+    bookings: Array<{ scheduledAt: Date | string; duration: number }>,
+    duration: number,
+    settings?: Partial<VeterinarianSlotSettings> | null,
+    blocked: Array<{ start: number; end: number }> = []
+  ): string[] {
+    if (settings?.maxBookingsPerDay && bookings.length >= settings.maxBookingsPerDay) {
+      return [];
+    }
+
+    const interval = settings?.slotInterval || this.DEFAULT_SLOT_INTERVAL;
+    const buffer = settings?.bufferMinutes || 0;
+    const dayStart = this.timeToMinutes(daySchedule.startTime);
+    const dayEnd = this.timeToMinutes(daySchedule.endTime);
+
+    const busy = bookings.map(booking => {
+      const start = new Date(booking.scheduledAt);
+      const startMinutes = start.getHours() * 60 + start.getMinutes();
+      return {
+        start: startMinutes - buffer,
+        end: startMinutes + booking.duration + buffer
+      };
+    });
+
+    if (settings?.lunchBreak?.startTime && settings.lunchBreak.endTime) {
+      busy.push({
+        start: this.timeToMinutes(settings.lunchBreak.startTime),
+        end: this.timeToMinutes(settings.lunchBreak.endTime)
+      });
+    }
+
+    busy.push(...blocked);
+
+    const slots: string[] = [];
+    for (let minutes = dayStart; minutes + duration <= dayEnd; minutes += interval) {
+      const overlaps = busy.some(period => minutes < period.end && minutes + duration > period.start);
+      if (!overlaps) {
+        slots.push(this.minutesToTime(minutes));
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * Restrict a veterinarian's working day to the opening hours of their clinic.
+   * Returns null when the clinic is closed that day or the hours do not overlap.
+   */
+  static intersectWorkingHours<T extends { dayOfWeek: number; startTime: string; endTime: string; isAvailable?: boolean }>(
+    vetDay: T,
+    clinicHours?: Array<{ dayOfWeek: number; startTime: string; endTime: string; isAvailable?: boolean }> | null
+  ): T | null {
+    if (!clinicHours || clinicHours.length === 0) return vetDay;
+
+    const clinicDay = clinicHours.find(day => day.dayOfWeek === vetDay.dayOfWeek && day.isAvailable !== false);
+    if (!clinicDay) return null;
+
+    const start = Math.max(this.timeToMinutes(vetDay.startTime), this.timeToMinutes(clinicDay.startTime));
+    const end = Math.min(this.timeToMinutes(vetDay.endTime), this.timeToMinutes(clinicDay.endTime));
+    if (start >= end) return null;
+
+    return { ...vetDay, startTime: this.minutesToTime(start), endTime: this.minutesToTime(end) };
+  }
+
+  // Whether a vet (and their clinic, if any) is open at the given moment
+  static isOpenAt(
+    workingHours: Array<{ dayOfWeek: number; startTime: string; endTime: string; isAvailable?: boolean }> | null | undefined,
+    date: Date,
+    clinicHours?: Array<{ dayOfWeek: number; startTime: string; endTime: string; isAvailable?: boolean }> | null
+  ): boolean {
+    const vetDay = (workingHours || []).find(wh => wh.dayOfWeek === date.getDay() && wh.isAvailable);
+    const day = vetDay && this.intersectWorkingHours(vetDay, clinicHours);
+    if (!day) return false;
+
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return minutes >= this.timeToMinutes(day.startTime) && minutes < this.timeToMinutes(day.endTime);
+  }
+
+  /**
+   * Resource types a visit needs, from the clinic's requirements for its
+   * booking type and for the service booked (e.g. surgery, imaging).
+   */
+  static getRequiredResourceTypes(
+    requirements: Array<{ service: string; resourceTypes: string[] }> | null | undefined,
+    keys: Array<string | null | undefined>
+  ): string[] {
+    const wanted = keys.filter(Boolean).map(key => (key as string).toLowerCase());
+    const types = (requirements || [])
+      .filter(requirement => wanted.includes(requirement.service))
+      .flatMap(requirement => requirement.resourceTypes || []);
+    return Array.from(new Set(types.map(type => type.toLowerCase())));
+  }
+
+  /**
+   * Pick one free resource of each required type for the given time, or
+   * null if any type has nothing free. Returns an empty list when nothing
+   * is required.
+   */
+  static allocateResources(
+    start: Date,
+    duration: number,
+    requiredTypes: string[],
+    resources: Array<{ id: string; type: string }>,
+    reservations: Array<{ scheduledAt: Date | string; duration: number; resourceIds: string[] }>
+  ): string[] | null {
+    const startTime = start.getTime();
+    const endTime = startTime + duration * 60000;
+
+    const busy = new Set<string>();
+    for (const reservation of reservations) {
+      const reservedStart = new Date(reservation.scheduledAt).getTime();
+      const reservedEnd = reservedStart + reservation.duration * 60000;
+      if (startTime < reservedEnd && endTime > reservedStart) {
+        reservation.resourceIds.forEach(id => busy.add(id));
+      }
+    }
+
+    const allocated: string[] = [];
+    for (const type of requiredTypes) {
+      const free = resources.find(resource =>
+        resource.type.toLowerCase() === type && !busy.has(resource.id) && !allocated.includes(resource.id)
+      );
+      if (!free) return null;
+      allocated.push(free.id);
+    }
+
+    return allocated;
+  }
+
+  // Drop slots (HH:mm on `date`) for which the required resources are not all free
+  static filterSlotsByResources(
+    date: Date,
+    slots: string[],
+    duration: number,
+    requiredTypes: string[],
+    resources: Array<{ id: string; type: string }>,
+    reservations: Array<{ scheduledAt: Date | string; duration: number; resourceIds: string[] }>
+  ): string[] {
+    if (requiredTypes.length === 0) return slots;
+
+    return slots.filter(slot => {
+      const start = new Date(date);
+      start.setHours(Math.floor(this.timeToMinutes(slot) / 60), this.timeToMinutes(slot) % 60, 0, 0);
+      return this.allocateResources(start, duration, requiredTypes, resources, reservations) !== null;
+    });
+  }
+
+  /**
+   * Choose the vet for an "any available vet" clinic booking: the one with
+   * the fewest bookings that day, then the best rated.
+   */
+  static pickVeterinarian<T extends { veterinarianId: string; bookingsThatDay: number; rating?: number }>(
+    candidates: T[]
+  ): T | null {
+    if (candidates.length === 0) return null;
+
+    return [...candidates].sort((a, b) =>
+      a.bookingsThatDay - b.bookingsThatDay || (b.rating || 0) - (a.rating || 0)
+    )[0];
+  }
+
+  /**
+   * Convert time-off periods into busy intervals (minutes from midnight) for
+   * a single day. A period covering the whole day yields [0, 1440].
+   */
+  static getBlockedPeriods(
+    date: Date,
+    timeOff: Array<{ startDate: Date | string; endDate: Date | string }>
+  ): Array<{ start: number; end: number }> {
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    return timeOff
+      .map(period => ({ start: new Date(period.startDate), end: new Date(period.endDate) }))
+      .filter(period => period.start < dayEnd && period.end > dayStart)
+      .map(period => ({
+        start: period.start <= dayStart ? 0 : period.start.getHours() * 60 + period.start.getMinutes(),
+        end: period.end >= dayEnd ? 24 * 60 : period.end.getHours() * 60 + period.end.getMinutes()
+      }));
+  }
+
+  /**
+   * Start times of a recurring series. The first occurrence falls on
+   * `startDate`; the series stops after `count` occurrences or on `until`
+   * (inclusive), whichever the caller gave, and never exceeds
+   * MAX_SERIES_OCCURRENCES. Monthly series keep the day of the month,
+   * falling back to the last day in shorter months.
+   */
+  static generateRecurrence(params: {
+    startDate: Date | string;
+    frequency: 'weekly' | 'biweekly' | 'monthly';
+    preferredTime: string;
+    count?: number;
+    until?: Date | string;
+  }): Date[] {
+    const start = new Date(params.startDate);
+    const [hours, minutes] = params.preferredTime.split(':').map(Number);
+    const anchorDay = start.getDate();
+
+    let limit = this.MAX_SERIES_OCCURRENCES;
+    if (params.count) {
+      limit = Math.min(params.count, limit);
+    }
+
+    let until: Date | null = null;
+    if (params.until) {
+      until = new Date(params.until);
+      until.setHours(23, 59, 59, 999);
+    }
+
+    const dates: Date[] = [];
+    for (let i = 0; dates.length < limit; i++) {
+      let date: Date;
+      if (params.frequency === 'monthly') {
+        const lastDay = new Date(start.getFullYear(), start.getMonth() + i + 1, 0).getDate();
+        date = new Date(start.getFullYear(), start.getMonth() + i, Math.min(anchorDay, lastDay), hours, minutes);
+      } else {
+        const stepDays = params.frequency === 'biweekly' ? 14 : 7;
+        date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i * stepDays, hours, minutes);
+      }
+
+      if (until && date > until) break;
+      dates.push(date);
+    }
+
+    return dates;
+  }
+
+  static getEasterSunday(year: number): Date {
+    // Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(year, month - 1, day);
+  }
+
+  static getItalianPublicHolidays(year: number): Array<{ date: Date; name: string }> {
+    const easter = this.getEasterSunday(year);
+    const easterMonday = new Date(easter);
+    easterMonday.setDate(easter.getDate() + 1);
+
+    const holidays = [
+      { date: new Date(year, 0, 1), name: 'Capodanno' },
+      { date: new Date(year, 0, 6), name: 'Epifania' },
+      { date: easter, name: 'Pasqua' },
+      { date: easterMonday, name: 'Lunedì dell\'Angelo' },
+      { date: new Date(year, 3, 25), name: 'Festa della Liberazione' },
+      { date: new Date(year, 4, 1), name: 'Festa del Lavoro' },
+      { date: new Date(year, 5, 2), name: 'Festa della Repubblica' },
+      { date: new Date(year, 7, 15), name: 'Ferragosto' },
+      { date: new Date(year, 10, 1), name: 'Ognissanti' },
+      { date: new Date(year, 11, 8), name: 'Immacolata Concezione' },
+      { date: new Date(year, 11, 25), name: 'Natale' },
+      { date: new Date(year, 11, 26), name: 'Santo Stefano' }
+    ];
+
+    // San Francesco d'Assisi is a national holiday again from 2026
+    if (year >= 2026) {
+      holidays.push({ date: new Date(year, 9, 4), name: 'San Francesco d\'Assisi' });
+    }
+
+    return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  static getPublicHoliday(date: Date): string | null {
+    const holiday = this.getItalianPublicHolidays(date.getFullYear())
+      .find(h => h.date.getMonth() === date.getMonth() && h.date.getDate() === date.getDate());
+    return holiday ? holiday.name : null;
+  }
+
+  /**
+   * Order waitlist entries that can take a freed slot: highest triage
+   * urgency first, then whoever joined earliest. Entries whose date range
+   * does not cover the slot, that asked for a different booking type, or
+   * that already passed on this slot are left out.
+   */
+  static rankWaitlist<T extends {
+    dateFrom: Date | string;
+    dateTo: Date | string;
+    type?: string | null;
+    urgencyScore?: number | null;
+    declinedSlots?: Array<Date | string> | null;
+    createdAt: Date | string;
+  }>(entries: T[], slot: { scheduledAt: Date; type?: string }): T[] {
+    const slotTime = slot.scheduledAt.getTime();
+    const slotType = slot.type?.toLowerCase();
+
+    return entries
+      .filter(entry => {
+        const from = new Date(entry.dateFrom);
+        from.setHours(0, 0, 0, 0);
+        const to = new Date(entry.dateTo);
+        to.setHours(23, 59, 59, 999);
+        if (slotTime < from.getTime() || slotTime > to.getTime()) return false;
+
+        if (entry.type && slotType && entry.type.toLowerCase() !== slotType) return false;
+
+        return !(entry.declinedSlots || []).some(declined => new Date(declined).getTime() === slotTime);
+      })
+      .sort((a, b) => {
+        const urgencyDiff = (b.urgencyScore || 0) - (a.urgencyScore || 0);
+        if (urgencyDiff !== 0) return urgencyDiff;
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+      });
+  }
+}
+
+// ===========================================
+// CANCELLATION & REFUNDS
+// ===========================================
+
+export class RefundCalculator {
+  // Full refund more than 48h ahead, 50% afterwards, nothing for no-shows
+  static readonly DEFAULT_POLICY: CancellationPolicy = {
+    tiers: [
+      { hoursBefore: 48, refundPercentage: 100 },
+      { hoursBefore: 0, refundPercentage: 50 }
+    ],
+    noShowRefundPercentage: 0,
+    veterinarianCancellationRefundPercentage: 100
+  };
+
+  static calculateRefund(params: {
+    totalCost: number;
+    scheduledAt: Date | string;
+    cancelledAt?: Date;
+    cancelledBy: 'owner' | 'veterinarian' | 'admin';
+    isNoShow?: boolean;
+    policy?: Partial<CancellationPolicy> | null;
+  }): { refundPercentage: number; refundAmount: number; hoursBeforeAppointment: number; rule: string } {
+    const policy = { ...this.DEFAULT_POLICY, ...(params.policy || {}) };
+    const cancelledAt = params.cancelledAt || new Date();
+    const hoursBeforeAppointment = (new Date(params.scheduledAt).getTime() - cancelledAt.getTime()) / (1000 * 60 * 60);
+
+    let refundPercentage: number;
+    let rule: string;
+
+    if (params.isNoShow) {
+      refundPercentage = policy.noShowRefundPercentage ?? 0;
+      rule = 'no_show';
+    } else if (params.cancelledBy !== 'owner') {
+      refundPercentage = policy.veterinarianCancellationRefundPercentage ?? 100;
+      rule = 'cancelled_by_provider';
+    } else {
+      const tier = [...(policy.tiers || this.DEFAULT_POLICY.tiers)]
+        .sort((a, b) => b.hoursBefore - a.hoursBefore)
+        .find(t => hoursBeforeAppointment >= t.hoursBefore);
+      refundPercentage = tier ? tier.refundPercentage : 0;
+      rule = tier ? `tier_${tier.hoursBefore}h` : 'after_appointment';
+    }
+
+    const refundAmount = Math.round(params.totalCost * refundPercentage) / 100;
+
+    return {
+      refundPercentage,
+      refundAmount,
+      hoursBeforeAppointment: Math.round(hoursBeforeAppointment * 10) / 10,
+      rule
+    };
+  }
+}
+
+// ===========================================
+// OWNER RELIABILITY
+// ===========================================
+
+export class ReliabilityUtils {
+  // No-shows older than this no longer count against the owner
+  static readonly WINDOW_MONTHS = 12;
+
+  // Pay at the visit is off unless the veterinarian enables it
+  static readonly DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+    allowPayAtVisit: false,
+    threshold: 2,
+    requirement: 'deposit',
+    depositPercentage: 30
+  };
+
+  /**
+   * A booking is a no-show once its grace period has passed and the owner
+   * neither checked in at the clinic nor joined the video call.
+   */
+  static isNoShow(params: {
+    status: string;
+    scheduledAt: Date | string;
+    checkedInAt?: Date | string | null;
+    graceMinutes: number;
+    now?: Date;
+  }): boolean {
+    // A visit the vet has started is attended, checked in or not
+    if (params.status !== 'confirmed') return false;
+    if (params.checkedInAt) return false;
+
+    const now = params.now || new Date();
+    const deadline = new Date(params.scheduledAt).getTime() + params.graceMinutes * 60000;
+    return now.getTime() > deadline;
+  }
+
+  // Share of attended visits, smoothed so a single missed visit does not zero a new owner
+  static calculateScore(completed: number, noShows: number): number {
+    return Math.round(((completed + 1) / (completed + noShows + 1)) * 100);
+  }
+
+  static buildRecord(params: { completed: number; noShowDates: (Date | string)[]; now?: Date }): OwnerReliability {
+    const now = params.now || new Date();
+    const windowStart = dayjs(now).subtract(this.WINDOW_MONTHS, 'month').toDate();
+    const noShowDates = params.noShowDates
+      .map(date => new Date(date))
+      .sort((a, b) => b.getTime() - a.getTime());
+
+    return {
+      completed: params.completed,
+      noShows: noShowDates.length,
+      recentNoShows: noShowDates.filter(date => date >= windowStart).length,
+      lastNoShowAt: noShowDates[0],
+      score: this.calculateScore(params.completed, noShowDates.length),
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Decide what the owner pays online when booking. Owners who ask to pay at
+   * the visit must pay a deposit, or the full amount, once their recent
+   * no-shows reach the veterinarian's threshold.
+   */
+  static getPaymentRequirement(params: {
+    totalCost: number;
+    payAtVisit: boolean;
+    recentNoShows: number;
+    policy?: Partial<NoShowPolicy> | null;
+  }): { option: 'full' | 'deposit' | 'at_visit'; amountDue: number; rule: string } {
+    const policy = { ...this.DEFAULT_NO_SHOW_POLICY, ...(params.policy || {}) };
+
+    if (!params.payAtVisit) {
+      return { option: 'full', amountDue: params.totalCost, rule: 'prepaid' };
+    }
+
+    if (!policy.allowPayAtVisit) {
+      return { option: 'full', amountDue: params.totalCost, rule: 'pay_at_visit_not_allowed' };
+    }
+
+    if (params.recentNoShows < policy.threshold) {
+      return { option: 'at_visit', amountDue: 0, rule: 'pay_at_visit' };
+    }
+
+    if (policy.requirement === 'prepayment') {
+      return { option: 'full', amountDue: params.totalCost, rule: 'prepayment_required' };
+    }
+
+    return {
+      option: 'deposit',
+      amountDue: Math.round(params.totalCost * policy.depositPercentage) / 100,
+      rule: 'deposit_required'
+    };
+  }
+}
+
+// ===========================================
+// CALENDAR EXPORT (ICS)
+// ===========================================
+
+export class CalendarUtils {
+  static readonly PRODUCT_ID = '-//Doggo//Doggo Platform//IT';
+  static readonly UID_DOMAIN = 'doggo.app';
+
+  // 20261020T090000Z
+  static formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  // 20261020, used for all-day entries
+  static formatDate(date: Date): string {
+    return `${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`;
+  }
+
+  static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Lines longer than 75 octets must be folded (RFC 5545 3.1).
+   * Counts UTF-8 bytes so accented Italian text is not split mid-character.
+   */
+  static foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const charBytes = encoder.encode(char).length;
+      // Continuation lines start with a space, which counts towards the limit
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + charBytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += charBytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  static buildEvent(event: CalendarEvent): string[] {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${this.formatDateTime(new Date())}`,
+    ];
+
+    if (event.allDay) {
+      const end = new Date(event.start);
+      end.setDate(end.getDate() + 1);
+      lines.push(`DTSTART;VALUE=DATE:${this.formatDate(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${this.formatDate(event.end || end)}`);
+    } else {
+      lines.push(`DTSTART:${this.formatDateTime(event.start)}`);
+      lines.push(`DTEND:${this.formatDateTime(event.end || new Date(event.start.getTime() + 30 * 60000))}`);
+    }
+
+    lines.push(`SUMMARY:${this.escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${this.escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+    lines.push(`SEQUENCE:${event.sequence || 0}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${this.formatDateTime(event.lastModified)}`);
+    lines.push('END:VEVENT');
+
+    return lines;
+  }
+
+  static buildCalendar(
+    events: CalendarEvent[],
+    options: { name?: string; method?: 'PUBLISH' | 'REQUEST' | 'CANCEL' } = {}
+  ): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${this.PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${options.method || 'PUBLISH'}`,
+    ];
+
+    if (options.name) {
+      lines.push(`X-WR-CALNAME:${this.escapeText(options.name)}`);
+    }
+
+    for (const event of events) {
+      lines.push(...this.buildEvent(event));
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Map a booking (Prisma or Payload shape, with dog and veterinarian loaded)
+   * to a calendar entry. The UID only depends on the booking ID and the
+   * sequence grows with every reschedule, so subscribed calendars update
+   * the existing entry instead of adding a new one.
+   */
+  static bookingToEvent(booking: any, baseUrl?: string): CalendarEvent {
+    const start = new Date(booking.scheduledAt);
+    const status = (booking.status || '').toLowerCase();
+    const isCancelled = ['cancelled', 'no_show'].includes(status);
+    const reschedules = Array.isArray(booking.rescheduleHistory) ? booking.rescheduleHistory.length : 0;
+    const address = booking.veterinarian?.clinicAddress;
+
+    return {
+      uid: `booking-${booking.id}@${this.UID_DOMAIN}`,
+      start,
+      end: new Date(start.getTime() + (booking.duration || 30) * 60000),
+      summary: `Visita veterinaria - ${booking.dog?.name || 'cane'}`,
+      description: [
+        booking.veterinarian?.clinicName,
+        booking.type ? `Tipo: ${booking.type.toLowerCase()}` : null,
+        booking.symptoms ? `Sintomi: ${booking.symptoms}` : null,
+      ].filter(Boolean).join('\n'),
+      location: address ? [address.street, address.zipCode, address.city].filter(Boolean).join(', ') : undefined,
+      url: baseUrl ? `${baseUrl}/bookings/${booking.id}` : undefined,
+      status: isCancelled ? 'CANCELLED' : status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+      sequence: reschedules + (isCancelled ? 1 : 0),
+      lastModified: booking.updatedAt ? new Date(booking.updatedAt) : undefined,
+    };
+  }
+
+  static followUpToEvent(booking: any, baseUrl?: string): CalendarEvent {
+    return {
+      uid: `followup-${booking.id}@${this.UID_DOMAIN}`,
+      start: new Date(booking.followUpDate),
+      allDay: true,
+      summary: `Controllo di follow-up - ${booking.dog?.name || 'cane'}`,
+      description: booking.veterinarian?.clinicName
+        ? `Prenotare il controllo presso ${booking.veterinarian.clinicName}`
+        : undefined,
+      url: baseUrl ? `${baseUrl}/bookings/${booking.id}` : undefined,
+      lastModified: booking.updatedAt ? new Date(booking.updatedAt) : undefined,
+    };
+  }
+
+  static eventToCalendarEvent(event: any, participationStatus?: string, baseUrl?: string): CalendarEvent {
+    const isCancelled = participationStatus === 'cancelled' || event.isActive === false;
+
+    return {
+      uid: `event-${event.id}@${this.UID_DOMAIN}`,
+      start: new Date(event.startDate),
+      end: new Date(event.endDate),
+      summary: event.title,
+      description: event.description,
+      location: event.location?.address,
+      url: baseUrl ? `${baseUrl}/events/${event.id}` : undefined,
+      status: isCancelled ? 'CANCELLED' : 'CONFIRMED',
+      sequence: isCancelled ? 1 : 0,
+      lastModified: event.updatedAt ? new Date(event.updatedAt) : undefined,
+    };
+  }
+}
+
+// ===========================================
+// GEOLOCATION UTILITIES
+// ===========================================
+
+export class GeoUtils {
+  /**
+   * Calculate distance between two points using Haversine formula
+   * @param point1 First coordinate
+   * @param point2 Second coordinate
+   * @returns Distance in kilometers
+   */
+  static calculateDistance(point1: LocationPoint, point2: LocationPoint): number {
+    const R = 6371; // Earth's radius in kilometers
+    const dLat = this.toRadians(point2.latitude - point1.latitude);
+    const dLon = this.toRadians(point2.longitude - point1.longitude);
+    
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(this.toRadians(point1.latitude)) * Math.cos(this.toRadians(point2.latitude)) *
+      Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+  }
+
+  private static toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+
+  /**
+   * Find points within radius of a center point
+   */
+  static filterByRadius<T extends { coordinates: LocationPoint }>(
+    points: T[],
+    center: LocationPoint,
+    radiusKm: number
+  ): (T & { distance: number })[] {
+    return points
+      .map(point => ({
+        ...point,
+        distance: this.calculateDistance(center, point.coordinates)
+      }))
+      .filter(point => point.distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Generate bounding box for a point with radius
+   */
+  static getBoundingBox(center: LocationPoint, radiusKm: number) {
+    const lat = center.latitude;
+    const lon = center.longitude;
+    const latDelta = radiusKm / 111.32; // 1 degree lat = ~111.32 km
+    const lonDelta = radiusKm / (111.32 * Math.cos(lat * Math.PI / 180));
+
+    return {
+      north: lat + latDelta,
+      south: lat - latDelta,
+      east: lon + lonDelta,
+      west: lon - lonDelta
+    };
+  }
+}
+
+// ===========================================
+// VALIDATION UTILITIES
+// ===========================================
+
+export class ValidationUtils {
+  static validateItalianPhone(phone: string): boolean {
+    // Italian phone number validation
+    const italianPhoneRegex = /^(\+39|0039|39)?[\s]?([0-9]{2,4})[\s]?([0-9]{6,8})$/;
+    return italianPhoneRegex.test(phone);
+  }
+
+  static validateMicrochip(microchip: string): boolean {
+    // ISO 11784/11785 standard (15 digits)
+    return /^\d{15}$/.test(microchip);
+  }
+
+  static validateItalianPostalCode(postalCode: string): boolean {
+    return /^\d{5}$/.test(postalCode);
+  }
+
+  static validateVeterinarianLicense(license: string): boolean {
+    // Italian veterinarian license format (example)
+    return /^VET\d{6}$/.test(license);
+  }
+
+  static sanitizeHtml(html: string): string {
+    return html
+      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+      .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
+      .replace(/on\w+="[^"]*"/gi, '');
+  }
+
+  static isStrongPassword(password: string): boolean {
+    const strongPasswordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
+    return strongPasswordRegex.test(password);
+  }
+}
+
+// ===========================================
+// TRIAGE SYSTEM
+// ===========================================
+
+export class TriageSystem {
+  // Built-in question bank; versions edited in the CMS are numbered after it
+  static readonly DEFAULT_VERSION = 1;
+
+  private static questions: TriageQuestion[] = [
+    {
+      id: 'breathing_difficulty',
+      question: 'Il cane ha difficoltà respiratorie?',
+      type: 'boolean',
+      weight: 10,
+      category: 'symptoms',
+      redFlag: { answers: [true] }
+    },
+    {
+      id: 'consciousness',
+      question: 'Il cane è cosciente e reattivo?',
+      type: 'boolean',
+      weight: 9,
+      category: 'symptoms',
+      scoring: { inverted: true },
+      redFlag: { answers: [false] }
+    },
+    {
+      id: 'bleeding',
+      question: 'È presente sanguinamento?',
+      type: 'multiple',
+      options: ['Nessuno', 'Lieve', 'Moderato', 'Grave'],
+      weight: 8,
+      category: 'symptoms',
+      scoring: { optionWeights: [0, 1 / 3, 2 / 3, 1] }
+    },
+    // Follow-ups carry no weight so that scores of version 1 stay as they were
+    {
+      id: 'bleeding_location',
+      question: 'Da dove sanguina?',
+      type: 'multiple',
+      options: ['Zampe o coda', 'Testa', 'Bocca o naso', 'Torace o addome'],
+      weight: 0,
+      category: 'symptoms',
+      showIf: { questionId: 'bleeding', answers: ['Grave'] }
+    },
+    {
+      id: 'bleeding_duration',
+      question: 'Da quanto tempo sanguina?',
+      type: 'multiple',
+      options: ['Meno di 5 minuti', '5-10 minuti', 'Più di 10 minuti', 'Non si ferma'],
+      weight: 0,
+      category: 'symptoms',
+      showIf: { questionId: 'bleeding', answers: ['Grave'] },
+      redFlag: { answers: ['Più di 10 minuti', 'Non si ferma'] }
+    },
+    {
+      id: 'pain_level',
+      question: 'Livello di dolore percepito (1-10)',
+      type: 'scale',
+      weight: 7,
+      category: 'symptoms',
+      scoring: { scale: { min: 0, max: 10 } }
+    },
+    {
+      id: 'vomiting',
+      question: 'Ha vomitato nelle ultime 24 ore?',
+      type: 'boolean',
+      weight: 5,
+      category: 'symptoms'
+    },
+    {
+      id: 'appetite',
+      question: 'Ha appetito normale?',
+      type: 'boolean',
+      weight: 4,
+      category: 'behavior',
+      scoring: { inverted: true }
+    },
+    {
+      id: 'mobility',
+      question: 'Ha difficoltà a camminare?',
+      type: 'boolean',
+      weight: 6,
+      category: 'symptoms'
+    },
+    {
+      id: 'previous_issues',
+      question: 'Ha avuto problemi simili in passato?',
+      type: 'boolean',
+      weight: 3,
+      category: 'history'
+    }
+  ];
+
+  // Breeds with short muzzles, for whom breathing trouble escalates quickly
+  static readonly BRACHYCEPHALIC_BREEDS = [
+    'bulldog', 'carlino', 'pug', 'boxer', 'shih tzu', 'boston terrier', 'pechinese', 'pekingese',
+    'cavalier king charles', 'lhasa apso', 'dogue de bordeaux', 'shar pei', 'chow chow'
+  ];
+
+  // Conditions looked for in the dog's medical notes, in Italian or English
+  private static readonly CONDITION_MODIFIERS: Array<TriageRiskModifier & { keywords: string[] }> = [
+    {
+      id: 'cardiac_condition',
+      label: 'Cardiopatia nota',
+      keywords: ['cardiopat', 'cardiac', 'heart', 'soffio', 'murmur'],
+      multipliers: { breathing_difficulty: 1.5, consciousness: 1.3 }
+    },
+    {
+      id: 'diabetes',
+      label: 'Diabete',
+      keywords: ['diabet'],
+      multipliers: { vomiting: 1.5, appetite: 1.5, consciousness: 1.3 }
+    },
+    {
+      id: 'epilepsy',
+      label: 'Epilessia',
+      keywords: ['epiless', 'epilep', 'convulsion', 'seizure'],
+      multipliers: { consciousness: 1.5 }
+    },
+    {
+      id: 'kidney_disease',
+      label: 'Insufficienza renale',
+      keywords: ['renal', 'kidney'],
+      multipliers: { vomiting: 1.3, appetite: 1.3 }
+    }
+  ];
+
+  /**
+   * Risk factors that apply to a dog, from its age, breed, size and the
+   * conditions mentioned in its medical notes.
+   */
+  static getRiskModifiers(dog: TriageDogProfile, now: Date = new Date()): TriageRiskModifier[] {
+    const modifiers: TriageRiskModifier[] = [];
+
+    if (dog.birthDate) {
+      const ageInMonths = dayjs(now).diff(dayjs(dog.birthDate), 'month');
+
+      if (ageInMonths < 6) {
+        modifiers.push({
+          id: 'young_puppy',
+          label: 'Cucciolo sotto i 6 mesi',
+          multipliers: { vomiting: 1.8, appetite: 1.5, consciousness: 1.3 }
+        });
+      } else if (ageInMonths >= 120) {
+        modifiers.push({
+          id: 'senior',
+          label: 'Cane anziano (10 anni o più)',
+          multipliers: { breathing_difficulty: 1.2, consciousness: 1.3, mobility: 1.2 }
+        });
+      }
+    }
+
+    const breed = (dog.breed || '').toLowerCase();
+    if (this.BRACHYCEPHALIC_BREEDS.some(brachycephalic => breed.includes(brachycephalic))) {
+      modifiers.push({
+        id: 'brachycephalic',
+        label: 'Razza brachicefala',
+        multipliers: { breathing_difficulty: 1.5 }
+      });
+    }
+
+    // Deep-chested large dogs that vomit may have a gastric torsion
+    if (dog.size === 'large' || dog.size === 'giant') {
+      modifiers.push({
+        id: 'large_breed',
+        label: 'Taglia grande: rischio torsione gastrica',
+        multipliers: { vomiting: 1.4 }
+      });
+    }
+
+    const notes = (dog.medicalNotes || '').toLowerCase();
+    for (const { keywords, ...modifier } of this.CONDITION_MODIFIERS) {
+      if (keywords.some(keyword => notes.includes(keyword))) {
+        modifiers.push(modifier);
+      }
+    }
+
+    return modifiers;
+  }
+
+  /**
+   * Score responses against a question bank, by default the built-in one.
+   * Pass the questionnaire a booking was triaged with to reproduce its score,
+   * and the dog to weigh answers by its risk factors.
+   */
+  static calculateTriageScore(
+    responses: TriageResponse[],
+    questionnaire: TriageQuestionnaire = this.getDefaultQuestionnaire(),
+    dog?: TriageDogProfile
+  ): TriageResult {
+    let totalScore = 0;
+    let maxPossibleScore = 0;
+
+    const riskModifiers = dog ? this.getRiskModifiers(dog) : [];
+    const addedPoints = new Map<string, { points: number; questionIds: string[] }>();
+
+    questionnaire.questions.forEach(question => {
+      // Follow-ups that were never asked do not count towards the maximum
+      if (!this.isQuestionAsked(question, responses)) return;
+
+      maxPossibleScore += question.weight;
+      const response = responses.find(r => r.questionId === question.id);
+      
+      if (!response) return;
+
+      const points = this.scoreAnswer(question, response.answer);
+      totalScore += points;
+      if (points === 0) return;
+
+      // Each modifier adds its share on top of the base points
+      for (const modifier of riskModifiers) {
+        const factor = modifier.multipliers[question.id];
+        if (!factor || factor <= 1) continue;
+
+        const effect = addedPoints.get(modifier.id) || { points: 0, questionIds: [] };
+        effect.points += points * (factor - 1);
+        effect.questionIds.push(question.id);
+        addedPoints.set(modifier.id, effect);
+        totalScore += points * (factor - 1);
+      }
+    });
+
+    const normalizedScore = maxPossibleScore > 0 ? Math.min(100, Math.round((totalScore / maxPossibleScore) * 100)) : 0;
+
+    const modifiers: TriageModifierEffect[] = riskModifiers
+      .filter(modifier => addedPoints.has(modifier.id))
+      .map(modifier => ({
+        id: modifier.id,
+        label: modifier.label,
+        questionIds: addedPoints.get(modifier.id)!.questionIds,
+        scoreChange: Math.round((addedPoints.get(modifier.id)!.points / maxPossibleScore) * 1000) / 10
+      }));
+    
+    const urgencyLevel: TriageResult['urgencyLevel'] =
+      normalizedScore >= 80 ? 'critical' :
+      normalizedScore >= 60 ? 'high' :
+      normalizedScore >= 30 ? 'medium' : 'low';
+
+    return {
+      questionnaireVersion: questionnaire.version,
+      score: normalizedScore,
+      ...this.getGuidance(urgencyLevel),
+      ...(dog && { modifiers })
+    };
+  }
+
+  private static getGuidance(urgencyLevel: TriageResult['urgencyLevel']) {
+    const guidance: Record<TriageResult['urgencyLevel'], Pick<TriageResult,
+      'recommendations' | 'suggestedActions' | 'veterinarianRequired' | 'emergencyServices' | 'recommendation'>> = {
+      critical: {
+        recommendations: [
+          'Contattare immediatamente i servizi di emergenza veterinaria',
+          'Non spostare il cane se non necessario',
+          'Mantenere il cane calmo e al caldo'
+        ],
+        suggestedActions: ['Chiamare emergenza veterinaria', 'Prepararsi al trasporto'],
+        veterinarianRequired: true,
+        emergencyServices: true,
+        recommendation: {
+          channel: 'emergency',
+          bookingType: 'urgent',
+          withinHours: 0,
+          label: 'Emergenza: recarsi subito in una clinica veterinaria'
+        }
+      },
+      high: {
+        recommendations: [
+          'Consultare un veterinario entro 2-4 ore',
+          'Monitorare attentamente i sintomi',
+          'Non somministrare farmaci senza consulto'
+        ],
+        suggestedActions: ['Prenotare visita urgente', 'Preparare documenti sanitari'],
+        veterinarianRequired: true,
+        emergencyServices: false,
+        recommendation: {
+          channel: 'in_person',
+          bookingType: 'urgent',
+          withinHours: 4,
+          label: 'Visita urgente in clinica entro 4 ore'
+        }
+      },
+      medium: {
+        recommendations: [
+          'Consultare un veterinario entro 24-48 ore',
+          'Tenere sotto osservazione',
+          'Offrire acqua e cibo leggero se gradito'
+        ],
+        suggestedActions: ['Prenotare visita', 'Monitorare sintomi'],
+        veterinarianRequired: true,
+        emergencyServices: false,
+        recommendation: {
+          channel: 'in_person',
+          bookingType: 'general',
+          withinHours: 48,
+          label: 'Visita in clinica entro 48 ore'
+        }
+      },
+      low: {
+        recommendations: [
+          'Situazione non urgente',
+          'Continuare a monitorare',
+          'Consultare il veterinario se i sintomi peggiorano'
+        ],
+        suggestedActions: ['Monitoraggio domestico', 'Consultazione opzionale'],
+        veterinarianRequired: false,
+        emergencyServices: false,
+        recommendation: {
+          channel: 'telemedicine',
+          bookingType: 'telemedicine',
+          withinHours: 24,
+          label: 'Consulto in telemedicina in giornata'
+        }
+      }
+    };
+
+    return { urgencyLevel, ...guidance[urgencyLevel] };
+  }
+
+  /**
+   * Ways a booking departs from the triage recommendation, so the owner can
+   * be warned: an emergency booked as a regular visit, a video call when the
+   * dog needs to be examined, or a date later than advised.
+   */
+  static checkBookingAgainstRecommendation(
+    recommendation: TriageRecommendation,
+    booking: { type: string; scheduledAt: Date | string },
+    now: Date = new Date()
+  ): string[] {
+    const warnings: string[] = [];
+
+    if (recommendation.channel === 'emergency') {
+      warnings.push('EMERGENCY_RECOMMENDED');
+    } else if (recommendation.channel === 'in_person' && booking.type === 'telemedicine') {
+      warnings.push('IN_PERSON_RECOMMENDED');
+    }
+
+    const hoursUntil = (new Date(booking.scheduledAt).getTime() - now.getTime()) / 3600000;
+    if (recommendation.channel !== 'emergency' && hoursUntil > recommendation.withinHours) {
+      warnings.push('LATER_THAN_RECOMMENDED');
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Where an adaptive triage stands after the answers so far: the next
+   * question to ask, or the result once every applicable question is
+   * answered. A red-flag answer ends it straight away as an emergency.
+   */
+  static evaluateSession(
+    responses: TriageResponse[],
+    questionnaire: TriageQuestionnaire = this.getDefaultQuestionnaire(),
+    dog?: TriageDogProfile
+  ): { status: 'in_progress' | 'completed' | 'emergency'; nextQuestion: TriageQuestion | null; result: TriageResult | null } {
+    const redFlag = this.findRedFlag(responses, questionnaire);
+    if (redFlag) {
+      const result = this.calculateTriageScore(responses, questionnaire, dog);
+      return {
+        status: 'emergency',
+        nextQuestion: null,
+        result: { ...result, ...this.getGuidance('critical'), redFlag }
+      };
+    }
+
+    const nextQuestion = this.getNextQuestion(responses, questionnaire);
+    if (nextQuestion) {
+      return { status: 'in_progress', nextQuestion, result: null };
+    }
+
+    return { status: 'completed', nextQuestion: null, result: this.calculateTriageScore(responses, questionnaire, dog) };
+  }
+
+  // First question, in questionnaire order, that applies and is still unanswered
+  static getNextQuestion(responses: TriageResponse[], questionnaire: TriageQuestionnaire): TriageQuestion | null {
+    return questionnaire.questions.find(question =>
+      !responses.some(response => response.questionId === question.id) &&
+      this.isQuestionAsked(question, responses)
+    ) || null;
+  }
+
+  static findRedFlag(responses: TriageResponse[], questionnaire: TriageQuestionnaire): TriageResponse | null {
+    for (const response of responses) {
+      const question = questionnaire.questions.find(q => q.id === response.questionId);
+      if (question?.redFlag && this.matchesAnswer(question.redFlag, response.answer)) {
+        return response;
+      }
+    }
+    return null;
+  }
+
+  static isQuestionAsked(question: TriageQuestion, responses: TriageResponse[]): boolean {
+    if (!question.showIf) return true;
+    const trigger = responses.find(response => response.questionId === question.showIf!.questionId);
+    return !!trigger && this.matchesAnswer(question.showIf, trigger.answer);
+  }
+
+  static matchesAnswer(match: TriageAnswerMatch, answer: TriageResponse['answer']): boolean {
+    if (match.answers?.includes(answer)) return true;
+    return match.min !== undefined && typeof answer === 'number' && answer >= match.min;
+  }
+
+  static isValidAnswer(question: TriageQuestion, answer: TriageResponse['answer']): boolean {
+    if (question.type === 'boolean') return typeof answer === 'boolean';
+    if (question.type === 'multiple') return (question.options || []).includes(answer as string);
+
+    const { min, max } = question.scoring?.scale || { min: 0, max: 10 };
+    return typeof answer === 'number' && answer >= min && answer <= max;
+  }
+
+  // Points an answer earns, from 0 to the question's weight, following its scoring rule
+  static scoreAnswer(question: TriageQuestion, answer: TriageResponse['answer']): number {
+    const scoring = question.scoring || {};
+
+    if (question.type === 'boolean') {
+      const worrying = scoring.inverted ? answer === false : answer === true;
+      return worrying ? question.weight : 0;
+    }
+
+    if (question.type === 'scale') {
+      const { min, max } = scoring.scale || { min: 0, max: 10 };
+      if (max <= min) return 0;
+      const fraction = (Number(answer) - min) / (max - min);
+      return Math.min(1, Math.max(0, fraction)) * question.weight;
+    }
+
+    if (question.type === 'multiple') {
+      const options = question.options || [];
+      const answerIndex = options.indexOf(answer as string);
+      if (answerIndex < 0) return 0;
+
+      const optionWeight = scoring.optionWeights?.[answerIndex]
+        ?? (options.length > 1 ? answerIndex / (options.length - 1) : 0);
+      return optionWeight * question.weight;
+    }
+
+    return 0;
+  }
+
+  static getQuestions(): TriageQuestion[] {
+    return this.questions;
+  }
+
+  static getDefaultQuestionnaire(): TriageQuestionnaire {
+    return { version: this.DEFAULT_VERSION, questions: this.questions };
+  }
+}
+
+// ===========================================
+// PRESCRIPTIONS (REV)
+// ===========================================
+
+export class PrescriptionUtils {
+  static readonly QR_PREFIX = 'REV1:';
+
+  // Ed25519 keys exported as base64 DER, short enough to travel inside the QR code
+  static generateKeyPair(): { publicKey: string; privateKey: string; fingerprint: string } {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const publicKeyDer = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+
+    return {
+      publicKey: publicKeyDer,
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64'),
+      fingerprint: this.getKeyFingerprint(publicKeyDer),
+    };
+  }
+
+  static getKeyFingerprint(publicKey: string): string {
+    return CryptoUtils.getKeyFingerprint(publicKey);
+  }
+
+  static generateNumber(date: Date = new Date()): string {
+    return `REV-${dayjs(date).format('YYYYMMDD')}-${randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+
+  static canonicalize(prescription: PrescriptionSigningPayload): string {
+    return CryptoUtils.canonicalize(prescription);
+  }
+
+  static sign(prescription: PrescriptionSigningPayload, privateKey: string): string {
+    return CryptoUtils.signCanonical(prescription, privateKey);
+  }
+
+  static verify(prescription: PrescriptionSigningPayload, signature: string, publicKey: string): boolean {
+    return CryptoUtils.verifyCanonical(prescription, signature, publicKey);
+  }
+
+  static buildQrPayload(prescription: PrescriptionSigningPayload, signature: string, publicKey: string): string {
+    const content = JSON.stringify({ p: prescription, s: signature, k: publicKey });
+    return `${this.QR_PREFIX}${Buffer.from(content).toString('base64url')}`;
+  }
+
+  static parseQrPayload(qrCode: string): PrescriptionQrPayload | null {
+    if (!qrCode?.startsWith(this.QR_PREFIX)) return null;
+
+    try {
+      const content = JSON.parse(Buffer.from(qrCode.slice(this.QR_PREFIX.length), 'base64url').toString('utf8'));
+      if (!content?.p || typeof content.s !== 'string' || typeof content.k !== 'string') return null;
+
+      return { prescription: content.p, signature: content.s, publicKey: content.k };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check a scanned QR code without calling the platform. Pass the fingerprints
+   * of the keys registered for the prescriber to reject self-signed copies.
+   */
+  static verifyQrPayload(
+    qrCode: string,
+    options: { trustedFingerprints?: string[]; now?: Date } = {}
+  ): PrescriptionVerification {
+    const payload = this.parseQrPayload(qrCode);
+    if (!payload) {
+      return { valid: false, reason: 'MALFORMED' };
+    }
+
+    const { prescription, signature, publicKey } = payload;
+    const fingerprint = this.getKeyFingerprint(publicKey);
+
+    if (!this.verify(prescription, signature, publicKey)) {
+      return { valid: false, reason: 'INVALID_SIGNATURE', prescription, fingerprint };
+    }
+
+    if (options.trustedFingerprints && !options.trustedFingerprints.includes(fingerprint)) {
+      return { valid: false, reason: 'UNTRUSTED_KEY', prescription, fingerprint };
+    }
+
+    if (new Date(prescription.validUntil) < (options.now || new Date())) {
+      return { valid: false, reason: 'EXPIRED', prescription, fingerprint };
+    }
+
+    return { valid: true, prescription, fingerprint };
+  }
+
+  // Above this multiple of the formulary maximum a dose is refused outright
+  static readonly DOSE_BLOCK_FACTOR = 2;
+
+  // Fixed dose per administration in mg, e.g. "250 mg" or "0,5 g"; per-kg dosages are not fixed
+  static parseDoseMg(dosage: string): number | null {
+    const match = (dosage || '')
+      .toLowerCase()
+      .replace(/(\d),(\d)/g, '$1.$2')
+      .match(/(\d+(?:\.\d+)?)\s*(mcg|µg|mg|g)(?![a-z])(?!\s*\/\s*kg)/);
+    if (!match) return null;
+
+    const value = parseFloat(match[1]);
+    const factors: Record<string, number> = { mcg: 0.001, 'µg': 0.001, mg: 1, g: 1000 };
+    return Math.round(value * factors[match[2]] * 1000) / 1000;
+  }
+
+  static findFormularyDrug(formulary: FormularyDrug[], activeIngredient: string, drugName?: string): FormularyDrug | undefined {
+    const names = [activeIngredient, drugName]
+      .filter((name): name is string => Boolean(name))
+      .map(name => name.trim().toLowerCase());
+    return formulary.find(drug =>
+      [drug.activeIngredient, ...(drug.aliases || [])].some(name => names.includes(name.trim().toLowerCase()))
+    );
+  }
+
+  /**
+   * Checks a new prescription against the formulary, the dog and the
+   * prescriptions it is already on. Warnings can be overridden by the vet
+   * with a reason; blocks cannot.
+   */
+  static checkSafety(params: {
+    activeIngredient: string;
+    drugName?: string;
+    doseMg?: number | null;
+    dog: { weight?: number; birthDate?: Date | string; medicalNotes?: string };
+    activePrescriptions: Array<{ number?: string; drugName: string; activeIngredient: string }>;
+    formulary: FormularyDrug[];
+    now?: Date;
+  }): PrescriptionSafetyWarning[] {
+    const warnings: PrescriptionSafetyWarning[] = [];
+    const drug = this.findFormularyDrug(params.formulary, params.activeIngredient, params.drugName);
+
+    if (!drug) {
+      warnings.push({
+        code: 'NOT_IN_FORMULARY',
+        severity: 'warning',
+        message: `${params.activeIngredient} non è nel prontuario: dosaggio e interazioni non verificati`,
+      });
+    }
+
+    if (drug?.doseRange) {
+      warnings.push(...this.checkDose(drug, params.doseMg, params.dog.weight));
+    }
+
+    if (drug?.minAgeMonths && params.dog.birthDate) {
+      const ageMonths = dayjs(params.now || new Date()).diff(dayjs(params.dog.birthDate), 'month');
+      if (ageMonths < drug.minAgeMonths) {
+        warnings.push({
+          code: 'TOO_YOUNG',
+          severity: 'warning',
+          message: `${drug.name} è indicato dai ${drug.minAgeMonths} mesi di età; il cane ne ha ${ageMonths}`,
+          details: { ageMonths, minAgeMonths: drug.minAgeMonths },
+        });
+      }
+    }
+
+    for (const active of params.activePrescriptions) {
+      const severity = this.getInteractionSeverity(params, drug, active, params.formulary);
+      if (severity) {
+        warnings.push({
+          code: 'INTERACTION',
+          severity: severity.severity,
+          message: `Interazione con ${active.drugName} (${active.activeIngredient}) già prescritto${severity.note ? `: ${severity.note}` : ''}`,
+          details: { prescriptionNumber: active.number, activeIngredient: active.activeIngredient },
+        });
+      }
+    }
+
+    const allergy = this.findAllergy(params.activeIngredient, drug, params.dog.medicalNotes);
+    if (allergy) {
+      warnings.push(allergy);
+    }
+
+    return warnings;
+  }
+
+  private static checkDose(drug: FormularyDrug, doseMg: number | null | undefined, weight?: number): PrescriptionSafetyWarning[] {
+    if (!drug.doseRange) return [];
+    const { minMgPerKg, maxMgPerKg } = drug.doseRange;
+
+    if (!weight) {
+      return [{
+        code: 'WEIGHT_UNKNOWN',
+        severity: 'warning',
+        message: 'Peso del cane non disponibile: impossibile verificare il dosaggio',
+      }];
+    }
+
+    if (doseMg == null) {
+      return [{
+        code: 'DOSE_UNKNOWN',
+        severity: 'warning',
+        message: `Indicare la dose in mg per verificarla (${minMgPerKg}-${maxMgPerKg} mg/kg)`,
+      }];
+    }
+
+    const mgPerKg = Math.round((doseMg / weight) * 100) / 100;
+    const details = { doseMg, weight, mgPerKg, minMgPerKg, maxMgPerKg };
+
+    if (mgPerKg > maxMgPerKg) {
+      return [{
+        code: 'DOSE_ABOVE_RANGE',
+        severity: mgPerKg > maxMgPerKg * this.DOSE_BLOCK_FACTOR ? 'block' : 'warning',
+        message: `Dose di ${mgPerKg} mg/kg oltre il massimo di ${maxMgPerKg} mg/kg per ${drug.name}`,
+        details,
+      }];
+    }
+
+    if (mgPerKg < minMgPerKg) {
+      return [{
+        code: 'DOSE_BELOW_RANGE',
+        severity: 'warning',
+        message: `Dose di ${mgPerKg} mg/kg sotto il minimo di ${minMgPerKg} mg/kg per ${drug.name}`,
+        details,
+      }];
+    }
+
+    return [];
+  }
+
+  // Interactions may be recorded on either drug's formulary entry; the stricter one wins
+  private static getInteractionSeverity(
+    prescribed: { activeIngredient: string },
+    drug: FormularyDrug | undefined,
+    active: { drugName: string; activeIngredient: string },
+    formulary: FormularyDrug[]
+  ): { severity: PrescriptionSafetySeverity; note?: string } | null {
+    const activeDrug = this.findFormularyDrug(formulary, active.activeIngredient, active.drugName);
+    const matches = (interaction: { activeIngredient: string }, target: FormularyDrug | undefined, fallback: string) =>
+      [target?.activeIngredient, ...(target?.aliases || []), fallback]
+        .filter((name): name is string => Boolean(name))
+        .some(name => name.trim().toLowerCase() === interaction.activeIngredient.trim().toLowerCase());
+
+    const found = [
+      ...(drug?.interactions || []).filter(interaction => matches(interaction, activeDrug, active.activeIngredient)),
+      ...(activeDrug?.interactions || []).filter(interaction => matches(interaction, drug, prescribed.activeIngredient)),
+    ];
+    if (found.length === 0) return null;
+
+    return found.find(interaction => interaction.severity === 'block') || found[0];
+  }
+
+  // Only sentences of the medical notes that talk about allergies are considered
+  private static findAllergy(activeIngredient: string, drug: FormularyDrug | undefined, medicalNotes?: string): PrescriptionSafetyWarning | null {
+    const allergyNotes = (medicalNotes || '')
+      .toLowerCase()
+      .split(/[.;\n]/)
+      .filter(sentence => sentence.includes('allerg'));
+    if (allergyNotes.length === 0) return null;
+
+    const ingredients = [activeIngredient, drug?.activeIngredient, ...(drug?.aliases || [])]
+      .filter((name): name is string => Boolean(name))
+      .map(name => name.trim().toLowerCase());
+    const ingredientNote = allergyNotes.find(sentence => ingredients.some(name => sentence.includes(name)));
+    if (ingredientNote) {
+      return {
+        code: 'ALLERGY',
+        severity: 'block',
+        message: `Allergia a ${activeIngredient} riportata nelle note mediche`,
+        details: { note: ingredientNote.trim() },
+      };
+    }
+
+    const keywords = (drug?.allergyKeywords || []).map(keyword => keyword.trim().toLowerCase());
+    const classNote = allergyNotes.find(sentence => keywords.some(keyword => sentence.includes(keyword)));
+    if (classNote) {
+      return {
+        code: 'ALLERGY',
+        severity: 'warning',
+        message: `Possibile allergia alla classe di ${activeIngredient} riportata nelle note mediche`,
+        details: { note: classNote.trim() },
+      };
+    }
 
-  static calculateAge(birthDate: Date): { years: number; months: number } {
-    const now = dayjs();
-    const birth = dayjs(birthDate);
-    const years = now.diff(birth, 'year');
-    const months = now.diff(birth.add(years, 'year'), 'month');
-    return { years, months };
+    return null;
   }
 }
 
 // ===========================================
-// GEOLOCATION UTILITIES
+// MEDICAL RECORD
 // ===========================================
 
-export class GeoUtils {
-  /**
-   * Calculate distance between two points using Haversine formula
-   * @param point1 First coordinate
-   * @param point2 Second coordinate
-   * @returns Distance in kilometers
-   */
-  static calculateDistance(point1: LocationPoint, point2: LocationPoint): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(point2.latitude - point1.latitude);
-    const dLon = this.toRadians(point2.longitude - point1.longitude);
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(point1.latitude)) * Math.cos(this.toRadians(point2.latitude)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
+type MedicalRecordItem = {
+  type: string;
+  title: string;
+  status?: string | null;
+  recordedAt: Date | string;
+  endDate?: Date | string | null;
+  details?: { vaccineCode?: string | null; weightKg?: number | null } | null;
+};
 
-  private static toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
-  }
+export class MedicalRecordUtils {
+  static readonly RECENT_LAB_RESULTS = 5;
 
-  /**
-   * Find points within radius of a center point
-   */
-  static filterByRadius<T extends { coordinates: LocationPoint }>(
-    points: T[],
-    center: LocationPoint,
-    radiusKm: number
-  ): (T & { distance: number })[] {
-    return points
-      .map(point => ({
-        ...point,
-        distance: this.calculateDistance(center, point.coordinates)
-      }))
-      .filter(point => point.distance <= radiusKm)
-      .sort((a, b) => a.distance - b.distance);
+  // Newest first, as the timeline is shown
+  static sortTimeline<T extends MedicalRecordItem>(entries: T[]): T[] {
+    return [...entries].sort((a, b) => new Date(b.recordedAt).getTime() - new Date(a.recordedAt).getTime());
   }
 
   /**
-   * Generate bounding box for a point with radius
+   * The dog's current health picture: what is still active, the latest dose
+   * of each vaccine and the weight curve.
    */
-  static getBoundingBox(center: LocationPoint, radiusKm: number) {
-    const lat = center.latitude;
-    const lon = center.longitude;
-    const latDelta = radiusKm / 111.32; // 1 degree lat = ~111.32 km
-    const lonDelta = radiusKm / (111.32 * Math.cos(lat * Math.PI / 180));
+  static buildSummary<T extends MedicalRecordItem>(entries: T[], now: Date = new Date()): MedicalRecordSummary<T> {
+    const timeline = this.sortTimeline(entries);
+    const ofType = (type: string) => timeline.filter(entry => entry.type === type);
+    const isOngoing = (entry: T) =>
+      entry.status !== 'resolved' && (!entry.endDate || new Date(entry.endDate) > now);
+
+    const vaccinations = new Map<string, T>();
+    for (const entry of ofType('vaccination')) {
+      const key = (entry.details?.vaccineCode || entry.title).toLowerCase();
+      if (!vaccinations.has(key)) vaccinations.set(key, entry);
+    }
+
+    const weightHistory = ofType('weight')
+      .flatMap(entry => {
+        const weightKg = entry.details?.weightKg;
+        return weightKg ? [{ date: new Date(entry.recordedAt).toISOString(), weightKg }] : [];
+      })
+      .reverse();
 
     return {
-      north: lat + latDelta,
-      south: lat - latDelta,
-      east: lon + lonDelta,
-      west: lon - lonDelta
+      activeProblems: ofType('problem').filter(isOngoing),
+      allergies: ofType('allergy').filter(entry => entry.status !== 'resolved'),
+      activeMedications: ofType('medication').filter(isOngoing),
+      vaccinations: Array.from(vaccinations.values()),
+      surgeries: ofType('surgery'),
+      weightHistory,
+      latestWeightKg: weightHistory[weightHistory.length - 1]?.weightKg,
+      recentLabResults: ofType('lab_result').slice(0, this.RECENT_LAB_RESULTS),
     };
   }
 }
 
 // ===========================================
-// VALIDATION UTILITIES
+// VACCINATION SCHEDULE
 // ===========================================
 
-export class ValidationUtils {
-  static validateItalianPhone(phone: string): boolean {
-    // Italian phone number validation
-    const italianPhoneRegex = /^(\+39|0039|39)?[\s]?([0-9]{2,4})[\s]?([0-9]{6,8})$/;
-    return italianPhoneRegex.test(phone);
-  }
+type VaccinationDose = {
+  vaccineCode?: string | null;
+  title?: string | null;
+  administeredAt: Date | string;
+  nextDueDate?: Date | string | null; // Set by the vet when the product has its own duration
+};
 
-  static validateMicrochip(microchip: string): boolean {
-    // ISO 11784/11785 standard (15 digits)
-    return /^\d{15}$/.test(microchip);
+export class VaccinationUtils {
+  static readonly CERTIFICATE_PREFIX = 'VAC1:';
+  static readonly DUE_SOON_DAYS = 30;
+
+  // Doses more overdue than this with nothing ever recorded are probably done elsewhere
+  static readonly REMINDER_CUTOFF_DAYS = 90;
+
+  static readonly REMINDER_LEVELS: Array<{ level: VaccinationReminderLevel; daysFromDue: number; channels: Array<'push' | 'email' | 'sms'> }> = [
+    { level: 1, daysFromDue: -14, channels: ['push'] },
+    { level: 2, daysFromDue: 0, channels: ['push', 'email'] },
+    { level: 3, daysFromDue: 14, channels: ['push', 'email', 'sms'] },
+  ];
+
+  // WSAVA guidelines as applied in Italy; leptospirosis is recommended but not core
+  static readonly PROTOCOLS: VaccineProtocol[] = [
+    {
+      code: 'dhpp',
+      name: 'Cimurro, Epatite, Parvovirosi, Parainfluenza',
+      category: 'core',
+      aliases: ['dhp', 'dhppi', 'cimurro', 'parvovirosi', 'polivalente'],
+      startAgeWeeks: 8,
+      intervalWeeks: 4,
+      primaryDoses: 1,
+      finalDoseMinAgeWeeks: 16,
+      firstBoosterMonths: 12,
+      boosterIntervalMonths: 36,
+    },
+    {
+      code: 'rabies',
+      name: 'Rabbia',
+      category: 'core',
+      aliases: ['rabbia', 'antirabbica'],
+      startAgeWeeks: 12,
+      intervalWeeks: 4,
+      primaryDoses: 1,
+      finalDoseMinAgeWeeks: 12,
+      firstBoosterMonths: 12,
+      boosterIntervalMonths: 12,
+    },
+    {
+      code: 'leptospirosis',
+      name: 'Leptospirosi',
+      category: 'non_core',
+      aliases: ['leptospirosi', 'lepto', 'leptospira', 'l4'],
+      startAgeWeeks: 8,
+      intervalWeeks: 4,
+      primaryDoses: 2,
+      finalDoseMinAgeWeeks: 8,
+      firstBoosterMonths: 12,
+      boosterIntervalMonths: 12,
+    },
+  ];
+
+  static findProtocol(vaccine: string, protocols: VaccineProtocol[] = this.PROTOCOLS): VaccineProtocol | undefined {
+    const key = (vaccine || '').trim().toLowerCase();
+    if (!key) return undefined;
+
+    return protocols.find(protocol => protocol.code === key || protocol.aliases.includes(key));
   }
 
-  static validateItalianPostalCode(postalCode: string): boolean {
-    return /^\d{5}$/.test(postalCode);
+  /**
+   * Due date and status of every core protocol, and of the non-core ones the
+   * dog has started or the caller asks for. Doses are matched by vaccine code,
+   * falling back to the entry title.
+   */
+  static computeSchedule(
+    birthDate: Date | string,
+    doses: VaccinationDose[],
+    options: { now?: Date; includeNonCore?: boolean; protocols?: VaccineProtocol[] } = {}
+  ): VaccinationScheduleItem[] {
+    const now = options.now || new Date();
+    const protocols = options.protocols || this.PROTOCOLS;
+
+    const dosesByProtocol = new Map<string, VaccinationDose[]>();
+    for (const dose of doses) {
+      const protocol = this.findProtocol(dose.vaccineCode || '', protocols) || this.findProtocol(dose.title || '', protocols);
+      if (!protocol) continue;
+      dosesByProtocol.set(protocol.code, [...(dosesByProtocol.get(protocol.code) || []), dose]);
+    }
+
+    return protocols
+      .filter(protocol => protocol.category === 'core' || options.includeNonCore || dosesByProtocol.has(protocol.code))
+      .map(protocol => this.computeProtocol(protocol, birthDate, dosesByProtocol.get(protocol.code) || [], now));
   }
 
-  static validateVeterinarianLicense(license: string): boolean {
-    // Italian veterinarian license format (example)
-    return /^VET\d{6}$/.test(license);
+  // Reminder level an item has reached; 0 means no reminder is due yet
+  static getReminderLevel(item: VaccinationScheduleItem): VaccinationReminderLevel {
+    if (item.dosesGiven === 0 && item.daysUntilDue < -this.REMINDER_CUTOFF_DAYS) return 0;
+
+    const reached = this.REMINDER_LEVELS.filter(({ daysFromDue }) => -item.daysUntilDue >= daysFromDue);
+    return reached.length > 0 ? reached[reached.length - 1].level : 0;
   }
 
-  static sanitizeHtml(html: string): string {
-    return html
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-      .replace(/on\w+="[^"]*"/gi, '');
+  static generateCertificateNumber(date: Date = new Date()): string {
+    return `VAC-${dayjs(date).format('YYYYMMDD')}-${randomBytes(4).toString('hex').toUpperCase()}`;
   }
 
-  static isStrongPassword(password: string): boolean {
-    const strongPasswordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
-    return strongPasswordRegex.test(password);
+  static buildCertificateQrPayload(certificate: VaccinationCertificatePayload, signature: string, publicKey: string): string {
+    const content = JSON.stringify({ c: certificate, s: signature, k: publicKey });
+    return `${this.CERTIFICATE_PREFIX}${Buffer.from(content).toString('base64url')}`;
   }
-}
 
-// ===========================================
-// TRIAGE SYSTEM
-// ===========================================
+  // Pass the platform key fingerprints to reject certificates signed by anyone else
+  static verifyCertificateQrPayload(
+    qrCode: string,
+    options: { trustedFingerprints?: string[] } = {}
+  ): VaccinationCertificateVerification {
+    if (!qrCode?.startsWith(this.CERTIFICATE_PREFIX)) {
+      return { valid: false, reason: 'MALFORMED' };
+    }
 
-export class TriageSystem {
-  private static questions: TriageQuestion[] = [
-    {
-      id: 'breathing_difficulty',
-      question: 'Il cane ha difficoltà respiratorie?',
-      type: 'boolean',
-      weight: 10,
-      category: 'symptoms'
-    },
-    {
-      id: 'consciousness',
-      question: 'Il cane è cosciente e reattivo?',
-      type: 'boolean',
-      weight: 9,
-      category: 'symptoms'
-    },
-    {
-      id: 'bleeding',
-      question: 'È presente sanguinamento?',
-      type: 'multiple',
-      options: ['Nessuno', 'Lieve', 'Moderato', 'Grave'],
-      weight: 8,
-      category: 'symptoms'
-    },
-    {
-      id: 'pain_level',
-      question: 'Livello di dolore percepito (1-10)',
-      type: 'scale',
-      weight: 7,
-      category: 'symptoms'
-    },
-    {
-      id: 'vomiting',
-      question: 'Ha vomitato nelle ultime 24 ore?',
-      type: 'boolean',
-      weight: 5,
-      category: 'symptoms'
-    },
-    {
-      id: 'appetite',
-      question: 'Ha appetito normale?',
-      type: 'boolean',
-      weight: 4,
-      category: 'behavior'
-    },
-    {
-      id: 'mobility',
-      question: 'Ha difficoltà a camminare?',
-      type: 'boolean',
-      weight: 6,
-      category: 'symptoms'
-    },
-    {
-      id: 'previous_issues',
-      question: 'Ha avuto problemi simili in passato?',
-      type: 'boolean',
-      weight: 3,
-      category: 'history'
+    let content: any;
+    try {
+      content = JSON.parse(Buffer.from(qrCode.slice(this.CERTIFICATE_PREFIX.length), 'base64url').toString('utf8'));
+    } catch {
+      return { valid: false, reason: 'MALFORMED' };
+    }
+    if (!content?.c || typeof content.s !== 'string' || typeof content.k !== 'string') {
+      return { valid: false, reason: 'MALFORMED' };
     }
-  ];
 
-  static calculateTriageScore(responses: TriageResponse[]): TriageResult {
-    let totalScore = 0;
-    let maxPossibleScore = 0;
+    const certificate: VaccinationCertificatePayload = content.c;
+    const fingerprint = CryptoUtils.getKeyFingerprint(content.k);
 
-    this.questions.forEach(question => {
-      maxPossibleScore += question.weight;
-      const response = responses.find(r => r.questionId === question.id);
-      
-      if (!response) return;
+    if (!CryptoUtils.verifyCanonical(certificate, content.s, content.k)) {
+      return { valid: false, reason: 'INVALID_SIGNATURE', certificate, fingerprint };
+    }
 
-      let score = 0;
-      if (question.type === 'boolean') {
-        if (question.id === 'consciousness' || question.id === 'appetite') {
-          // Inverted scoring for positive questions
-          score = response.answer === false ? question.weight : 0;
-        } else {
-          score = response.answer === true ? question.weight : 0;
-        }
-      } else if (question.type === 'scale') {
-        score = ((response.answer as number) / 10) * question.weight;
-      } else if (question.type === 'multiple') {
-        const options = question.options || [];
-        const answerIndex = options.indexOf(response.answer as string);
-        score = (answerIndex / (options.length - 1)) * question.weight;
-      }
+    if (options.trustedFingerprints && !options.trustedFingerprints.includes(fingerprint)) {
+      return { valid: false, reason: 'UNTRUSTED_KEY', certificate, fingerprint };
+    }
 
-      totalScore += score;
-    });
+    return { valid: true, certificate, fingerprint };
+  }
 
-    const normalizedScore = Math.round((totalScore / maxPossibleScore) * 100);
-    
-    let urgencyLevel: 'low' | 'medium' | 'high' | 'critical';
-    let recommendations: string[];
-    let suggestedActions: string[];
-    let veterinarianRequired: boolean;
-    let emergencyServices: boolean;
-
-    if (normalizedScore >= 80) {
-      urgencyLevel = 'critical';
-      recommendations = [
-        'Contattare immediatamente i servizi di emergenza veterinaria',
-        'Non spostare il cane se non necessario',
-        'Mantenere il cane calmo e al caldo'
-      ];
-      suggestedActions = ['Chiamare emergenza veterinaria', 'Prepararsi al trasporto'];
-      veterinarianRequired = true;
-      emergencyServices = true;
-    } else if (normalizedScore >= 60) {
-      urgencyLevel = 'high';
-      recommendations = [
-        'Consultare un veterinario entro 2-4 ore',
-        'Monitorare attentamente i sintomi',
-        'Non somministrare farmaci senza consulto'
-      ];
-      suggestedActions = ['Prenotare visita urgente', 'Preparare documenti sanitari'];
-      veterinarianRequired = true;
-      emergencyServices = false;
-    } else if (normalizedScore >= 30) {
-      urgencyLevel = 'medium';
-      recommendations = [
-        'Consultare un veterinario entro 24-48 ore',
-        'Tenere sotto osservazione',
-        'Offrire acqua e cibo leggero se gradito'
-      ];
-      suggestedActions = ['Prenotare visita', 'Monitorare sintomi'];
-      veterinarianRequired = true;
-      emergencyServices = false;
+  private static computeProtocol(
+    protocol: VaccineProtocol,
+    birthDate: Date | string,
+    doses: VaccinationDose[],
+    now: Date
+  ): VaccinationScheduleItem {
+    const birth = dayjs(birthDate);
+    const sorted = [...doses].sort((a, b) => new Date(a.administeredAt).getTime() - new Date(b.administeredAt).getTime());
+    const ageWeeksAt = (dose: VaccinationDose) => dayjs(dose.administeredAt).diff(birth, 'week', true);
+
+    // Index of the dose that completed the primary series, if any
+    let completedAt = -1;
+    for (let i = protocol.primaryDoses - 1; i < sorted.length; i++) {
+      if (sorted.slice(0, i + 1).some(dose => ageWeeksAt(dose) >= protocol.finalDoseMinAgeWeeks)) {
+        completedAt = i;
+        break;
+      }
+    }
+
+    const last = sorted[sorted.length - 1];
+    let nextDue: dayjs.Dayjs;
+    if (!last) {
+      nextDue = birth.add(protocol.startAgeWeeks, 'week');
+    } else if (last.nextDueDate) {
+      nextDue = dayjs(last.nextDueDate);
+    } else if (completedAt < 0) {
+      nextDue = dayjs(last.administeredAt).add(protocol.intervalWeeks, 'week');
+    } else if (completedAt === sorted.length - 1) {
+      nextDue = dayjs(last.administeredAt).add(protocol.firstBoosterMonths, 'month');
     } else {
-      urgencyLevel = 'low';
-      recommendations = [
-        'Situazione non urgente',
-        'Continuare a monitorare',
-        'Consultare il veterinario se i sintomi peggiorano'
-      ];
-      suggestedActions = ['Monitoraggio domestico', 'Consultazione opzionale'];
-      veterinarianRequired = false;
-      emergencyServices = false;
+      nextDue = dayjs(last.administeredAt).add(protocol.boosterIntervalMonths, 'month');
     }
 
+    const daysUntilDue = Math.floor(nextDue.startOf('day').diff(dayjs(now).startOf('day'), 'day', true));
+
     return {
-      score: normalizedScore,
-      urgencyLevel,
-      recommendations,
-      suggestedActions,
-      veterinarianRequired,
-      emergencyServices
+      code: protocol.code,
+      name: protocol.name,
+      category: protocol.category,
+      status: daysUntilDue < 0 ? 'overdue' : daysUntilDue <= this.DUE_SOON_DAYS ? 'due_soon' : 'up_to_date',
+      dosesGiven: sorted.length,
+      primarySeriesComplete: completedAt >= 0,
+      lastDoseAt: last ? new Date(last.administeredAt).toISOString() : undefined,
+      nextDueDate: nextDue.toISOString(),
+      daysUntilDue,
     };
   }
-
-  static getQuestions(): TriageQuestion[] {
-    return this.questions;
-  }
 }
 
 // ===========================================
@@ -557,6 +2131,168 @@ export class MatchingAlgorithm {
   }
 }
 
+// ===========================================
+// LOST & FOUND MATCHING
+// ===========================================
+
+export class LostFoundMatcher {
+  static readonly WEIGHTS: Record<LostFoundCriterion, number> = {
+    breed: 20,
+    size: 15,
+    color: 15,
+    distance: 15,
+    gender: 10,
+    age: 10,
+    features: 10,
+    time: 5,
+  };
+
+  static readonly MIN_SCORE = 60;
+  static readonly MAX_DISTANCE_KM = 50;
+  static readonly MAX_DAYS_APART = 60;
+
+  // Words that say nothing about the dog itself
+  private static readonly STOP_WORDS = new Set([
+    'e', 'ed', 'con', 'senza', 'di', 'da', 'del', 'della', 'il', 'lo', 'la', 'le', 'gli', 'un', 'una', 'uno',
+    'molto', 'poco', 'cane', 'cagnolino', 'sul', 'sulla', 'sulle', 'sui', 'and', 'with', 'the',
+  ]);
+
+  // Stemmed like the descriptions they are compared with
+  private static readonly MIXED_BREEDS = ['meticci', 'incroci', 'mist', 'mix', 'mixed'];
+
+  /**
+   * Similarity between a lost and a found report, or null when they cannot be
+   * the same dog: different gender, sizes two classes apart, or too far apart
+   * in space or time.
+   */
+  static score(lost: LostFoundReport, found: LostFoundReport): LostFoundMatch | null {
+    const sizeScore = this.getSizeScore(lost.dogInfo.size, found.dogInfo.size);
+    const genderScore = this.getGenderScore(lost.dogInfo.gender, found.dogInfo.gender);
+    if (sizeScore === 0 || genderScore === 0) return null;
+
+    const distanceKm = lost.coordinates && found.coordinates
+      ? GeoUtils.calculateDistance(lost.coordinates, found.coordinates)
+      : undefined;
+    if (distanceKm !== undefined && distanceKm > this.MAX_DISTANCE_KM) return null;
+
+    // Found dogs are often reported a day or two before the owner notices
+    const daysApart = (new Date(found.reportedAt).getTime() - new Date(lost.reportedAt).getTime()) / (24 * 60 * 60 * 1000);
+    if (Math.abs(daysApart) > this.MAX_DAYS_APART) return null;
+
+    const breakdown: Record<LostFoundCriterion, number> = {
+      breed: this.getBreedScore(lost.dogInfo.breed, found.dogInfo.breed),
+      size: sizeScore,
+      color: this.getTextScore(lost.dogInfo.color, found.dogInfo.color),
+      distance: distanceKm === undefined ? 0.5 : 1 - distanceKm / this.MAX_DISTANCE_KM,
+      gender: genderScore,
+      age: this.getAgeScore(lost.dogInfo.age, found.dogInfo.age),
+      features: this.getTextScore(lost.dogInfo.distinguishingFeatures, found.dogInfo.distinguishingFeatures),
+      time: 1 - Math.abs(daysApart) / this.MAX_DAYS_APART,
+    };
+
+    const score = (Object.keys(this.WEIGHTS) as LostFoundCriterion[])
+      .reduce((total, criterion) => total + breakdown[criterion] * this.WEIGHTS[criterion], 0);
+
+    return {
+      lostReportId: lost.id,
+      foundReportId: found.id,
+      score: Math.round(score),
+      distanceKm: distanceKm === undefined ? undefined : Math.round(distanceKm * 10) / 10,
+      daysApart: Math.round(daysApart),
+      breakdown,
+    };
+  }
+
+  // Every lost/found pair above the threshold, best first; reports by the same person are skipped
+  static rankCandidates(
+    lostReports: LostFoundReport[],
+    foundReports: LostFoundReport[],
+    options: { minScore?: number; limit?: number } = {}
+  ): LostFoundMatch[] {
+    const minScore = options.minScore ?? this.MIN_SCORE;
+    const matches: LostFoundMatch[] = [];
+
+    for (const lost of lostReports) {
+      for (const found of foundReports) {
+        if (lost.id === found.id || (lost.reporterId && lost.reporterId === found.reporterId)) continue;
+
+        const match = this.score(lost, found);
+        if (match && match.score >= minScore) matches.push(match);
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return options.limit ? matches.slice(0, options.limit) : matches;
+  }
+
+  private static getBreedScore(breed1?: string, breed2?: string): number {
+    const words1 = this.tokenize(breed1);
+    const words2 = this.tokenize(breed2);
+    if (!words1.length || !words2.length) return 0.5;
+
+    const isMixed = (words: string[]) => words.some(word => this.MIXED_BREEDS.includes(word));
+    if (isMixed(words1) || isMixed(words2)) return isMixed(words1) && isMixed(words2) ? 0.8 : 0.4;
+
+    return this.getOverlap(words1, words2);
+  }
+
+  // Sizes are guessed by finders: one class apart still counts, two apart rules the dog out
+  private static getSizeScore(size1?: string, size2?: string): number {
+    if (!size1 || !size2) return 0.5;
+
+    // Reports use the Prisma spelling (LARGE), dogs the enum values (large)
+    const sizeOrder = ['tiny', 'small', 'medium', 'large', 'giant'];
+    const index1 = sizeOrder.indexOf(size1.toLowerCase());
+    const index2 = sizeOrder.indexOf(size2.toLowerCase());
+    if (index1 < 0 || index2 < 0) return 0.5;
+
+    const difference = Math.abs(index1 - index2);
+    return difference === 0 ? 1 : difference === 1 ? 0.5 : 0;
+  }
+
+  private static getGenderScore(gender1?: string, gender2?: string): number {
+    if (!gender1 || !gender2) return 0.5;
+    return gender1 === gender2 ? 1 : 0;
+  }
+
+  // Found dogs' ages are estimates
+  private static getAgeScore(age1?: number, age2?: number): number {
+    if (age1 == null || age2 == null) return 0.5;
+
+    const difference = Math.abs(age1 - age2);
+    if (difference <= 1) return 1;
+    if (difference <= 3) return 0.6;
+    if (difference <= 5) return 0.3;
+    return 0;
+  }
+
+  // Share of the shorter description found in the other: "nero e focato" vs "focato"
+  private static getTextScore(text1?: string, text2?: string): number {
+    const words1 = this.tokenize(text1);
+    const words2 = this.tokenize(text2);
+    if (!words1.length || !words2.length) return 0.5;
+
+    return this.getOverlap(words1, words2);
+  }
+
+  private static getOverlap(words1: string[], words2: string[]): number {
+    const set2 = new Set(words2);
+    const common = new Set(words1.filter(word => set2.has(word))).size;
+    return common / Math.min(new Set(words1).size, set2.size);
+  }
+
+  private static tokenize(text?: string): string[] {
+    return (text || '')
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !this.STOP_WORDS.has(word))
+      // Drop the gender/number ending so "nero" matches "nera" and "macchie" matches "macchia"
+      .map(word => (word.length > 3 ? word.replace(/[aeio]$/, '') : word));
+  }
+}
+
 // ===========================================
 // FORMATTING UTILITIES
 // ===========================================
@@ -877,31 +2613,22 @@ export class UrlUtils {
 // EXPORTS
 // ===========================================
 
-export {
-  CryptoUtils,
-  DateUtils,
-  GeoUtils,
-  ValidationUtils,
-  TriageSystem,
-  FoodCalculator,
-  MatchingAlgorithm,
-  FormatUtils,
-  ApiUtils,
-  NotificationUtils,
-  ErrorUtils,
-  SearchUtils,
-  CacheUtils,
-  UrlUtils
-};
-
 export default {
   CryptoUtils,
   DateUtils,
+  SchedulingUtils,
+  RefundCalculator,
+  ReliabilityUtils,
+  CalendarUtils,
   GeoUtils,
   ValidationUtils,
   TriageSystem,
+  PrescriptionUtils,
+  MedicalRecordUtils,
+  VaccinationUtils,
   FoodCalculator,
   MatchingAlgorithm,
+  LostFoundMatcher,
   FormatUtils,
   ApiUtils,
   NotificationUtils,